@@ -19,31 +19,173 @@ Usage:
 
 Commands:
   encode <input> <output>     Encode a text file into QR video
+  append <input> <video>      Append a text file to the end of an encoded video
   search <query> <video>      Search for content in a QR video
   info <video>                Display information about a QR video
+  reindex <video>             Rebuild the index of a QR video from its frames
+  compact <video>             Remove the frames of deleted documents from a QR video
   help                        Show this help message
 
+Options:
+  --index <path>              Index file (default: <video>.index.json)
+  --document <id>             Document ID for reindex/append (default: video/input file name)
+  --codec <name>              Payload compression for encode: none, deflate, brotli (default: none)
+  --tiles <CxR>               Grid of QR codes per frame, e.g. 2x2 (default: 1x1)
+  --color <mode>              QR codes per tile: mono, or 3 color planes with rgb, yuv (default: mono)
+  --parity <K+M>              Add M parity frames per K data frames, e.g. 10+2 (default: none)
+  --preset <name>             Video preset for encode: lossless, seekable, compact (default: none)
+  --container <format>        Video container for encode: mp4, mkv, webm (default: from extension)
+  --verify <mode>             Read the video back before indexing it: none, sample, full (default: none)
+  --shard-frames <n>          Split encode output into shards of at most n frames (default: one video)
+  --shard-bytes <n>           Start a new shard once a shard reaches about n bytes (default: none)
+  --quantize <type>           Store index embeddings for encode as float32, int8, binary (default: float64)
+  --delete <id>               Document to delete from the index before compact
+  --hybrid <fusion>           Combine vector and keyword (BM25) search: rrf, weighted (default: off)
+  --filter <json>             Search filter, e.g. '{"metadata":{"version":{"$gte":2}}}' (default: none)
+
 Examples:
   # Encode a document
   qr-video-rag encode ./docs.txt ./output/docs.mp4
 
-  # Search a video
+  # Encode a lossless, frame-accurate video
+  qr-video-rag encode ./docs.txt ./output/docs.mkv --preset lossless
+
+  # Split a large corpus into shards of at most 1000 frames
+  qr-video-rag encode ./corpus.txt ./output/corpus.mp4 --shard-frames 1000
+
+  # Keep a smaller index with int8 embeddings
+  qr-video-rag encode ./docs.txt ./output/docs.mp4 --quantize int8
+
+  # Add another document to the same video
+  qr-video-rag append ./faq.txt ./output/docs.mp4
+
+  # Search a video (uses the index written by encode)
   qr-video-rag search "authentication" ./output/docs.mp4
 
+  # Combine vector and keyword search for exact terms
+  qr-video-rag search "E_CONN_RESET" ./output/docs.mp4 --hybrid rrf
+
+  # Search one document only
+  qr-video-rag search "authentication" ./output/docs.mp4 --filter '{"documentId":"faq"}'
+
   # Get video info
   qr-video-rag info ./output/docs.mp4
 
+  # Rebuild a lost index
+  qr-video-rag reindex ./output/docs.mp4
+
+  # Erase a document from the video and its index
+  qr-video-rag compact ./output/docs.mp4 --delete faq
+
 Environment Variables:
   GEMINI_API_KEY             Google Gemini API key for embeddings (stored in .env.local)
-  EMBEDDING_PROVIDER         Embedding provider (gemini, google, mock)
+  EMBEDDING_PROVIDER         Embedding provider (gemini, google, simple, mock)
 
 For more information, visit: https://github.com/gpbacay/qryptorag
 `);
 }
 
+// Split "--name value" flags from positional arguments
+function parseArgs(argv) {
+  const args = [];
+  const flags = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && i + 1 < argv.length) {
+      flags[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    } else {
+      args.push(argv[i]);
+    }
+  }
+
+  return { args, flags };
+}
+
+// Default index file stored next to the video
+function getIndexPath(videoPath, flags) {
+  return flags.index || `${videoPath}.index.json`;
+}
+
+// Parse a "--tiles 3x2" flag into a tile grid
+function getTileGrid(flags) {
+  if (!flags.tiles) {
+    return undefined;
+  }
+  const match = /^(\d+)x(\d+)$/.exec(flags.tiles);
+  if (!match) {
+    console.error(`❌ Invalid --tiles value: ${flags.tiles} (expected e.g. 2x2)`);
+    process.exit(1);
+  }
+  return { columns: parseInt(match[1], 10), rows: parseInt(match[2], 10) };
+}
+
+// Parse a "--parity 10+2" flag into frame parity
+function getParity(flags) {
+  if (!flags.parity) {
+    return undefined;
+  }
+  const match = /^(\d+)\+(\d+)$/.exec(flags.parity);
+  if (!match) {
+    console.error(`❌ Invalid --parity value: ${flags.parity} (expected e.g. 10+2)`);
+    process.exit(1);
+  }
+  return { dataFrames: parseInt(match[1], 10), parityFrames: parseInt(match[2], 10) };
+}
+
+// Parse "--shard-frames 1000" / "--shard-bytes 50000000" flags into shard limits
+function getShard(flags) {
+  if (!flags['shard-frames'] && !flags['shard-bytes']) {
+    return undefined;
+  }
+  const shard = {};
+  for (const [flag, option] of [['shard-frames', 'maxFrames'], ['shard-bytes', 'maxBytes']]) {
+    if (flags[flag] === undefined) {
+      continue;
+    }
+    if (!/^\d+$/.test(flags[flag])) {
+      console.error(`❌ Invalid --${flag} value: ${flags[flag]} (expected a positive integer)`);
+      process.exit(1);
+    }
+    shard[option] = parseInt(flags[flag], 10);
+  }
+  return shard;
+}
+
+// Parse a "--quantize int8" flag into index embedding quantization
+function getQuantization(flags) {
+  if (!flags.quantize) {
+    return undefined;
+  }
+  if (!['float64', 'float32', 'int8', 'binary'].includes(flags.quantize)) {
+    console.error(
+      `❌ Invalid --quantize value: ${flags.quantize} (expected float64, float32, int8 or binary)`
+    );
+    process.exit(1);
+  }
+  return { type: flags.quantize };
+}
+
+// Parse a "--filter <json>" flag into a search filter
+function getFilter(flags) {
+  if (!flags.filter) {
+    return undefined;
+  }
+  try {
+    const filter = JSON.parse(flags.filter);
+    if (filter && typeof filter === 'object' && !Array.isArray(filter)) {
+      return filter;
+    }
+  } catch {
+    // Reported below
+  }
+  console.error(`❌ Invalid --filter value: ${flags.filter} (expected a JSON object)`);
+  process.exit(1);
+}
+
 // Main CLI handler
 async function main() {
-  const args = process.argv.slice(2);
+  const { args, flags } = parseArgs(process.argv.slice(2));
   const command = args[0];
 
   if (!command || command === 'help' || command === '--help' || command === '-h') {
@@ -57,16 +199,28 @@ async function main() {
 
     switch (command) {
       case 'encode':
-        await handleEncode(args, pkg);
+        await handleEncode(args, flags, pkg);
         break;
       
+      case 'append':
+        await handleAppend(args, flags, pkg);
+        break;
+
       case 'search':
-        await handleSearch(args, pkg);
+        await handleSearch(args, flags, pkg);
         break;
       
       case 'info':
         await handleInfo(args, pkg);
         break;
+
+      case 'reindex':
+        await handleReindex(args, flags, pkg);
+        break;
+
+      case 'compact':
+        await handleCompact(args, flags, pkg);
+        break;
       
       default:
         console.error(`❌ Unknown command: ${command}`);
@@ -80,7 +234,7 @@ async function main() {
 }
 
 // Handle encode command
-async function handleEncode(args, pkg) {
+async function handleEncode(args, flags, pkg) {
   const inputPath = args[1];
   const outputPath = args[2];
 
@@ -100,10 +254,18 @@ async function handleEncode(args, pkg) {
 
   // Setup embedder
   const embedder = createEmbedder(pkg);
-  const database = pkg.createInMemoryAdapter();
+  const indexPath = getIndexPath(outputPath, flags);
+  const database = pkg.createFileAdapter(indexPath, { quantization: getQuantization(flags) });
 
   console.log('\n🎬 Encoding video...');
   const encoder = new pkg.QRVideoStoreEncoder(database, embedder, {
+    payloadCodec: flags.codec || 'none',
+    tileGrid: getTileGrid(flags),
+    colorMode: flags.color || 'mono',
+    parity: getParity(flags),
+    videoOptions: { preset: flags.preset, container: flags.container },
+    verify: flags.verify,
+    shard: getShard(flags),
     verbose: true,
   });
 
@@ -115,36 +277,129 @@ async function handleEncode(args, pkg) {
   console.log(`\n✅ Video created successfully!`);
   console.log(`📊 Stats:`);
   console.log(`   Output: ${outputPath}`);
+  console.log(`   Index: ${indexPath}`);
   console.log(`   Size: ${(stats.videoSizeBytes / 1024).toFixed(2)} KB`);
   console.log(`   Compression: ${(stats.compressionRatio * 100).toFixed(1)}%`);
   console.log(`   Frames: ${stats.totalFrames}`);
+  if (stats.shardCount !== undefined) {
+    console.log(`   Shards: ${stats.shardCount} (${pkg.getShardLayoutPath(outputPath)})`);
+  }
+  if (stats.codec) {
+    const { codecName, pixelFormat } = stats.codec;
+    console.log(`   Codec: ${codecName}${pixelFormat ? ` (${pixelFormat})` : ''}`);
+  }
+  if (stats.index) {
+    const { quantization, embeddingMemoryBytes, diskBytes } = stats.index;
+    console.log(
+      `   Embeddings: ${quantization}, ${(embeddingMemoryBytes / 1024).toFixed(2)} KB in memory, ` +
+        `index file ${(diskBytes / 1024).toFixed(2)} KB`
+    );
+  }
+}
+
+// Handle append command
+async function handleAppend(args, flags, pkg) {
+  const inputPath = args[1];
+  const videoPath = args[2];
+
+  if (!inputPath || !videoPath) {
+    console.error('❌ Usage: qr-video-rag append <input-file> <video-file>');
+    process.exit(1);
+  }
+
+  for (const file of [inputPath, videoPath]) {
+    if (!fs.existsSync(file)) {
+      console.error(`❌ File not found: ${file}`);
+      process.exit(1);
+    }
+  }
+
+  const text = fs.readFileSync(inputPath, 'utf-8');
+  const embedder = createEmbedder(pkg);
+  const indexPath = getIndexPath(videoPath, flags);
+  const database = pkg.createFileAdapter(indexPath);
+
+  console.log('🎬 Appending to video...');
+  const encoder = new pkg.QRVideoStoreEncoder(database, embedder, {
+    payloadCodec: flags.codec || 'none',
+    tileGrid: getTileGrid(flags),
+    colorMode: flags.color || 'mono',
+    parity: getParity(flags),
+    videoOptions: { preset: flags.preset, container: flags.container },
+    verify: flags.verify,
+    verbose: true,
+  });
+
+  const documentId = flags.document || path.basename(inputPath, path.extname(inputPath));
+  await encoder.appendDocument(videoPath, documentId, text);
+
+  console.log(`\n✅ Appended "${documentId}" to ${videoPath}`);
+  console.log(`   Index: ${indexPath}`);
 }
 
 // Handle search command
-async function handleSearch(args, pkg) {
+async function handleSearch(args, flags, pkg) {
   const query = args[1];
   const videoPath = args[2];
   const limit = parseInt(args[3] || '5', 10);
 
   if (!query || !videoPath) {
-    console.error('❌ Usage: qr-video-rag search "<query>" <video-file> [limit]');
+    console.error('❌ Usage: qr-video-rag search "<query>" <video-file> [limit] [--index <path>] [--hybrid <fusion>] [--filter <json>]');
     process.exit(1);
   }
 
-  if (!fs.existsSync(videoPath)) {
+  // A sharded store only exists as its shard layout and shards
+  if (!fs.existsSync(videoPath) && !fs.existsSync(pkg.getShardLayoutPath(videoPath))) {
     console.error(`❌ Video file not found: ${videoPath}`);
     process.exit(1);
   }
 
-  // Note: For search to work, you need to have encoded with the same embedder
-  // and have the index persisted somewhere
-  console.log('⚠️  Note: CLI search requires a persisted database index.');
-  console.log('    For now, use the programmatic API for full search functionality.');
-  console.log('    See examples/ for usage patterns.\n');
+  const indexPath = getIndexPath(videoPath, flags);
+  if (!fs.existsSync(indexPath)) {
+    console.error(`❌ Index file not found: ${indexPath}`);
+    console.log('   Encode the video with this CLI, or pass --index <path>.');
+    process.exit(1);
+  }
+
+  // The query must be embedded with the same embedder used for encoding
+  const embedder = createEmbedder(pkg);
+  const database = pkg.createFileAdapter(indexPath);
+  const retriever = new pkg.QRVideoStoreRetriever(database, embedder, {
+    tileGrid: getTileGrid(flags),
+    colorMode: flags.color,
+    parity: getParity(flags),
+  });
 
   console.log(`🔍 Query: "${query}"`);
   console.log(`📹 Video: ${videoPath}`);
-  console.log(`🔢 Limit: ${limit}`);
+  const filter = getFilter(flags);
+  if (filter) {
+    console.log(`🏷️  Filter: ${JSON.stringify(filter)}`);
+  }
+  if (flags.hybrid) {
+    if (!['rrf', 'weighted'].includes(flags.hybrid)) {
+      console.error(`❌ Invalid --hybrid value: ${flags.hybrid} (expected rrf or weighted)`);
+      process.exit(1);
+    }
+    console.log(`🔀 Hybrid: ${flags.hybrid}`);
+  }
+  console.log(`🔢 Limit: ${limit}\n`);
+
+  const results = flags.hybrid
+    ? await retriever.hybridSearch(query, videoPath, limit, { fusion: flags.hybrid, filter })
+    : await retriever.search(query, videoPath, limit, filter);
+
+  if (results.length === 0) {
+    console.log('No results found.');
+    return;
+  }
+
+  results.forEach((result, i) => {
+    const tile = result.tileIndex !== undefined ? `, tile ${result.tileIndex}` : '';
+    const channel = result.channel !== undefined ? `, channel ${result.channel}` : '';
+    console.log(`${i + 1}. [${result.similarity.toFixed(3)}] ${result.documentId} (frame ${result.frameNumber}${tile}${channel})`);
+    console.log(`   ${result.text.replace(/\s+/g, ' ').trim()}\n`);
+  });
 }
 
 // Handle info command
@@ -170,6 +425,85 @@ async function handleInfo(args, pkg) {
   console.log(`   const stats = await encoder.getStats(videoPath, originalText);`);
 }
 
+// Handle reindex command
+async function handleReindex(args, flags, pkg) {
+  const videoPath = args[1];
+
+  if (!videoPath) {
+    console.error('❌ Usage: qr-video-rag reindex <video-file> [--index <path>] [--document <id>]');
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(videoPath)) {
+    console.error(`❌ Video file not found: ${videoPath}`);
+    process.exit(1);
+  }
+
+  const embedder = createEmbedder(pkg);
+  const indexPath = getIndexPath(videoPath, flags);
+  const database = pkg.createFileAdapter(indexPath);
+
+  console.log(`\n🔁 Rebuilding index from ${videoPath}...`);
+  const report = await pkg.reindexVideo(videoPath, embedder, database, {
+    documentId: flags.document,
+    tileGrid: getTileGrid(flags),
+    colorMode: flags.color,
+    parity: getParity(flags),
+    verbose: true,
+  });
+
+  console.log(`\n✅ Index rebuilt: ${indexPath}`);
+  console.log(`📊 Report:`);
+  console.log(`   Frames: ${report.totalFrames}`);
+  console.log(`   Chunks indexed: ${report.indexedChunks}`);
+  if (report.failedFrames.length > 0) {
+    console.log(`   ⚠️  Failed frames (${report.failedFrames.length}): ${report.failedFrames.join(', ')}`);
+  }
+  if (report.recoveredFrames.length > 0) {
+    console.log(`   🩹 Recovered from parity: ${report.recoveredFrames.join(', ')}`);
+  }
+}
+
+// Handle compact command
+async function handleCompact(args, flags, pkg) {
+  const videoPath = args[1];
+
+  if (!videoPath) {
+    console.error('❌ Usage: qr-video-rag compact <video-file> [--delete <id>] [--index <path>]');
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(videoPath)) {
+    console.error(`❌ Video file not found: ${videoPath}`);
+    process.exit(1);
+  }
+
+  const indexPath = getIndexPath(videoPath, flags);
+  const database = pkg.createFileAdapter(indexPath);
+  if (flags.delete) {
+    await database.delete(flags.delete);
+    console.log(`🗑️  Deleted "${flags.delete}" from ${indexPath}`);
+  }
+
+  console.log(`\n🧹 Compacting ${videoPath}...`);
+  // Compaction moves existing entries and never embeds, so no API key is needed
+  const encoder = new pkg.QRVideoStoreEncoder(database, pkg.createSimpleEmbedder(), {
+    tileGrid: getTileGrid(flags),
+    colorMode: flags.color || 'mono',
+    parity: getParity(flags),
+    videoOptions: { preset: flags.preset, container: flags.container },
+    verify: flags.verify,
+    verbose: true,
+  });
+  const report = await encoder.compactVideo(videoPath);
+
+  console.log(`\n✅ Compacted: ${videoPath}`);
+  console.log(`📊 Report:`);
+  console.log(`   Frames: ${report.framesBefore} → ${report.framesAfter}`);
+  console.log(`   Entries remapped: ${report.remappedEntries}`);
+  console.log(`   Reclaimed: ${(report.bytesReclaimed / 1024).toFixed(2)} KB`);
+}
+
 // Create embedder based on environment
 function createEmbedder(pkg) {
   // Load .env.local if exists
@@ -189,13 +523,17 @@ function createEmbedder(pkg) {
       console.log('🤖 Using Google Gemini embeddings');
       return pkg.createGeminiEmbedder(process.env.GEMINI_API_KEY);
     
+    case 'simple':
+      console.log('🤖 Using simple hash embeddings (offline)');
+      return pkg.createSimpleEmbedder();
+
     case 'mock':
       console.log('🤖 Using mock embeddings (for demo only)');
       return pkg.createMockEmbedder();
     
     default:
       console.error(`❌ Unknown embedding provider: ${provider}`);
-      console.log('Valid providers: gemini, google, mock');
+      console.log('Valid providers: gemini, google, simple, mock');
       process.exit(1);
   }
 }
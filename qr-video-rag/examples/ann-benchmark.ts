@@ -0,0 +1,103 @@
+/**
+ * HNSW Recall Benchmark
+ *
+ * Compares approximate HNSW search with the exact (brute-force) search of
+ * the in-memory adapter on random embeddings: build time, recall@k and
+ * query time for several M and efSearch values.
+ *
+ * Usage: npx tsx examples/ann-benchmark.ts [entries] [dimensions] [queries]
+ */
+
+import { createHnswIndex, createInMemoryAdapter, QRVideoStoreIndexEntry } from '../src';
+
+const K = 10;
+const M_VALUES = [8, 16];
+const EF_SEARCH_VALUES = [16, 32, 64, 128, 256];
+
+/**
+ * Reproducible pseudo-random vectors with components in [-1, 1)
+ */
+function randomVectors(count: number, dimensions: number, seed: number): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dimensions }, () => random() * 2 - 1)
+  );
+}
+
+/**
+ * Run every query and return the results with the mean time per query
+ */
+async function timeQueries(
+  search: (query: number[]) => Promise<QRVideoStoreIndexEntry[]> | QRVideoStoreIndexEntry[],
+  queries: number[][]
+): Promise<{ results: QRVideoStoreIndexEntry[][]; msPerQuery: number }> {
+  const start = process.hrtime.bigint();
+  const results: QRVideoStoreIndexEntry[][] = [];
+  for (const query of queries) {
+    results.push(await search(query));
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+  return { results, msPerQuery: elapsedMs / queries.length };
+}
+
+/**
+ * Share of the exact top-k entries that the approximate search returned
+ */
+function recallAtK(
+  exact: QRVideoStoreIndexEntry[][],
+  approximate: QRVideoStoreIndexEntry[][]
+): number {
+  let found = 0;
+  exact.forEach((expected, i) => {
+    const frames = new Set(expected.map(entry => entry.frameNumber));
+    found += approximate[i].filter(entry => frames.has(entry.frameNumber)).length;
+  });
+  return found / (exact.length * K);
+}
+
+async function main() {
+  const [count = 20000, dimensions = 128, queryCount = 200] = process.argv
+    .slice(2)
+    .map(arg => parseInt(arg, 10));
+
+  console.log(`📐 ${count} entries × ${dimensions} dimensions, ${queryCount} queries, k = ${K}\n`);
+
+  const entries: QRVideoStoreIndexEntry[] = randomVectors(count, dimensions, 1).map(
+    (embedding, i) => ({ chunkText: `chunk ${i}`, embedding, frameNumber: i, documentId: 'bench' })
+  );
+  const queries = randomVectors(queryCount, dimensions, 2);
+
+  const bruteForce = createInMemoryAdapter(entries);
+  const exact = await timeQueries(query => bruteForce.search(query, K), queries);
+  console.log(`Brute force: ${exact.msPerQuery.toFixed(2)} ms/query\n`);
+
+  for (const M of M_VALUES) {
+    const buildStart = Date.now();
+    const built = createHnswIndex({ M, efConstruction: 200 }, entries);
+    const buildSeconds = (Date.now() - buildStart) / 1000;
+    console.log(`HNSW M=${M}, efConstruction=200: built in ${buildSeconds.toFixed(1)}s`);
+
+    // efSearch only affects queries, so every value reuses the same graph
+    const graph = built.serialize(entries);
+    for (const efSearch of EF_SEARCH_VALUES) {
+      const index = createHnswIndex({ M, efConstruction: 200, efSearch }, entries, graph);
+      const approximate = await timeQueries(query => index.search(query, K), queries);
+      const recall = recallAtK(exact.results, approximate.results);
+      const speedup = exact.msPerQuery / approximate.msPerQuery;
+      console.log(
+        `  efSearch=${String(efSearch).padEnd(4)} recall@${K} ${recall.toFixed(3)}  ` +
+          `${approximate.msPerQuery.toFixed(2)} ms/query (${speedup.toFixed(1)}× faster)`
+      );
+    }
+    console.log();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Benchmark failed:', error);
+  process.exit(1);
+});
@@ -4,15 +4,37 @@
  * Self-contained database adapters for the QR Video RAG system
  */
 
-import { VectorDatabase, QRVideoStoreIndexEntry } from '../types';
+import * as fs from 'fs';
+import {
+  VectorDatabase,
+  QRVideoStoreIndexEntry,
+  SearchFilter,
+  Bm25Index,
+  DatabaseAdapterOptions,
+  HnswIndex,
+  SerializedHnswGraph,
+  QuantizationOptions,
+  VectorDatabaseStats,
+} from '../types';
+import { createBm25Index } from '../bm25';
+import { createHnswIndex } from '../hnsw';
+import { createEmbeddingStore, EmbeddingStore } from '../quantization';
+import { writeFileAtomic } from '../files';
 
 /**
  * In-memory vector database adapter
  *
  * Simple implementation for testing and small datasets.
- * Uses cosine similarity for vector search.
+ * Uses cosine similarity for vector search, after applying the search filter,
+ * and keeps a BM25 index of the chunk texts for `searchText`. By default
+ * every query is compared with every entry; with `options.hnsw` an HNSW
+ * graph, updated on every write, answers queries approximately instead.
+ * With `options.quantization`, embeddings are held as float32, int8 or binary
+ * codes and returned dequantized. Upserted entries replace stored entries
+ * with the same `chunkId`.
  *
  * @param initialData Optional initial data to populate
+ * @param options Optional HNSW index or embedding quantization
  * @returns VectorDatabase implementation
  *
  * @example
@@ -20,79 +42,383 @@ import { VectorDatabase, QRVideoStoreIndexEntry } from '../types';
  * const db = createInMemoryAdapter();
  * await db.upsert([...entries]);
  * const results = await db.search(embedding, 5);
+ * const byAlice = await db.search(embedding, 5, { metadata: { author: 'alice' } });
+ *
+ * // Large stores
+ * const fast = createInMemoryAdapter([], { hnsw: { M: 16, efSearch: 64 } });
+ * const small = createInMemoryAdapter([], { quantization: { type: 'int8', rescore: true } });
  * ```
  */
 export function createInMemoryAdapter(
-  initialData: QRVideoStoreIndexEntry[] = []
+  initialData: QRVideoStoreIndexEntry[] = [],
+  options: DatabaseAdapterOptions = {}
 ): VectorDatabase {
-  const store: QRVideoStoreIndexEntry[] = [...initialData];
+  const embeddings = createAdapterEmbeddingStore(options);
+  const store: QRVideoStoreIndexEntry[] = embeddings.add(dedupeChunks(initialData));
+  const textIndex = createBm25Index(store);
+  const vectorIndex = options.hnsw ? createHnswIndex(options.hnsw, store) : null;
+
+  // Append entries in place of stored entries with the same chunk ID or matching `replaces`
+  const write = (
+    entries: QRVideoStoreIndexEntry[],
+    replaces?: (entry: QRVideoStoreIndexEntry) => boolean
+  ): void => {
+    const stored = embeddings.add(dedupeChunks(entries));
+    const removed = removeEntries(store, isReplacedBy(stored, replaces));
+    textIndex.remove(removed);
+    vectorIndex?.remove(removed);
+    store.push(...stored);
+    textIndex.add(stored);
+    vectorIndex?.add(stored);
+  };
 
   return {
     async upsert(entries: QRVideoStoreIndexEntry[]): Promise<void> {
-      // Simple append (no deduplication)
-      store.push(...entries);
+      write(entries);
     },
 
-    async search(embedding: number[], limit: number): Promise<QRVideoStoreIndexEntry[]> {
-      if (store.length === 0) {
-        return [];
-      }
+    async replaceDocument(documentId: string, entries: QRVideoStoreIndexEntry[]): Promise<void> {
+      write(entries, entry => entry.documentId === documentId);
+    },
 
-      // Calculate cosine similarity for all entries
-      const results = store.map(entry => {
-        const similarity = cosineSimilarity(embedding, entry.embedding);
-        return { ...entry, similarity };
-      });
+    async search(
+      embedding: number[],
+      limit: number,
+      filter?: SearchFilter
+    ): Promise<QRVideoStoreIndexEntry[]> {
+      return vectorIndex
+        ? vectorIndex.search(embedding, limit, filter)
+        : embeddings.search(store, embedding, limit, filter);
+    },
 
-      // Sort by similarity (highest first) and take top N
-      results.sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
-      return results.slice(0, limit);
+    async searchText(
+      query: string,
+      limit: number,
+      filter?: SearchFilter
+    ): Promise<QRVideoStoreIndexEntry[]> {
+      return textIndex.search(query, limit, filter).map(embeddings.expand);
     },
 
     async delete(documentId: string): Promise<void> {
-      const indicesToRemove: number[] = [];
-      for (let i = store.length - 1; i >= 0; i--) {
-        if (store[i].documentId === documentId) {
-          indicesToRemove.push(i);
-        }
-      }
-
-      for (const index of indicesToRemove) {
-        store.splice(index, 1);
-      }
+      const removed = removeEntries(store, entry => entry.documentId === documentId);
+      textIndex.remove(removed);
+      vectorIndex?.remove(removed);
     },
 
     async clear(): Promise<void> {
       store.length = 0;
+      textIndex.clear();
+      vectorIndex?.clear();
+    },
+
+    async list(): Promise<QRVideoStoreIndexEntry[]> {
+      return store.map(embeddings.expand);
+    },
+
+    async replaceAll(entries: QRVideoStoreIndexEntry[]): Promise<void> {
+      store.splice(0, store.length, ...embeddings.add(entries));
+      textIndex.clear();
+      textIndex.add(store);
+      vectorIndex?.clear();
+      vectorIndex?.add(store);
+    },
+
+    async getStats(): Promise<VectorDatabaseStats> {
+      return embeddings.getStats(store);
     },
   };
 }
 
 /**
- * Calculate cosine similarity between two vectors
+ * File-backed vector database adapter
+ *
+ * Persists the index as a JSON file so an index built by one process can be
+ * searched by another. Entries are loaded lazily on first use and every
+ * write replaces the file atomically (write to a temporary file, then rename).
+ * Upserted entries replace stored entries with the same `chunkId`.
+ * The BM25 index for `searchText` is rebuilt in memory when the file is loaded.
+ * With `options.hnsw`, the HNSW graph is saved in the same file and restored
+ * with the entries, or rebuilt if it is missing or has other parameters.
+ * Quantized embeddings are saved as base64 codes; without
+ * `options.quantization` the adapter keeps the quantization the file was
+ * written with, and with it a file in another format is re-encoded on load.
+ *
+ * @param filePath Path of the JSON index file
+ * @param options Optional HNSW index or embedding quantization
+ * @returns VectorDatabase implementation
+ *
+ * @example
+ * ```typescript
+ * const db = createFileAdapter('./videos/docs.index.json');
+ * const encoder = new QRVideoStoreEncoder(db, embedder);
+ * await encoder.addDocument('docs', text, './videos/docs.mp4');
+ *
+ * // Later, in another process
+ * const retriever = new QRVideoStoreRetriever(createFileAdapter('./videos/docs.index.json'), embedder);
+ * ```
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have same length');
+export function createFileAdapter(
+  filePath: string,
+  options: DatabaseAdapterOptions = {}
+): VectorDatabase {
+  let store: QRVideoStoreIndexEntry[] | null = null;
+  let embeddings: EmbeddingStore = createAdapterEmbeddingStore(options);
+  let textIndex: Bm25Index = createBm25Index();
+  let vectorIndex: HnswIndex | null = null;
+  let loading: Promise<QRVideoStoreIndexEntry[]> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = (): Promise<QRVideoStoreIndexEntry[]> => {
+    if (store) {
+      return Promise.resolve(store);
+    }
+    if (!loading) {
+      loading = readIndexFile(filePath).then(file => {
+        const quantization = options.quantization ?? file.quantization;
+        embeddings = createAdapterEmbeddingStore({ ...options, quantization });
+        const entries = embeddings.restore(file.entries, file.quantization, file.embeddings);
+        store = entries;
+        textIndex = createBm25Index(entries);
+        vectorIndex = options.hnsw ? createHnswIndex(options.hnsw, entries, file.hnsw) : null;
+        return entries;
+      });
+      // Allow a retry if the file could not be read
+      loading.catch(() => {
+        loading = null;
+      });
+    }
+    return loading;
+  };
+
+  // Writes are chained so concurrent mutations never interleave on disk
+  const persist = (): Promise<void> => {
+    writing = writing
+      .catch(() => undefined)
+      .then(() => {
+        const entries = store ?? [];
+        const { options: quantization } = embeddings;
+        return writeIndexFile(filePath, entries, {
+          hnsw: vectorIndex?.serialize(entries),
+          quantization: quantization.type === 'float64' ? undefined : quantization,
+          embeddings: embeddings.serialize(entries),
+        });
+      });
+    return writing;
+  };
+
+  // Append entries in place of stored entries with the same chunk ID or matching `replaces`
+  const write = async (
+    entries: QRVideoStoreIndexEntry[],
+    replaces?: (entry: QRVideoStoreIndexEntry) => boolean
+  ): Promise<void> => {
+    const current = await load();
+    const stored = embeddings.add(dedupeChunks(entries));
+    const removed = removeEntries(current, isReplacedBy(stored, replaces));
+    textIndex.remove(removed);
+    vectorIndex?.remove(removed);
+    current.push(...stored);
+    textIndex.add(stored);
+    vectorIndex?.add(stored);
+    await persist();
+  };
+
+  return {
+    async upsert(entries: QRVideoStoreIndexEntry[]): Promise<void> {
+      await write(entries);
+    },
+
+    async replaceDocument(documentId: string, entries: QRVideoStoreIndexEntry[]): Promise<void> {
+      await write(entries, entry => entry.documentId === documentId);
+    },
+
+    async search(
+      embedding: number[],
+      limit: number,
+      filter?: SearchFilter
+    ): Promise<QRVideoStoreIndexEntry[]> {
+      const entries = await load();
+      return vectorIndex
+        ? vectorIndex.search(embedding, limit, filter)
+        : embeddings.search(entries, embedding, limit, filter);
+    },
+
+    async searchText(
+      query: string,
+      limit: number,
+      filter?: SearchFilter
+    ): Promise<QRVideoStoreIndexEntry[]> {
+      await load();
+      return textIndex.search(query, limit, filter).map(embeddings.expand);
+    },
+
+    async delete(documentId: string): Promise<void> {
+      const current = await load();
+      const removed = removeEntries(current, entry => entry.documentId === documentId);
+      textIndex.remove(removed);
+      vectorIndex?.remove(removed);
+      await persist();
+    },
+
+    async clear(): Promise<void> {
+      (await load()).length = 0;
+      textIndex.clear();
+      vectorIndex?.clear();
+      await persist();
+    },
+
+    async list(): Promise<QRVideoStoreIndexEntry[]> {
+      return (await load()).map(embeddings.expand);
+    },
+
+    async replaceAll(entries: QRVideoStoreIndexEntry[]): Promise<void> {
+      await load();
+      store = embeddings.add(entries);
+      textIndex = createBm25Index(store);
+      vectorIndex = options.hnsw ? createHnswIndex(options.hnsw, store) : null;
+      await persist();
+    },
+
+    async getStats(): Promise<VectorDatabaseStats> {
+      const entries = await load();
+      const stats = embeddings.getStats(entries);
+      await writing.catch(() => undefined);
+      return { ...stats, diskBytes: await getFileSize(filePath) };
+    },
+  };
+}
+
+/**
+ * Embedding store for adapter options, which cannot combine HNSW and quantization
+ */
+function createAdapterEmbeddingStore(options: DatabaseAdapterOptions): EmbeddingStore {
+  const type = options.quantization?.type ?? 'float64';
+  if (options.hnsw && type !== 'float64') {
+    throw new Error(`HNSW cannot be combined with ${type} quantization`);
   }
+  return createEmbeddingStore(options.quantization);
+}
+
+/**
+ * On-disk format of the file adapter
+ */
+interface IndexFile {
+  version: number;
+  entries: QRVideoStoreIndexEntry[];
+  /** HNSW graph over the entries, when the adapter has one */
+  hnsw?: SerializedHnswGraph;
+  /** Storage format of quantized embeddings (version 2) */
+  quantization?: QuantizationOptions;
+  /** Base64 codes of each entry's quantized embedding (version 2) */
+  embeddings?: string[];
+}
+
+type IndexFileContents = Omit<IndexFile, 'version'>;
 
-  let dotProduct = 0;
-  let magA = 0;
-  let magB = 0;
+/** Version of files with float64 embeddings, which older readers still load */
+const INDEX_FILE_VERSION = 1;
+const QUANTIZED_INDEX_FILE_VERSION = 2;
 
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    magA += a[i] * a[i];
-    magB += b[i] * b[i];
+/**
+ * Read index entries, graph and quantized embeddings from disk, returning an
+ * empty index if the file does not exist
+ */
+async function readIndexFile(filePath: string): Promise<IndexFileContents> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { entries: [] };
+    }
+    throw error;
   }
 
-  magA = Math.sqrt(magA);
-  magB = Math.sqrt(magB);
+  const parsed = JSON.parse(raw) as IndexFile;
+  if (!parsed || !Array.isArray(parsed.entries)) {
+    throw new Error(`Invalid index file: ${filePath}`);
+  }
+  if (parsed.version > QUANTIZED_INDEX_FILE_VERSION) {
+    throw new Error(`Unsupported index file version ${parsed.version}: ${filePath}`);
+  }
 
-  if (magA === 0 || magB === 0) {
-    return 0;
+  const { entries, hnsw, quantization, embeddings } = parsed;
+  return { entries, hnsw, quantization, embeddings };
+}
+
+/**
+ * Write index entries, and the graph and quantized embeddings if any, to disk atomically
+ */
+async function writeIndexFile(
+  filePath: string,
+  entries: QRVideoStoreIndexEntry[],
+  extras: Omit<IndexFileContents, 'entries'> = {}
+): Promise<void> {
+  const data: IndexFile = {
+    version: extras.quantization ? QUANTIZED_INDEX_FILE_VERSION : INDEX_FILE_VERSION,
+    entries: entries.map(entry => ({ ...entry, similarity: undefined })),
+    ...extras,
+  };
+  await writeFileAtomic(filePath, JSON.stringify(data));
+}
+
+/**
+ * Remove every entry matching a predicate, in place
+ *
+ * @returns The removed entries
+ */
+function removeEntries(
+  entries: QRVideoStoreIndexEntry[],
+  predicate: (entry: QRVideoStoreIndexEntry) => boolean
+): QRVideoStoreIndexEntry[] {
+  const removed: QRVideoStoreIndexEntry[] = [];
+  let kept = 0;
+  for (const entry of entries) {
+    if (predicate(entry)) {
+      removed.push(entry);
+    } else {
+      entries[kept++] = entry;
+    }
+  }
+  entries.length = kept;
+  return removed;
+}
+
+/**
+ * Keep only the last of several entries with the same chunk ID
+ */
+function dedupeChunks(entries: QRVideoStoreIndexEntry[]): QRVideoStoreIndexEntry[] {
+  const last = new Map<string, QRVideoStoreIndexEntry>();
+  for (const entry of entries) {
+    if (entry.chunkId !== undefined) {
+      last.set(entry.chunkId, entry);
+    }
   }
+  return entries.filter(entry => entry.chunkId === undefined || last.get(entry.chunkId) === entry);
+}
 
-  return dotProduct / (magA * magB);
+/**
+ * Predicate matching the stored entries that new entries replace
+ */
+function isReplacedBy(
+  entries: QRVideoStoreIndexEntry[],
+  replaces: (entry: QRVideoStoreIndexEntry) => boolean = () => false
+): (entry: QRVideoStoreIndexEntry) => boolean {
+  const chunkIds = new Set(entries.map(entry => entry.chunkId));
+  chunkIds.delete(undefined);
+  return entry => chunkIds.has(entry.chunkId) || replaces(entry);
+}
+
+/**
+ * Size of a file in bytes, 0 if it does not exist
+ */
+async function getFileSize(filePath: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(filePath)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
 }
 
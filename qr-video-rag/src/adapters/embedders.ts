@@ -45,6 +45,8 @@ export function createSimpleEmbedder(dimension: number = 384): Embedder {
     dimension(): number {
       return dimension;
     },
+
+    name: 'simple-hash',
   };
 }
 
@@ -89,6 +91,7 @@ function characterPatternHash(str: string): number {
  * 
  * @param embedFn Function that generates embeddings
  * @param dimension Optional embedding dimension
+ * @param name Optional model identifier, recorded in embedded video indexes
  * @returns Embedder implementation
  * 
  * @example
@@ -104,11 +107,13 @@ function characterPatternHash(str: string): number {
  */
 export function createCustomEmbedder(
   embedFn: (text: string) => Promise<number[]>,
-  dimension?: number
+  dimension?: number,
+  name?: string
 ): Embedder {
   return {
     embed: embedFn,
     dimension: dimension ? () => dimension : undefined,
+    name,
   };
 }
 
@@ -7,8 +7,16 @@
 // Database adapters
 export {
   createInMemoryAdapter,
+  createFileAdapter,
 } from './database';
 
+// Storage adapters
+export {
+  createLocalStorageBackend,
+  createInMemoryStorageBackend,
+  createS3StorageBackend,
+} from './storage';
+
 // Embedder adapters
 export {
   createSimpleEmbedder,
@@ -0,0 +1,300 @@
+/**
+ * QR Video RAG - Storage Adapters
+ *
+ * Self-contained video storage backends for the QR Video RAG system
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { VideoStorageBackend, S3StorageOptions } from '../types';
+import { writeFileAtomic } from '../files';
+
+/**
+ * Local file system storage backend
+ *
+ * Video paths are resolved against `rootDir`. Saves write a temporary file
+ * next to the video and rename it, so readers never see a partial video.
+ *
+ * @param rootDir Directory video paths are relative to (default: the working directory)
+ * @returns VideoStorageBackend implementation
+ *
+ * @example
+ * ```typescript
+ * const storage = createLocalStorageBackend('./videos');
+ * const encoder = new QRVideoStoreEncoder(db, embedder, { storage });
+ * await encoder.addDocument('docs', text, 'docs.mp4'); // ./videos/docs.mp4
+ * ```
+ */
+export function createLocalStorageBackend(rootDir: string = '.'): VideoStorageBackend {
+  const resolve = (videoPath: string) => path.resolve(rootDir, videoPath);
+
+  return {
+    async save(videoPath: string, buffer: Buffer): Promise<void> {
+      await writeFileAtomic(resolve(videoPath), buffer);
+    },
+
+    async load(videoPath: string): Promise<Buffer> {
+      return fs.promises.readFile(resolve(videoPath));
+    },
+
+    async exists(videoPath: string): Promise<boolean> {
+      try {
+        await fs.promises.access(resolve(videoPath));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async delete(videoPath: string): Promise<void> {
+      await fs.promises.rm(resolve(videoPath), { force: true });
+    },
+
+    async loadRange(videoPath: string, start: number, end: number): Promise<Buffer> {
+      const file = await fs.promises.open(resolve(videoPath), 'r');
+      try {
+        const buffer = Buffer.alloc(Math.max(0, end - start));
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await file.close();
+      }
+    },
+
+    async size(videoPath: string): Promise<number> {
+      return (await fs.promises.stat(resolve(videoPath))).size;
+    },
+  };
+}
+
+/**
+ * In-memory storage backend
+ *
+ * Simple implementation for testing. Paths that normalize to the same
+ * relative path (`./videos/a.mp4`, `videos/a.mp4`) name the same video.
+ *
+ * @returns VideoStorageBackend implementation
+ *
+ * @example
+ * ```typescript
+ * const storage = createInMemoryStorageBackend();
+ * const encoder = new QRVideoStoreEncoder(db, embedder, { storage });
+ * const retriever = new QRVideoStoreRetriever(db, embedder, { storage });
+ * ```
+ */
+export function createInMemoryStorageBackend(): VideoStorageBackend {
+  const videos = new Map<string, Buffer>();
+  const get = (videoPath: string): Buffer => {
+    const video = videos.get(toKey(videoPath));
+    if (!video) {
+      throw new Error(`Video not found in storage: ${videoPath}`);
+    }
+    return video;
+  };
+
+  return {
+    async save(videoPath: string, buffer: Buffer): Promise<void> {
+      videos.set(toKey(videoPath), Buffer.from(buffer));
+    },
+
+    async load(videoPath: string): Promise<Buffer> {
+      return Buffer.from(get(videoPath));
+    },
+
+    async exists(videoPath: string): Promise<boolean> {
+      return videos.has(toKey(videoPath));
+    },
+
+    async delete(videoPath: string): Promise<void> {
+      videos.delete(toKey(videoPath));
+    },
+
+    async loadRange(videoPath: string, start: number, end: number): Promise<Buffer> {
+      return Buffer.from(get(videoPath).subarray(start, end));
+    },
+
+    async size(videoPath: string): Promise<number> {
+      return get(videoPath).length;
+    },
+  };
+}
+
+/**
+ * S3-compatible storage backend
+ *
+ * Talks to the S3 REST API directly with `fetch`, signing every request
+ * with AWS Signature Version 4, so no SDK is needed. Objects are addressed
+ * path-style (`<endpoint>/<bucket>/<key>`), which AWS S3, MinIO, Ceph and
+ * most other S3-compatible services accept. The bucket must exist.
+ *
+ * @param options Endpoint, bucket, credentials and key prefix
+ * @returns VideoStorageBackend implementation
+ *
+ * @example
+ * ```typescript
+ * const storage = createS3StorageBackend({
+ *   endpoint: 'http://localhost:9000',
+ *   bucket: 'knowledge',
+ *   accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+ *   secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+ *   prefix: 'videos/',
+ * });
+ * ```
+ */
+export function createS3StorageBackend(options: S3StorageOptions): VideoStorageBackend {
+  const endpoint = new URL(options.endpoint);
+  const region = options.region ?? 'us-east-1';
+  const basePath = endpoint.pathname.replace(/\/+$/, '');
+
+  const request = async (
+    method: 'GET' | 'PUT' | 'HEAD' | 'DELETE',
+    videoPath: string,
+    body?: Buffer,
+    headers: Record<string, string> = {}
+  ): Promise<Response> => {
+    const key = `${options.prefix ?? ''}${toKey(videoPath)}`.replace(/^\/+/, '');
+    const objectPath = [options.bucket, ...key.split('/')].map(encodeRfc3986).join('/');
+    const url = new URL(`${basePath}/${objectPath}`, endpoint);
+    const signed = signS3Request(method, url, body ?? Buffer.alloc(0), region, options);
+
+    return fetch(url, {
+      method,
+      headers: { ...headers, ...signed },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  };
+
+  const fail = async (response: Response, action: string, videoPath: string): Promise<never> => {
+    const detail = response.status === 404 ? 'not found' : await response.text();
+    throw new Error(`S3 ${action} of ${videoPath} failed (${response.status}): ${detail}`);
+  };
+
+  return {
+    async save(videoPath: string, buffer: Buffer): Promise<void> {
+      const response = await request('PUT', videoPath, buffer);
+      if (!response.ok) {
+        await fail(response, 'upload', videoPath);
+      }
+    },
+
+    async load(videoPath: string): Promise<Buffer> {
+      const response = await request('GET', videoPath);
+      if (!response.ok) {
+        await fail(response, 'download', videoPath);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async exists(videoPath: string): Promise<boolean> {
+      const response = await request('HEAD', videoPath);
+      if (response.status === 404) {
+        return false;
+      }
+      if (!response.ok) {
+        await fail(response, 'lookup', videoPath);
+      }
+      return true;
+    },
+
+    async delete(videoPath: string): Promise<void> {
+      const response = await request('DELETE', videoPath);
+      if (!response.ok && response.status !== 404) {
+        await fail(response, 'delete', videoPath);
+      }
+    },
+
+    async loadRange(videoPath: string, start: number, end: number): Promise<Buffer> {
+      if (end <= start) {
+        return Buffer.alloc(0);
+      }
+      const response = await request('GET', videoPath, undefined, {
+        range: `bytes=${start}-${end - 1}`,
+      });
+      if (!response.ok) {
+        await fail(response, 'ranged download', videoPath);
+      }
+      const bytes = Buffer.from(await response.arrayBuffer());
+      // Servers that ignore the range send the whole object
+      return response.status === 206 ? bytes : bytes.subarray(start, end);
+    },
+
+    async size(videoPath: string): Promise<number> {
+      const response = await request('HEAD', videoPath);
+      if (!response.ok) {
+        await fail(response, 'lookup', videoPath);
+      }
+      return Number(response.headers.get('content-length') ?? 0);
+    },
+  };
+}
+
+/**
+ * Normalize a video path into a storage key with forward slashes
+ */
+function toKey(videoPath: string): string {
+  return path.posix.normalize(videoPath.split(path.sep).join('/')).replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Percent-encode a path segment as required by Signature Version 4
+ */
+function encodeRfc3986(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Headers signing an S3 request with AWS Signature Version 4
+ */
+function signS3Request(
+  method: string,
+  url: URL,
+  body: Buffer,
+  region: string,
+  credentials: Pick<S3StorageOptions, 'accessKeyId' | 'secretAccessKey' | 'sessionToken'>
+): Record<string, string> {
+  const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+  const hmac = (key: string | Buffer, data: string) =>
+    crypto.createHmac('sha256', key).update(data).digest();
+
+  const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${region}/s3/aws4_request`;
+  // fetch sets the host header itself, but it must be signed
+  const headers: Record<string, string> = {
+    'x-amz-content-sha256': sha256(body),
+    'x-amz-date': amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+  const signedHeaders: Record<string, string> = { host: url.host, ...headers };
+
+  const names = Object.keys(signedHeaders).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    ...names.map(name => `${name}:${signedHeaders[name]}`),
+    '',
+    names.join(';'),
+    headers['x-amz-content-sha256'],
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), region)
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${names.join(';')}, Signature=${signature}`,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * QR Video RAG - BM25
+ *
+ * Inverted index ranking chunk texts by keyword relevance
+ */
+
+import { Bm25Index, QRVideoStoreIndexEntry, SearchFilter } from './types';
+import { matchesFilter } from './filter';
+
+/** Term frequency saturation */
+const K1 = 1.2;
+
+/** Document length normalization */
+const B = 0.75;
+
+/**
+ * Term statistics of one indexed entry
+ */
+interface IndexedEntry {
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Split text into lowercase terms of letters and digits
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Create a BM25 index
+ *
+ * @param entries Optional entries to index right away
+ */
+export function createBm25Index(entries: QRVideoStoreIndexEntry[] = []): Bm25Index {
+  const indexed = new Map<QRVideoStoreIndexEntry, IndexedEntry>();
+  const postings = new Map<string, Set<QRVideoStoreIndexEntry>>();
+  let totalLength = 0;
+
+  const index: Bm25Index = {
+    add(added: QRVideoStoreIndexEntry[]): void {
+      for (const entry of added) {
+        if (indexed.has(entry)) {
+          continue;
+        }
+        const terms = tokenize(entry.chunkText);
+        const termCounts = new Map<string, number>();
+        for (const term of terms) {
+          termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+        }
+        for (const term of termCounts.keys()) {
+          let posting = postings.get(term);
+          if (!posting) {
+            posting = new Set();
+            postings.set(term, posting);
+          }
+          posting.add(entry);
+        }
+        indexed.set(entry, { termCounts, length: terms.length });
+        totalLength += terms.length;
+      }
+    },
+
+    remove(removed: QRVideoStoreIndexEntry[]): void {
+      for (const entry of removed) {
+        const stats = indexed.get(entry);
+        if (!stats) {
+          continue;
+        }
+        for (const term of stats.termCounts.keys()) {
+          const posting = postings.get(term)!;
+          posting.delete(entry);
+          if (posting.size === 0) {
+            postings.delete(term);
+          }
+        }
+        indexed.delete(entry);
+        totalLength -= stats.length;
+      }
+    },
+
+    clear(): void {
+      indexed.clear();
+      postings.clear();
+      totalLength = 0;
+    },
+
+    search(query: string, limit: number, filter?: SearchFilter): QRVideoStoreIndexEntry[] {
+      if (indexed.size === 0) {
+        return [];
+      }
+
+      const averageLength = totalLength / indexed.size || 1;
+      const scores = new Map<QRVideoStoreIndexEntry, number>();
+
+      for (const term of new Set(tokenize(query))) {
+        const posting = postings.get(term);
+        if (!posting) {
+          continue;
+        }
+        const idf = Math.log(1 + (indexed.size - posting.size + 0.5) / (posting.size + 0.5));
+        for (const entry of posting) {
+          const { termCounts, length } = indexed.get(entry)!;
+          const count = termCounts.get(term)!;
+          const score =
+            (idf * count * (K1 + 1)) / (count + K1 * (1 - B + (B * length) / averageLength));
+          scores.set(entry, (scores.get(entry) ?? 0) + score);
+        }
+      }
+
+      return [...scores]
+        .filter(([entry]) => matchesFilter(entry, filter))
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([entry, similarity]) => ({ ...entry, similarity }));
+    },
+  };
+
+  index.add(entries);
+  return index;
+}
@@ -0,0 +1,502 @@
+/**
+ * QR Video RAG - Chunkers
+ *
+ * Built-in strategies for splitting documents into chunks
+ */
+
+import * as crypto from 'crypto';
+import { Chunk, Chunker, ChunkerOptions } from './types';
+
+/**
+ * A half-open character range [start, end) of the source text
+ */
+interface Span {
+  start: number;
+  end: number;
+}
+
+/** Sentence boundary: terminal punctuation (plus closing quotes/brackets) followed by whitespace */
+const SENTENCE_BOUNDARY = /[.!?。！？]["')\]”’]*\s+/g;
+
+/** Paragraph boundary: one or more blank lines */
+const PARAGRAPH_BOUNDARY = /\n[ \t]*\n\s*/g;
+
+/** Default separators for the recursive chunker, from coarsest to finest */
+const DEFAULT_SEPARATORS = ['\n\n', '\n', '. ', ' ', ''];
+
+/** Text buffered by `streamChunks`, in multiples of `chunkSize`, before chunks are emitted */
+const STREAM_WINDOW_CHUNKS = 4;
+
+/**
+ * Fixed-size character window chunker
+ *
+ * Slices text on raw character offsets. This is the default strategy.
+ *
+ * @returns Chunker implementation
+ *
+ * @example
+ * ```typescript
+ * const encoder = new QRVideoStoreEncoder(db, embedder, {
+ *   chunker: createFixedSizeChunker(),
+ * });
+ * ```
+ */
+export function createFixedSizeChunker(): Chunker {
+  return {
+    name: 'fixed',
+
+    chunk(text: string, { chunkSize, chunkOverlap }: ChunkerOptions): Chunk[] {
+      const chunks: Chunk[] = [];
+      let i = 0;
+
+      while (i < text.length) {
+        const end = Math.min(i + chunkSize, text.length);
+        chunks.push(makeChunk(text, { start: i, end }, chunks.length));
+        i += chunkSize - chunkOverlap;
+      }
+
+      return chunks;
+    },
+  };
+}
+
+/**
+ * Sentence chunker
+ *
+ * Packs whole sentences into each chunk. Sentences longer than `chunkSize`
+ * are split on word boundaries.
+ *
+ * @returns Chunker implementation
+ */
+export function createSentenceChunker(): Chunker {
+  return {
+    name: 'sentence',
+
+    chunk(text: string, { chunkSize, chunkOverlap }: ChunkerOptions): Chunk[] {
+      const spans = splitByPattern(text, { start: 0, end: text.length }, SENTENCE_BOUNDARY);
+      const units = spans.flatMap(span => splitOversized(text, span, [' ', ''], chunkSize));
+      return packSpans(text, units, chunkSize, chunkOverlap);
+    },
+  };
+}
+
+/**
+ * Paragraph chunker
+ *
+ * Packs whole paragraphs (separated by blank lines) into each chunk.
+ * Paragraphs longer than `chunkSize` are split on lines, sentences and words.
+ *
+ * @returns Chunker implementation
+ */
+export function createParagraphChunker(): Chunker {
+  return {
+    name: 'paragraph',
+
+    chunk(text: string, { chunkSize, chunkOverlap }: ChunkerOptions): Chunk[] {
+      const spans = splitByPattern(text, { start: 0, end: text.length }, PARAGRAPH_BOUNDARY);
+      const units = spans.flatMap(span =>
+        splitOversized(text, span, ['\n', SENTENCE_BOUNDARY, ' ', ''], chunkSize)
+      );
+      return packSpans(text, units, chunkSize, chunkOverlap);
+    },
+  };
+}
+
+/**
+ * Recursive separator chunker
+ *
+ * Splits on the coarsest separator first and only falls back to finer
+ * separators for pieces that are still larger than `chunkSize`. An empty
+ * string separator splits on characters.
+ *
+ * @param separators Separators from coarsest to finest (default: paragraphs, lines, sentences, words, characters)
+ * @returns Chunker implementation
+ *
+ * @example
+ * ```typescript
+ * const chunker = createRecursiveChunker(['\n## ', '\n\n', '\n', ' ', '']);
+ * ```
+ */
+export function createRecursiveChunker(separators: string[] = DEFAULT_SEPARATORS): Chunker {
+  return {
+    name: 'recursive',
+
+    chunk(text: string, { chunkSize, chunkOverlap }: ChunkerOptions): Chunk[] {
+      const units = splitOversized(text, { start: 0, end: text.length }, separators, chunkSize);
+      return packSpans(text, units, chunkSize, chunkOverlap);
+    },
+  };
+}
+
+/**
+ * Markdown heading-aware chunker
+ *
+ * Starts a new chunk at every heading and never splits fenced code blocks
+ * unless a block alone exceeds `chunkSize`. Each chunk records the heading
+ * path it belongs to in `metadata.headings`.
+ *
+ * @returns Chunker implementation
+ */
+export function createMarkdownChunker(): Chunker {
+  return {
+    name: 'markdown',
+
+    chunk(text: string, { chunkSize, chunkOverlap }: ChunkerOptions): Chunk[] {
+      const chunks: Chunk[] = [];
+
+      for (const section of splitMarkdownSections(text)) {
+        const units = section.blocks.flatMap(block =>
+          splitOversized(text, block, ['\n', SENTENCE_BOUNDARY, ' ', ''], chunkSize)
+        );
+
+        for (const chunk of packSpans(text, units, chunkSize, chunkOverlap)) {
+          chunks.push({
+            ...chunk,
+            index: chunks.length,
+            metadata: { ...chunk.metadata, headings: section.headings },
+          });
+        }
+      }
+
+      return chunks;
+    },
+  };
+}
+
+/**
+ * Chunk a stream of text pieces and ready-made chunks
+ *
+ * Text pieces are buffered and chunked with `chunker` over a sliding window
+ * of a few chunks, so memory use does not grow with the length of the
+ * stream. Only chunks that end before the window are emitted; chunking
+ * resumes at the first chunk that reaches its end. Chunk offsets refer to the concatenated text of the stream.
+ * Ready-made chunks are passed through (after chunking any buffered text)
+ * and renumbered. Chunkers that depend on document-wide context, such as
+ * Markdown heading paths, only see the current window.
+ *
+ * @param source Text pieces and/or chunks
+ * @param chunker Chunking strategy for text pieces
+ * @param options Chunk size and overlap
+ * @returns Chunks in order, with consecutive indices
+ *
+ * @example
+ * ```typescript
+ * for await (const chunk of streamChunks(readLines(file), createSentenceChunker(), options)) {
+ *   console.log(chunk.index, chunk.text);
+ * }
+ * ```
+ */
+export async function* streamChunks(
+  source: AsyncIterable<string | Chunk> | Iterable<string | Chunk>,
+  chunker: Chunker,
+  options: ChunkerOptions
+): AsyncGenerator<Chunk> {
+  let pending = '';
+  let consumed = 0;
+  let index = 0;
+
+  for await (const item of source) {
+    if (typeof item !== 'string') {
+      for (const chunk of chunker.chunk(pending, options)) {
+        yield shiftChunk(chunk, consumed, index++);
+      }
+      consumed += pending.length;
+      pending = '';
+      yield { ...item, index: index++ };
+      continue;
+    }
+
+    pending += item;
+    if (pending.length < STREAM_WINDOW_CHUNKS * options.chunkSize) {
+      continue;
+    }
+
+    // Emit chunks that end before the window does and restart the window at the first one
+    // that reaches its end, since more text may still extend it
+    const chunks = chunker.chunk(pending, options);
+    const open = chunks.findIndex(chunk => !(chunk.metadata?.endPosition < pending.length));
+    const cut = chunks[open]?.metadata?.startPosition;
+    if (open <= 0 || typeof cut !== 'number' || cut <= 0) {
+      continue;
+    }
+    for (const chunk of chunks.slice(0, open)) {
+      yield shiftChunk(chunk, consumed, index++);
+    }
+    pending = pending.slice(cut);
+    consumed += cut;
+  }
+
+  for (const chunk of chunker.chunk(pending, options)) {
+    yield shiftChunk(chunk, consumed, index++);
+  }
+}
+
+/**
+ * Stable ID of a chunk of a document
+ *
+ * Encoding the same text again gives the same IDs, so index entries can be
+ * upserted idempotently; an edited chunk gets a new ID.
+ *
+ * @param documentId Document the chunk belongs to
+ * @param chunkIndex Index of the chunk in the document
+ * @param chunkText Text of the chunk
+ * @returns `<documentId>:<chunkIndex>:<first 16 hex digits of the SHA-256 of the text>`
+ *
+ * @example
+ * ```typescript
+ * getChunkId('user-guide', 3, 'test'); // 'user-guide:3:9f86d081884c7d65'
+ * ```
+ */
+export function getChunkId(documentId: string, chunkIndex: number, chunkText: string): string {
+  const hash = crypto.createHash('sha256').update(chunkText, 'utf8').digest('hex');
+  return `${documentId}:${chunkIndex}:${hash.slice(0, 16)}`;
+}
+
+/**
+ * Renumber a chunk and move its offsets by `offset` characters
+ */
+function shiftChunk(chunk: Chunk, offset: number, index: number): Chunk {
+  const metadata = { ...chunk.metadata };
+  if (typeof metadata.startPosition === 'number') {
+    metadata.startPosition += offset;
+  }
+  if (typeof metadata.endPosition === 'number') {
+    metadata.endPosition += offset;
+  }
+  return { ...chunk, index, metadata };
+}
+
+/**
+ * Build a chunk from a span, recording its offsets in the metadata
+ */
+function makeChunk(text: string, span: Span, index: number): Chunk {
+  return {
+    text: text.substring(span.start, span.end),
+    index,
+    metadata: {
+      startPosition: span.start,
+      endPosition: span.end,
+    },
+  };
+}
+
+/**
+ * Shrink a span so it starts and ends on non-whitespace characters
+ */
+function trimSpan(text: string, span: Span): Span {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+/**
+ * Split a span after every match of a separator, keeping the separator with the preceding piece
+ */
+function splitByPattern(text: string, span: Span, separator: string | RegExp): Span[] {
+  const pieces: Span[] = [];
+  let start = span.start;
+
+  if (separator === '') {
+    return [span];
+  }
+
+  const pattern =
+    typeof separator === 'string'
+      ? new RegExp(separator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
+      : new RegExp(separator.source, separator.flags.replace('g', '') + 'g');
+  pattern.lastIndex = span.start;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null && match.index < span.end) {
+    const end = Math.min(match.index + match[0].length, span.end);
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (end > start) {
+      pieces.push({ start, end });
+      start = end;
+    }
+  }
+
+  if (start < span.end) {
+    pieces.push({ start, end: span.end });
+  }
+
+  return pieces;
+}
+
+/**
+ * Recursively split spans larger than `chunkSize` with progressively finer separators
+ */
+function splitOversized(
+  text: string,
+  span: Span,
+  separators: Array<string | RegExp>,
+  chunkSize: number
+): Span[] {
+  if (span.end - span.start <= chunkSize) {
+    return [span];
+  }
+
+  const [separator, ...finer] = separators;
+  if (separator === undefined || separator === '') {
+    return splitHard(text, span, chunkSize);
+  }
+
+  const pieces = splitByPattern(text, span, separator);
+  if (pieces.length === 1) {
+    return splitOversized(text, span, finer, chunkSize);
+  }
+
+  return pieces.flatMap(piece => splitOversized(text, piece, finer, chunkSize));
+}
+
+/**
+ * Split a span into fixed character windows without breaking surrogate pairs
+ */
+function splitHard(text: string, span: Span, chunkSize: number): Span[] {
+  const pieces: Span[] = [];
+  let start = span.start;
+
+  while (start < span.end) {
+    let end = Math.min(start + chunkSize, span.end);
+    if (end < span.end && end > start + 1 && isHighSurrogate(text.charCodeAt(end - 1))) {
+      end--;
+    }
+    pieces.push({ start, end });
+    start = end;
+  }
+
+  return pieces;
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * Greedily pack consecutive spans into chunks of at most `chunkSize` characters
+ * (measured without surrounding whitespace)
+ *
+ * Each chunk after the first starts with as many trailing spans of the
+ * previous chunk as fit in `chunkOverlap` characters.
+ */
+function packSpans(text: string, spans: Span[], chunkSize: number, chunkOverlap: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  let first = 0;
+
+  while (first < spans.length) {
+    let last = first;
+    while (last + 1 < spans.length && spanLength(text, spans[first], spans[last + 1]) <= chunkSize) {
+      last++;
+    }
+
+    const span = trimSpan(text, { start: spans[first].start, end: spans[last].end });
+    if (span.end > span.start) {
+      chunks.push(makeChunk(text, span, chunks.length));
+    }
+
+    if (last + 1 >= spans.length) {
+      break;
+    }
+
+    // Step back over trailing spans that fit in the overlap window
+    let next = last + 1;
+    while (next - 1 > first && spans[last].end - spans[next - 1].start <= chunkOverlap) {
+      next--;
+    }
+    first = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * Length of the text from one span to another, ignoring surrounding whitespace
+ */
+function spanLength(text: string, from: Span, to: Span): number {
+  const span = trimSpan(text, { start: from.start, end: to.end });
+  return span.end - span.start;
+}
+
+/**
+ * A Markdown section: the heading path and the blocks below it
+ */
+interface MarkdownSection {
+  headings: string[];
+  blocks: Span[];
+}
+
+/**
+ * Split Markdown into heading sections made of paragraph and fenced code blocks
+ */
+function splitMarkdownSections(text: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const headingPath: string[] = [];
+  let current: MarkdownSection = { headings: [], blocks: [] };
+  let blockStart = -1;
+  let fence: string | null = null;
+  let offset = 0;
+
+  const closeBlock = (end: number) => {
+    if (blockStart >= 0 && end > blockStart) {
+      current.blocks.push({ start: blockStart, end });
+    }
+    blockStart = -1;
+  };
+
+  for (const line of text.split(/(?<=\n)/)) {
+    const lineStart = offset;
+    offset += line.length;
+    const content = line.replace(/\r?\n$/, '');
+
+    if (fence) {
+      if (content.trimStart().startsWith(fence)) {
+        fence = null;
+        closeBlock(offset);
+      }
+      continue;
+    }
+
+    const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(content);
+    if (fenceMatch) {
+      closeBlock(lineStart);
+      blockStart = lineStart;
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(content);
+    if (heading) {
+      closeBlock(lineStart);
+      if (current.blocks.length > 0) {
+        sections.push(current);
+      }
+
+      const level = heading[1].length;
+      headingPath.length = Math.min(headingPath.length, level - 1);
+      headingPath[level - 1] = heading[2];
+      current = { headings: headingPath.filter(Boolean), blocks: [] };
+      blockStart = lineStart;
+      continue;
+    }
+
+    if (content.trim() === '') {
+      closeBlock(lineStart);
+      continue;
+    }
+
+    if (blockStart < 0) {
+      blockStart = lineStart;
+    }
+  }
+
+  closeBlock(offset);
+  if (current.blocks.length > 0) {
+    sections.push(current);
+  }
+
+  return sections;
+}
@@ -0,0 +1,200 @@
+/**
+ * QR Video RAG - Payload Codecs
+ *
+ * Compresses chunk bytes before QR encoding and trains shared dictionaries
+ */
+
+import * as zlib from 'zlib';
+import { PayloadCodec } from './types';
+import { FrameDecodeError } from './errors';
+
+/** Wire identifiers of the payload codecs */
+const CODEC_IDS: Record<PayloadCodec, number> = {
+  none: 0,
+  deflate: 1,
+  brotli: 2,
+};
+
+/**
+ * Options for compressing a chunk payload
+ */
+export interface PayloadCodecOptions {
+  /** Compression codec */
+  codec: PayloadCodec;
+  /** Shared deflate dictionary (ignored by other codecs) */
+  dictionary?: Buffer;
+}
+
+/**
+ * Compute the Adler-32 checksum used to identify a dictionary
+ */
+export function getDictionaryId(dictionary: Buffer): number {
+  let a = 1;
+  let b = 0;
+  for (const byte of dictionary) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Check whether the codec options compress with a shared dictionary
+ */
+export function usesDictionary(options: PayloadCodecOptions): boolean {
+  return options.codec === 'deflate' && options.dictionary !== undefined;
+}
+
+/**
+ * Ensure the given dictionary is the one a payload was compressed with
+ *
+ * @throws FrameDecodeError with code `DICTIONARY_MISMATCH`
+ */
+export function checkDictionary(expectedId: number, dictionary?: Buffer): void {
+  if (!dictionary) {
+    throw new FrameDecodeError(
+      'DICTIONARY_MISMATCH',
+      `Frame requires payload dictionary ${expectedId.toString(16)}`
+    );
+  }
+  if (getDictionaryId(dictionary) !== expectedId) {
+    throw new FrameDecodeError(
+      'DICTIONARY_MISMATCH',
+      `Payload dictionary mismatch: frame expects ${expectedId.toString(16)}`
+    );
+  }
+}
+
+/**
+ * Wire identifier of a payload codec
+ */
+export function getCodecId(codec: PayloadCodec): number {
+  return CODEC_IDS[codec];
+}
+
+/**
+ * Payload codec for a wire identifier
+ *
+ * @throws FrameDecodeError with code `CORRUPT_PAYLOAD` for unknown identifiers
+ */
+export function getCodecById(id: number): PayloadCodec {
+  const codec = (Object.keys(CODEC_IDS) as PayloadCodec[]).find(name => CODEC_IDS[name] === id);
+  if (!codec) {
+    throw new FrameDecodeError('CORRUPT_PAYLOAD', `Unknown payload codec ${id}`);
+  }
+  return codec;
+}
+
+/**
+ * Compress chunk bytes with the given codec
+ */
+export function compressPayload(data: Buffer, options: PayloadCodecOptions): Buffer {
+  switch (options.codec) {
+    case 'none':
+      return data;
+    case 'deflate':
+      return zlib.deflateRawSync(data, {
+        level: zlib.constants.Z_BEST_COMPRESSION,
+        dictionary: options.dictionary,
+      });
+    case 'brotli':
+      return zlib.brotliCompressSync(data, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+          [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+        },
+      });
+  }
+}
+
+/**
+ * Decompress chunk bytes
+ *
+ * @throws FrameDecodeError with code `CORRUPT_PAYLOAD` if the data cannot be decompressed
+ */
+export function decompressPayload(data: Buffer, codec: PayloadCodec, dictionary?: Buffer): Buffer {
+  try {
+    switch (codec) {
+      case 'none':
+        return data;
+      case 'deflate':
+        return zlib.inflateRawSync(data, { dictionary });
+      case 'brotli':
+        return zlib.brotliDecompressSync(data);
+    }
+  } catch (error) {
+    throw new FrameDecodeError(
+      'CORRUPT_PAYLOAD',
+      `Failed to decompress ${codec} payload: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Train a shared deflate dictionary from sample texts
+ *
+ * Collects word sequences (1-4 words) that repeat across the samples and
+ * keeps the ones that save the most bytes, most valuable last (deflate
+ * reaches the end of the dictionary with the shortest distances).
+ *
+ * @param samples Representative texts, e.g. the chunks of a corpus
+ * @param maxBytes Maximum dictionary size (default: 16384, at most 32768)
+ * @returns Dictionary to pass as `payloadDictionary`
+ *
+ * @example
+ * ```typescript
+ * const dictionary = trainPayloadDictionary(documents.map(d => d.text));
+ * const encoder = new QRVideoStoreEncoder(db, embedder, {
+ *   payloadCodec: 'deflate',
+ *   payloadDictionary: dictionary,
+ * });
+ * ```
+ */
+export function trainPayloadDictionary(samples: string[], maxBytes: number = 16384): Buffer {
+  const limit = Math.min(maxBytes, 32768);
+  const counts = new Map<string, number>();
+
+  for (const sample of samples) {
+    const words = sample.match(/\S+\s*/g) ?? [];
+    for (let i = 0; i < words.length; i++) {
+      let phrase = '';
+      for (let n = 0; n < 4 && i + n < words.length; n++) {
+        phrase += words[i + n];
+        if (phrase.length >= 4 && phrase.length <= 64) {
+          counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  const ranked = Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([phrase, count]) => ({ phrase, score: (count - 1) * Buffer.byteLength(phrase, 'utf8') }))
+    .sort((a, b) => b.score - a.score);
+
+  // Word sequences within the selected phrases, which add nothing to the dictionary
+  const covered = new Set<string>();
+  const selected: string[] = [];
+  let size = 0;
+  for (const { phrase } of ranked) {
+    if (size >= limit - 4) {
+      break;
+    }
+    const bytes = Buffer.byteLength(phrase, 'utf8');
+    if (size + bytes > limit || covered.has(phrase)) {
+      continue;
+    }
+    selected.push(phrase);
+    size += bytes;
+
+    const words = phrase.match(/\S+\s*/g) ?? [];
+    for (let i = 0; i < words.length; i++) {
+      for (let j = i + 1; j <= words.length; j++) {
+        covered.add(words.slice(i, j).join(''));
+      }
+    }
+  }
+
+  return Buffer.from(selected.reverse().join(''), 'utf8');
+}
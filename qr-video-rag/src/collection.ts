@@ -0,0 +1,496 @@
+/**
+ * QR Video RAG - Collection
+ *
+ * Manages documents spread over several videos that share one vector database
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  VectorDatabase,
+  Embedder,
+  QRVideoStoreConfig,
+  QRVideoStoreIndexEntry,
+  QRVideoCollectionOptions,
+  VideoCatalogEntry,
+  SearchResult,
+  SearchFilter,
+  HybridSearchOptions,
+  CompactionReport,
+} from './types';
+import { QRVideoStoreEncoder } from './encoder';
+import { QRVideoStoreRetriever } from './retriever';
+import { readShardLayout } from './shards';
+import { getStoreFrameCount } from './storage';
+import { writeFileAtomic } from './files';
+import { WHOLE_FRAME, FrameLayout, getQrPosition, getQrSlot } from './qr';
+
+/**
+ * QR Video Collection
+ *
+ * Keeps a catalog of the video, and the frames within it, that hold each
+ * document. All videos share one database, so a search returns hits from
+ * every document; each hit is then decoded from the video that holds it.
+ */
+export class QRVideoCollection {
+  private database: VectorDatabase;
+  private encoder: QRVideoStoreEncoder;
+  private retriever: QRVideoStoreRetriever;
+  private config: QRVideoStoreConfig;
+  private catalogPath?: string;
+
+  // Catalog entries by document ID, loaded from `catalogPath` on first use
+  private catalog: Map<string, VideoCatalogEntry> | null;
+  private writing: Promise<void>;
+
+  /**
+   * Create a new QR Video Collection
+   *
+   * @param database Vector database shared by every video of the collection
+   * @param embedder Embedding generator for chunks and queries
+   * @param options Catalog file, encoder configuration and cache size
+   *
+   * @example
+   * ```typescript
+   * const collection = new QRVideoCollection(
+   *   createFileAdapter("./videos/kb.index.json"),
+   *   createGeminiEmbedder(apiKey),
+   *   { catalogPath: "./videos/kb.catalog.json", config: { chunkSize: 500 } }
+   * );
+   * ```
+   */
+  constructor(
+    database: VectorDatabase,
+    embedder: Embedder,
+    options: QRVideoCollectionOptions = {}
+  ) {
+    this.database = database;
+    this.config = options.config ?? {};
+    this.catalogPath = options.catalogPath;
+    this.encoder = new QRVideoStoreEncoder(database, embedder, this.config);
+    this.retriever = new QRVideoStoreRetriever(database, embedder, {
+      verbose: this.config.verbose,
+      maxCacheSize: options.maxCacheSize,
+      payloadDictionary: this.config.payloadDictionary,
+      tileGrid: this.config.tileGrid,
+      colorMode: this.config.colorMode,
+      parity: this.config.parity,
+      storage: this.config.storage,
+    });
+    this.catalog = null;
+    this.writing = Promise.resolve();
+  }
+
+  /**
+   * Encode a document into a new video of the collection
+   *
+   * With `config.shard`, `videoPath` names a sharded store and the document
+   * is added in new shards after the documents it already holds.
+   *
+   * @param documentId Unique identifier for the document
+   * @param documentText Full text content of the document
+   * @param videoPath Path where the video will be saved
+   * @param metadata Optional metadata to attach to chunks
+   * @throws If the document is already in the collection, or an unsharded video already holds
+   *   documents
+   */
+  public async addDocument(
+    documentId: string,
+    documentText: string,
+    videoPath: string,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    const catalog = await this.load();
+    assertNotCataloged(catalog, documentId);
+    const sharded = !!this.config.shard;
+    if (!sharded && this.findDocuments(catalog, videoPath).length > 0) {
+      throw new Error(`Video ${videoPath} already holds documents; use appendDocument()`);
+    }
+
+    const storage = this.config.storage;
+    const layout = sharded ? await readShardLayout(videoPath, storage) : null;
+    const startFrame = layout ? await getStoreFrameCount(videoPath, storage) : 0;
+    await this.encoder.addDocument(documentId, documentText, videoPath, metadata);
+    this.retriever.clearCache();
+
+    const endFrame = await getStoreFrameCount(videoPath, storage);
+    catalog.set(documentId, { documentId, videoPath, startFrame, endFrame });
+    await this.persist();
+  }
+
+  /**
+   * Append a document to the end of a video of the collection
+   *
+   * @param videoPath Existing video to extend
+   * @param documentId Unique identifier for the document
+   * @param documentText Full text content of the document
+   * @param metadata Optional metadata to attach to chunks
+   * @throws If the document is already in the collection
+   * @see QRVideoStoreEncoder.appendDocument
+   */
+  public async appendDocument(
+    videoPath: string,
+    documentId: string,
+    documentText: string,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    const catalog = await this.load();
+    assertNotCataloged(catalog, documentId);
+
+    const startFrame = await getStoreFrameCount(videoPath, this.config.storage);
+    await this.encoder.appendDocument(videoPath, documentId, documentText, metadata);
+    this.retriever.clearCache();
+
+    const endFrame = await getStoreFrameCount(videoPath, this.config.storage);
+    if (endFrame > startFrame) {
+      catalog.set(documentId, { documentId, videoPath, startFrame, endFrame });
+      await this.persist();
+    }
+  }
+
+  /**
+   * Add a document that is already encoded and indexed to the catalog
+   *
+   * @param documentId Document ID of the index entries
+   * @param videoPath Video holding the document
+   * @param frames Frames holding the document (default: the whole video)
+   * @throws If the document is already in the collection
+   */
+  public async registerDocument(
+    documentId: string,
+    videoPath: string,
+    frames?: Pick<VideoCatalogEntry, 'startFrame' | 'endFrame'>
+  ): Promise<void> {
+    const catalog = await this.load();
+    assertNotCataloged(catalog, documentId);
+
+    const range = frames ?? {
+      startFrame: 0,
+      endFrame: await getStoreFrameCount(videoPath, this.config.storage),
+    };
+    catalog.set(documentId, { documentId, videoPath, ...range });
+    await this.persist();
+  }
+
+  /**
+   * Remove a document from the database and the catalog
+   *
+   * Its frames stay in the video until it is compacted, either right away
+   * with `options.compact` or later with `compactVideo()`. Compacting a
+   * video that has no documents left deletes it.
+   *
+   * @param documentId Document to remove
+   * @param options Set `compact` to compact the document's video afterwards
+   * @returns Compaction report if the video was compacted
+   * @throws If the document is not in the collection or the database cannot delete
+   * @throws If `compact` is set for a document of a sharded store, or the storage backend
+   *   cannot delete
+   */
+  public async removeDocument(
+    documentId: string,
+    options: { compact?: boolean } = {}
+  ): Promise<CompactionReport | undefined> {
+    const catalog = await this.load();
+    const location = catalog.get(documentId);
+    if (!location) {
+      throw new Error(`Document "${documentId}" is not in the collection`);
+    }
+    if (!this.database.delete) {
+      throw new Error('Removing documents needs a database that supports delete()');
+    }
+    const storage = this.config.storage;
+    if (options.compact && (await readShardLayout(location.videoPath, storage))) {
+      throw new Error(`Cannot compact ${location.videoPath}: it is a sharded store`);
+    }
+    if (options.compact && storage && !storage.delete) {
+      throw new Error('Compacting on removal needs a storage backend that supports delete()');
+    }
+
+    await this.database.delete(documentId);
+    catalog.delete(documentId);
+    await this.persist();
+
+    if (!options.compact) {
+      return undefined;
+    }
+    if (this.findDocuments(catalog, location.videoPath).length > 0) {
+      return this.compactVideo(location.videoPath);
+    }
+
+    // Nothing is left in the video
+    const { videoPath } = location;
+    const frameCount = await getStoreFrameCount(videoPath, storage);
+    let size: number;
+    if (storage) {
+      size = storage.size ? await storage.size(videoPath) : (await storage.load(videoPath)).length;
+      await storage.delete!(videoPath);
+    } else {
+      size = (await fs.promises.stat(videoPath)).size;
+      await fs.promises.rm(videoPath);
+    }
+    this.retriever.clearCache();
+    return {
+      videoPath,
+      framesBefore: frameCount,
+      framesAfter: 0,
+      remappedEntries: 0,
+      bytesBefore: size,
+      bytesAfter: 0,
+      bytesReclaimed: size,
+    };
+  }
+
+  /**
+   * Remove the frames of removed documents from a video
+   *
+   * The frame ranges of the documents left in the video are updated from
+   * their remapped index entries.
+   *
+   * @param videoPath Video of the collection
+   * @returns Frame counts, remapped entries and bytes reclaimed
+   * @throws If no document of the collection is stored in the video
+   * @see QRVideoStoreEncoder.compactVideo
+   */
+  public async compactVideo(videoPath: string): Promise<CompactionReport> {
+    const catalog = await this.load();
+    const documents = this.findDocuments(catalog, videoPath);
+    if (documents.length === 0) {
+      throw new Error(`Video ${videoPath} holds no documents of the collection`);
+    }
+
+    const report = await this.encoder.compactVideo(videoPath);
+    this.retriever.clearCache();
+
+    // compactVideo() has checked that the database can list its entries
+    const entries = await this.database.list!();
+    const layout: FrameLayout = {
+      tileGrid: this.config.tileGrid ?? WHOLE_FRAME,
+      colorMode: this.config.colorMode ?? 'mono',
+      parity: this.config.parity,
+    };
+    for (const document of documents) {
+      const own = entries.filter(entry => entry.documentId === document.documentId);
+      if (own.length > 0) {
+        catalog.set(document.documentId, { ...document, ...getFrameRange(own, layout) });
+      }
+    }
+    await this.persist();
+
+    return report;
+  }
+
+  /**
+   * Search every video of the collection
+   *
+   * Hits are routed to the video that holds their document and decoded
+   * with one FFmpeg pass per video. Hits of documents that are not in the
+   * catalog, or that lie outside their document's frames, are left out.
+   *
+   * @param query Search query text
+   * @param matchCount Number of database hits to decode (default: 5)
+   * @param filter Optional document and metadata filter, e.g. `{ documentId: 'faq' }`
+   * @returns Search results from all videos, most similar first, with `videoPath` set
+   *
+   * @example
+   * ```typescript
+   * const results = await collection.search("refund policy", 5, { metadata: { lang: 'en' } });
+   * for (const result of results) {
+   *   console.log(`${result.videoPath} [${result.similarity.toFixed(2)}] ${result.text}`);
+   * }
+   * ```
+   */
+  public async search(
+    query: string,
+    matchCount: number = 5,
+    filter?: SearchFilter
+  ): Promise<SearchResult[]> {
+    return this.decodeHits(await this.retriever.retrieveChunks(query, matchCount, filter));
+  }
+
+  /**
+   * Search every video of the collection with semantic and keyword search
+   *
+   * Like `search`, but ranks chunks with the retriever's `retrieveChunksHybrid`,
+   * so the database must implement `searchText`.
+   *
+   * @param query Search query text
+   * @param matchCount Number of database hits to decode (default: 5)
+   * @param options Fusion method, weights and filter for this query
+   * @returns Search results from all videos, highest fused score first, with `videoPath` set
+   */
+  public async hybridSearch(
+    query: string,
+    matchCount: number = 5,
+    options: HybridSearchOptions = {}
+  ): Promise<SearchResult[]> {
+    return this.decodeHits(await this.retriever.retrieveChunksHybrid(query, matchCount, options));
+  }
+
+  /**
+   * Decode database hits from the videos holding their documents, best first
+   */
+  private async decodeHits(hits: QRVideoStoreIndexEntry[]): Promise<SearchResult[]> {
+    const catalog = await this.load();
+    const byVideo = new Map<string, QRVideoStoreIndexEntry[]>();
+    for (const hit of hits) {
+      const location = catalog.get(hit.documentId);
+      if (
+        !location ||
+        hit.frameNumber < location.startFrame ||
+        hit.frameNumber >= location.endFrame
+      ) {
+        if (this.config.verbose) {
+          console.warn(
+            `[QRVideoCollection] Skipping frame ${hit.frameNumber} of "${hit.documentId}": not in the catalog`
+          );
+        }
+        continue;
+      }
+      byVideo.set(location.videoPath, [...(byVideo.get(location.videoPath) ?? []), hit]);
+    }
+
+    const results: SearchResult[] = [];
+    for (const [videoPath, entries] of byVideo) {
+      for (const result of await this.retriever.decodeEntries(entries, videoPath)) {
+        results.push({ ...result, videoPath });
+      }
+    }
+    results.sort((a, b) => b.similarity - a.similarity);
+
+    return results;
+  }
+
+  /**
+   * Look up where a document is stored
+   *
+   * @param documentId Document ID
+   * @returns Catalog entry, or undefined if the document is not in the collection
+   */
+  public async getDocument(documentId: string): Promise<VideoCatalogEntry | undefined> {
+    return (await this.load()).get(documentId);
+  }
+
+  /**
+   * List the documents of the collection, ordered by video and frame
+   *
+   * @param videoPath Only list the documents of this video
+   */
+  public async listDocuments(videoPath?: string): Promise<VideoCatalogEntry[]> {
+    const catalog = await this.load();
+    const entries = videoPath ? this.findDocuments(catalog, videoPath) : [...catalog.values()];
+    return entries.sort(
+      (a, b) => a.videoPath.localeCompare(b.videoPath) || a.startFrame - b.startFrame
+    );
+  }
+
+  /**
+   * Catalog entries of the documents stored in a video
+   */
+  private findDocuments(
+    catalog: Map<string, VideoCatalogEntry>,
+    videoPath: string
+  ): VideoCatalogEntry[] {
+    const resolved = path.resolve(videoPath);
+    return [...catalog.values()].filter(entry => path.resolve(entry.videoPath) === resolved);
+  }
+
+  /**
+   * Load the catalog from `catalogPath`, or start an empty one
+   */
+  private async load(): Promise<Map<string, VideoCatalogEntry>> {
+    if (!this.catalog) {
+      const entries = this.catalogPath ? await readCatalogFile(this.catalogPath) : [];
+      this.catalog ??= new Map(entries.map(entry => [entry.documentId, entry]));
+    }
+    return this.catalog;
+  }
+
+  /**
+   * Write the catalog to `catalogPath`, if set
+   *
+   * Writes are chained so concurrent changes never interleave on disk.
+   */
+  private persist(): Promise<void> {
+    const catalogPath = this.catalogPath;
+    if (!catalogPath) {
+      return Promise.resolve();
+    }
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => writeCatalogFile(catalogPath, [...(this.catalog?.values() ?? [])]));
+    return this.writing;
+  }
+}
+
+/**
+ * Throw if a document already has a catalog entry
+ */
+function assertNotCataloged(catalog: Map<string, VideoCatalogEntry>, documentId: string): void {
+  const existing = catalog.get(documentId);
+  if (existing) {
+    throw new Error(
+      `Document "${documentId}" is already in the collection (${existing.videoPath}); ` +
+        'remove it first'
+    );
+  }
+}
+
+/**
+ * Frames spanned by the QR codes of index entries
+ */
+function getFrameRange(
+  entries: QRVideoStoreIndexEntry[],
+  layout: FrameLayout
+): Pick<VideoCatalogEntry, 'startFrame' | 'endFrame'> {
+  let startFrame = Infinity;
+  let endFrame = 0;
+  for (const entry of entries) {
+    const last = getQrPosition(getQrSlot(entry, layout) + (entry.frameCount ?? 1) - 1, layout);
+    startFrame = Math.min(startFrame, entry.frameNumber);
+    endFrame = Math.max(endFrame, last.frameNumber + 1);
+  }
+  return { startFrame, endFrame };
+}
+
+/**
+ * On-disk format of the catalog
+ */
+interface CatalogFile {
+  version: number;
+  documents: VideoCatalogEntry[];
+}
+
+const CATALOG_FILE_VERSION = 1;
+
+/**
+ * Read catalog entries from disk, returning an empty catalog if the file does not exist
+ */
+async function readCatalogFile(filePath: string): Promise<VideoCatalogEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as CatalogFile;
+  if (!parsed || !Array.isArray(parsed.documents)) {
+    throw new Error(`Invalid catalog file: ${filePath}`);
+  }
+  if (parsed.version > CATALOG_FILE_VERSION) {
+    throw new Error(`Unsupported catalog file version ${parsed.version}: ${filePath}`);
+  }
+
+  return parsed.documents;
+}
+
+/**
+ * Write catalog entries to disk atomically
+ */
+async function writeCatalogFile(filePath: string, documents: VideoCatalogEntry[]): Promise<void> {
+  const data: CatalogFile = { version: CATALOG_FILE_VERSION, documents };
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+}
@@ -5,6 +5,7 @@
  */
 
 import * as QRCode from 'qrcode';
+import jsQR from 'jsqr';
 import ffmpeg from 'fluent-ffmpeg';
 import ffmpegStatic from 'ffmpeg-static';
 import * as fs from 'fs';
@@ -17,20 +18,198 @@ import {
   Embedder,
   VideoBuildOptions,
   QRVideoStoreStats,
+  QRVideoStoreManifestChunk,
+  VerifyMode,
+  VerificationAttempt,
+  VerificationFailure,
+  VerificationReport,
+  CompactionReport,
+  VideoStreamInfo,
+  VideoShard,
 } from './types';
+import { VideoVerificationError } from './errors';
+import {
+  probeVideo,
+  createFrameWriter,
+  decodeRawFrames,
+  concatVideos,
+  FrameWriter,
+} from './video';
+import { encodeManifestFrames, decodeManifestPart } from './manifest';
+import { createFixedSizeChunker, getChunkId, streamChunks } from './chunkers';
+import {
+  getQrByteCapacity,
+  getMaxQrVersionForTiles,
+  renderQrFrame,
+  renderQrCodes,
+  assertValidTileGrid,
+  assertValidColorMode,
+  getTilesPerFrame,
+  getQrCodesPerFrame,
+  getQrPosition,
+  getQrSlot,
+  getChannelCount,
+  getDataFrameCount,
+  isParityFrame,
+  isBlankPlane,
+  formatQrPosition,
+  cropTile,
+  demultiplexPixels,
+  SINGLE_QR_LAYOUT,
+  FrameLayout,
+  QrPosition,
+} from './qr';
+import {
+  encodeChunkFrames,
+  decodeChunkFrames,
+  isFrameEnvelope,
+  isValidFrame,
+} from './frames';
+import {
+  assertValidParity,
+  encodeParityPayloads,
+  isParityPayload,
+  readParityPayload,
+  PARITY_HEADER_SIZE,
+} from './parity';
+import { withLocalCopy, LocalCopyAccess } from './storage';
+import {
+  assertValidShardOptions,
+  getShardPath,
+  readShardLayout,
+  resolveShardPath,
+  writeShardLayout,
+} from './shards';
 
 // Set ffmpeg path
 if (ffmpegStatic) {
   ffmpeg.setFfmpegPath(ffmpegStatic);
 }
 
+/** Number of frames decoded by `verify: 'sample'` */
+const VERIFY_SAMPLE_FRAMES = 16;
+
+/** QR error correction levels, weakest first */
+const ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+
+/**
+ * QR error correction level and codec options of one attempt at writing a video
+ */
+type EncodeSettings = Pick<VerificationAttempt, 'qrErrorCorrectionLevel' | 'videoOptions'>;
+
+/**
+ * Packs QR payloads into the tiles and color planes of consecutive frames
+ */
+interface FramePacker {
+  /** Queue a payload, writing the frame once all its QR codes are filled */
+  write(payload: Buffer): Promise<QrPosition>;
+  /** Write the last, partially filled frame and complete its parity group */
+  flush(): Promise<void>;
+  /** Number of data and parity frames started so far */
+  readonly frameCount: number;
+  /** QR payloads of each frame written so far, in slot order (kept only for verification) */
+  readonly framePayloads: Buffer[][];
+}
+
+/**
+ * Destination of streamed chunks: a single video or the shards of a store
+ */
+interface ChunkSink {
+  /** Write the QR payloads of one chunk, returning the position of the first */
+  write(payloads: Buffer[]): Promise<QrPosition>;
+  /** Finish the video(s), reading them back if `verify` is set */
+  end(): Promise<void>;
+  /** Stop writing and remove every video started */
+  abort(): Promise<void>;
+  /** Number of frames written so far */
+  readonly frameCount: number;
+}
+
+/**
+ * Check that a decoded QR payload survived encoding
+ *
+ * Frame envelopes and parity payloads must pass their checksum; other
+ * payloads, such as manifest parts, only need to decode.
+ */
+function isReadablePayload(bytes: Uint8Array): boolean {
+  if (isParityPayload(bytes)) {
+    try {
+      readParityPayload(bytes);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  return !isFrameEnvelope(bytes) || isValidFrame(bytes);
+}
+
+/**
+ * Frame numbers decoded by a verification pass, spread evenly over the video when sampling
+ */
+function selectVerifyFrames(frameCount: number, mode: Exclude<VerifyMode, 'none'>): number[] {
+  if (mode === 'full' || frameCount <= VERIFY_SAMPLE_FRAMES) {
+    return Array.from({ length: frameCount }, (_, i) => i);
+  }
+  return Array.from({ length: VERIFY_SAMPLE_FRAMES }, (_, i) =>
+    Math.round((i * (frameCount - 1)) / (VERIFY_SAMPLE_FRAMES - 1))
+  );
+}
+
+/**
+ * Summarize the QR codes that failed verification
+ */
+function describeFailures(failures: VerificationFailure[]): string {
+  const frames = Array.from(new Set(failures.map(failure => failure.frameNumber)));
+  const listed = frames.length > 10 ? `${frames.slice(0, 10).join(', ')}, ...` : frames.join(', ');
+  return `${failures.length} QR code(s) in frames ${listed} did not read back`;
+}
+
+/**
+ * Describe the settings of an encoding attempt for log and error messages
+ */
+function describeSettings(settings: EncodeSettings): string {
+  const { preset } = settings.videoOptions;
+  return `ECC level ${settings.qrErrorCorrectionLevel}${preset ? ` and the ${preset} preset` : ''}`;
+}
+
+/**
+ * Error for a video whose last verification attempt failed
+ */
+function createVerificationError(report: VerificationReport): VideoVerificationError {
+  const last = report.attempts[report.attempts.length - 1];
+  return new VideoVerificationError(
+    `Video ${report.videoPath} failed verification after ${report.attempts.length} attempt(s) ` +
+      `(last with ${describeSettings(last)}): ${describeFailures(last.failures)}`,
+    report
+  );
+}
+
 /**
  * QR Video Store Encoder
  * 
  * Converts text documents into QR-encoded MP4 videos with semantic indexing
  */
 export class QRVideoStoreEncoder {
-  private config: Required<Omit<QRVideoStoreConfig, 'verbose'>> & { verbose: boolean };
+  private config: Required<
+    Omit<
+      QRVideoStoreConfig,
+      | 'verbose'
+      | 'payloadDictionary'
+      | 'parity'
+      | 'videoOptions'
+      | 'verify'
+      | 'shard'
+      | 'storage'
+    >
+  > & {
+    verbose: boolean;
+    payloadDictionary?: Buffer;
+    parity?: QRVideoStoreConfig['parity'];
+    videoOptions: NonNullable<QRVideoStoreConfig['videoOptions']>;
+    verify?: VerifyMode;
+    shard?: QRVideoStoreConfig['shard'];
+    storage?: QRVideoStoreConfig['storage'];
+  };
   private database: VectorDatabase;
   private embedder: Embedder;
 
@@ -60,15 +239,39 @@ export class QRVideoStoreEncoder {
     this.config = {
       chunkSize: config.chunkSize ?? 500,
       chunkOverlap: config.chunkOverlap ?? 50,
+      chunker: config.chunker ?? createFixedSizeChunker(),
       videoFps: config.videoFps ?? 1,
       qrErrorCorrectionLevel: config.qrErrorCorrectionLevel ?? 'M',
+      qrMaxVersion: config.qrMaxVersion ?? 40,
+      payloadCodec: config.payloadCodec ?? 'none',
+      payloadDictionary: config.payloadDictionary,
       videoResolution: config.videoResolution ?? { width: 256, height: 256 },
+      tileGrid: config.tileGrid ?? { columns: 1, rows: 1 },
+      colorMode: config.colorMode ?? 'mono',
+      parity: config.parity,
+      videoOptions: config.videoOptions ?? {},
+      verify: config.verify,
+      shard: config.shard,
+      storage: config.storage,
+      embedIndex: config.embedIndex ?? false,
+      embedIndexEmbeddings: config.embedIndexEmbeddings ?? false,
       verbose: config.verbose ?? false,
     };
+    assertValidTileGrid(this.config.tileGrid);
+    assertValidColorMode(this.config.colorMode);
+    if (this.config.parity) {
+      assertValidParity(this.config.parity);
+    }
+    if (this.config.shard) {
+      assertValidShardOptions(this.config.shard);
+      if (this.config.embedIndex) {
+        throw new Error('embedIndex is not supported with shard; each shard would need a manifest');
+      }
+    }
   }
 
   /**
-   * Chunk text into smaller pieces with overlap
+   * Chunk text into smaller pieces with overlap using the configured chunker
    * 
    * @param text Input text to chunk
    * @returns Array of text chunks with indices
@@ -80,22 +283,10 @@ export class QRVideoStoreEncoder {
    * ```
    */
   public chunkText(text: string): Chunk[] {
-    const chunks: Chunk[] = [];
-    let i = 0;
-
-    while (i < text.length) {
-      const end = Math.min(i + this.config.chunkSize, text.length);
-      const chunkText = text.substring(i, end);
-      chunks.push({ 
-        text: chunkText, 
-        index: chunks.length,
-        metadata: {
-          startPosition: i,
-          endPosition: end,
-        }
-      });
-      i += this.config.chunkSize - this.config.chunkOverlap;
-    }
+    const chunks = this.config.chunker.chunk(text, {
+      chunkSize: this.config.chunkSize,
+      chunkOverlap: this.config.chunkOverlap,
+    });
 
     if (this.config.verbose) {
       console.log(`[QRVideoStoreEncoder] Created ${chunks.length} chunks from ${text.length} characters`);
@@ -125,12 +316,46 @@ export class QRVideoStoreEncoder {
     });
   }
 
+  /**
+   * Get the number of bytes one frame can hold
+   *
+   * Derived from the QR error correction level and the largest QR version
+   * that is allowed and fits the tiles of a frame. With `parity` set, the
+   * parity header is reserved so parity QR codes fit the same symbol size.
+   *
+   * @returns Byte capacity of a single QR frame
+   */
+  public getFrameCapacity(): number {
+    return this.getQrCapacity(this.config.qrErrorCorrectionLevel);
+  }
+
+  /**
+   * Byte capacity of a QR code at the given error correction level
+   */
+  private getQrCapacity(level: EncodeSettings['qrErrorCorrectionLevel']): number {
+    const { width, height } = this.config.videoResolution;
+    const tileVersion = getMaxQrVersionForTiles(width, height, this.getFrameLayout());
+    const capacity = getQrByteCapacity(level, Math.min(this.config.qrMaxVersion, tileVersion));
+    return this.config.parity ? capacity - PARITY_HEADER_SIZE : capacity;
+  }
+
+  /**
+   * Byte capacity of a manifest frame, which holds one black-and-white QR code filling the frame
+   */
+  private getManifestCapacity(level: EncodeSettings['qrErrorCorrectionLevel']): number {
+    const { width, height } = this.config.videoResolution;
+    const frameVersion = getMaxQrVersionForTiles(width, height, SINGLE_QR_LAYOUT);
+    return getQrByteCapacity(level, Math.min(this.config.qrMaxVersion, frameVersion));
+  }
+
   /**
    * Build MP4 video from QR code images
    * 
    * @param qrCodeBuffers Array of QR code image buffers
    * @param outputVideoPath Path where video will be saved
+   * @param options Codec, preset and container options, overriding the configured `videoOptions`
    * @returns Promise that resolves when video is created
+   * @throws VideoVerificationError if `verify` is set and an image does not read back as a QR code
    * 
    * @example
    * ```typescript
@@ -145,79 +370,363 @@ export class QRVideoStoreEncoder {
     outputVideoPath: string,
     options?: Partial<VideoBuildOptions>
   ): Promise<void> {
-    const tempDir = path.join(process.cwd(), `temp_qr_frames_${Date.now()}`);
-    
+    if (this.config.storage) {
+      return this.onLocalCopy(outputVideoPath, 'write', (encoder, localPath) =>
+        encoder.buildVideo(qrCodeBuffers, localPath, options)
+      );
+    }
+
+    this.ensureOutputDirectory(outputVideoPath);
+
+    if (this.config.verbose) {
+      console.log(`[QRVideoStoreEncoder] Piping ${qrCodeBuffers.length} frames to FFmpeg`);
+    }
+
+    const videoOptions = { ...this.config.videoOptions, ...options };
+    const writer = createFrameWriter(outputVideoPath, 'image', {
+      ...this.config.videoResolution,
+      fps: this.config.videoFps,
+      ...videoOptions,
+    });
+
     try {
-      // Create temp directory
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
+      for (const buffer of qrCodeBuffers) {
+        await writer.write(buffer);
       }
+      await writer.end();
+    } catch (error) {
+      writer.abort();
+      throw error;
+    }
 
-      if (this.config.verbose) {
-        console.log(`[QRVideoStoreEncoder] Writing ${qrCodeBuffers.length} frames to ${tempDir}`);
+    const mode = this.getVerifyMode(videoOptions);
+    if (mode !== 'none') {
+      const framePayloads = qrCodeBuffers.map(() => [undefined]);
+      const attempt = {
+        qrErrorCorrectionLevel: this.config.qrErrorCorrectionLevel,
+        videoOptions,
+        ...(await this.verifyVideo(outputVideoPath, framePayloads, qrCodeBuffers.length, mode)),
+      };
+      if (attempt.failures.length > 0) {
+        await fs.promises.rm(outputVideoPath, { force: true });
+        throw createVerificationError({ videoPath: outputVideoPath, mode, attempts: [attempt] });
       }
+    }
+
+    if (this.config.verbose) {
+      console.log(`[QRVideoStoreEncoder] Video created: ${outputVideoPath}`);
+    }
+  }
+
+  /**
+   * Tile grid, color mode and parity of the data frames
+   */
+  private getFrameLayout(): FrameLayout {
+    return {
+      tileGrid: this.config.tileGrid,
+      colorMode: this.config.colorMode,
+      parity: this.config.parity,
+    };
+  }
 
-      // Write images to temp directory
-      for (let i = 0; i < qrCodeBuffers.length; i++) {
-        const imagePath = path.join(tempDir, `frame_${i.toString().padStart(5, '0')}.png`);
-        fs.writeFileSync(imagePath, qrCodeBuffers[i]);
+  /**
+   * Start FFmpeg for raw frames in the format of the configured color mode
+   */
+  private createVideoWriter(
+    outputVideoPath: string,
+    videoOptions: EncodeSettings['videoOptions']
+  ): FrameWriter {
+    this.ensureOutputDirectory(outputVideoPath);
+    return createFrameWriter(outputVideoPath, this.config.colorMode === 'mono' ? 'gray' : 'rgb', {
+      ...this.config.videoResolution,
+      fps: this.config.videoFps,
+      ...videoOptions,
+    });
+  }
+
+  /**
+   * Verification mode for a video written with the given codec options
+   */
+  private getVerifyMode(videoOptions: EncodeSettings['videoOptions']): VerifyMode {
+    return this.config.verify ?? (videoOptions.preset === 'compact' ? 'full' : 'none');
+  }
+
+  /**
+   * Settings to write a video with, in the order they are tried
+   *
+   * Without verification only the configured settings are used. Otherwise a
+   * video that does not read back is written again one QR error correction
+   * level higher, then with the `lossless` preset, which rules out damage
+   * by the codec.
+   */
+  private getEncodeSettings(): EncodeSettings[] {
+    const configured: EncodeSettings = {
+      qrErrorCorrectionLevel: this.config.qrErrorCorrectionLevel,
+      videoOptions: this.config.videoOptions,
+    };
+    if (this.getVerifyMode(configured.videoOptions) === 'none') {
+      return [configured];
+    }
+
+    const settings = [configured];
+    const level = configured.qrErrorCorrectionLevel;
+    const stronger = ERROR_CORRECTION_LEVELS[ERROR_CORRECTION_LEVELS.indexOf(level) + 1];
+    if (stronger) {
+      settings.push({ ...configured, qrErrorCorrectionLevel: stronger });
+    }
+    if (configured.videoOptions.preset !== 'lossless') {
+      // The container's default lossless codec; codec-specific options no longer apply
+      settings.push({
+        qrErrorCorrectionLevel: stronger ?? level,
+        videoOptions: { container: configured.videoOptions.container, preset: 'lossless' },
+      });
+    }
+    return settings;
+  }
+
+  /**
+   * Decode a finished video and compare its QR codes with what was written
+   *
+   * @param outputVideoPath Path of the finished video
+   * @param framePayloads QR payloads written to each frame, in slot order; `undefined`
+   *   accepts any payload that decodes and passes its checksum
+   * @param singleQrFrames Number of leading frames that hold one whole-frame QR code
+   * @param mode `sample` decodes up to 16 frames spread over the video, `full` every frame
+   * @returns Number of frames decoded and the QR codes that did not read back
+   */
+  private async verifyVideo(
+    outputVideoPath: string,
+    framePayloads: Array<Array<Buffer | undefined>>,
+    singleQrFrames: number,
+    mode: Exclude<VerifyMode, 'none'>
+  ): Promise<Pick<VerificationAttempt, 'checkedFrames' | 'failures'>> {
+    const info = await probeVideo(outputVideoPath);
+    const frameNumbers = selectVerifyFrames(framePayloads.length, mode);
+    const inVideo = frameNumbers.filter(frameNumber => frameNumber < info.frameCount);
+    const decoded = new Set<number>();
+    const failures: VerificationFailure[] = [];
+
+    await decodeRawFrames(
+      outputVideoPath,
+      info,
+      mode === 'full' ? undefined : inVideo,
+      (frameNumber, pixels) => {
+        const expected = framePayloads[frameNumber] ?? [];
+        const layout = frameNumber < singleQrFrames ? SINGLE_QR_LAYOUT : this.getFrameLayout();
+        const channels = getChannelCount(layout.colorMode);
+        const tiles = getTilesPerFrame(layout.tileGrid);
+        decoded.add(frameNumber);
+
+        // QR codes fill the color planes of a tile, then the tiles of the frame
+        for (let tileIndex = 0; tileIndex * channels < expected.length; tileIndex++) {
+          const tile = cropTile(pixels, info.width, info.height, layout.tileGrid, tileIndex);
+          demultiplexPixels(tile.pixels, layout.colorMode).forEach((plane, channel) => {
+            const position = tileIndex * channels + channel;
+            if (position >= expected.length) {
+              return;
+            }
+            const payload = expected[position];
+            const qrCode = jsQR(plane, tile.width, tile.height);
+            const bytes = qrCode ? Buffer.from(qrCode.binaryData) : undefined;
+            let reason: VerificationFailure['reason'] | undefined;
+            if (!bytes || (!payload && !isReadablePayload(bytes))) {
+              reason = 'unreadable';
+            } else if (payload && !payload.equals(bytes)) {
+              reason = 'mismatch';
+            }
+            if (reason) {
+              failures.push({
+                frameNumber,
+                tileIndex: tiles > 1 ? tileIndex : undefined,
+                channel: channels > 1 ? channel : undefined,
+                reason,
+              });
+            }
+          });
+        }
       }
+    );
 
-      // Ensure output directory exists
-      const outputDir = path.dirname(outputVideoPath);
-      if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true });
+    for (const frameNumber of frameNumbers) {
+      if (!decoded.has(frameNumber)) {
+        failures.push({ frameNumber, reason: 'missing' });
       }
+    }
+    failures.sort((a, b) => a.frameNumber - b.frameNumber);
 
-      // Build video with FFmpeg
-      await this.encodeVideo(tempDir, outputVideoPath, options);
+    if (this.config.verbose) {
+      console.log(
+        `[QRVideoStoreEncoder] Verified ${decoded.size} frames: ${failures.length} failures`
+      );
+    }
 
-      if (this.config.verbose) {
-        console.log(`[QRVideoStoreEncoder] Video created: ${outputVideoPath}`);
+    return { checkedFrames: decoded.size, failures };
+  }
+
+  /**
+   * Render a manifest frame, which always holds one black-and-white QR code
+   */
+  private renderManifestFrame(
+    payload: Buffer,
+    level: EncodeSettings['qrErrorCorrectionLevel']
+  ): Buffer {
+    const { width, height } = this.config.videoResolution;
+    const gray = renderQrFrame(payload, width, height, level);
+    if (this.config.colorMode === 'mono') {
+      return gray;
+    }
+
+    const rgb = Buffer.alloc(gray.length * 3);
+    gray.forEach((value, i) => rgb.fill(value, i * 3, i * 3 + 3));
+    return rgb;
+  }
+
+  /**
+   * Create a packer that fills the configured tiles and color planes of each data frame
+   *
+   * Payloads take the color planes of a tile, then the tiles of a frame in
+   * reading order; the frame is written once every QR code is filled, and
+   * `flush()` writes the last partial frame. With `parity` set, the parity
+   * frames of each group are written right after its last data frame, and
+   * `flush()` fills the last group with blank data frames first.
+   *
+   * @param writer FFmpeg writer of the video
+   * @param level QR error correction level to render with
+   * @param firstFrame Frame number of the first data frame
+   * @param keepPayloads Record the payloads of every frame in `framePayloads`
+   */
+  private createFramePacker(
+    writer: FrameWriter,
+    level: EncodeSettings['qrErrorCorrectionLevel'],
+    firstFrame: number = 0,
+    keepPayloads: boolean = false
+  ): FramePacker {
+    const { width, height } = this.config.videoResolution;
+    const parity = this.config.parity;
+    const layout = { ...this.getFrameLayout(), dataStart: firstFrame };
+    const perFrame = getQrCodesPerFrame(layout);
+    const render = (payloads: Array<Buffer | undefined>) =>
+      renderQrCodes(payloads, width, height, layout, level);
+    let pending: Buffer[] = [];
+    // Payloads of the data frames of the current parity group
+    let group: Buffer[][] = [];
+    let written = 0;
+    let blankWritten = 0;
+    let parityWritten = 0;
+    const framePayloads: Buffer[][] = [];
+
+    const writeParityFrames = async (): Promise<void> => {
+      if (!parity) {
+        return;
       }
-    } finally {
-      // Cleanup temp directory
-      if (fs.existsSync(tempDir)) {
-        await fs.promises.rm(tempDir, { recursive: true, force: true });
+      // Data frames only leave QR codes empty at the end of the last frame
+      const byPosition = Array.from({ length: perFrame }, (_, position) => {
+        const data = group.filter(frame => position < frame.length).map(frame => frame[position]);
+        return data.length > 0 ? encodeParityPayloads(data, parity) : [];
+      });
+      group = [];
+      for (let parityIndex = 0; parityIndex < parity.parityFrames; parityIndex++) {
+        const payloads = byPosition.map(positionPayloads => positionPayloads[parityIndex]);
+        await writer.write(render(payloads));
+        if (keepPayloads) {
+          framePayloads.push(payloads.filter((payload): payload is Buffer => !!payload));
+        }
+        parityWritten++;
       }
-    }
+    };
+
+    const writeFrame = async (): Promise<void> => {
+      const payloads = pending;
+      pending = [];
+      await writer.write(render(payloads));
+      if (keepPayloads) {
+        framePayloads.push(payloads);
+      }
+      group.push(payloads);
+      if (group.length === parity?.dataFrames) {
+        await writeParityFrames();
+      }
+    };
+
+    return {
+      write: async payload => {
+        const position = getQrPosition(firstFrame * perFrame + written, layout);
+        written++;
+        pending.push(payload);
+        if (pending.length === perFrame) {
+          await writeFrame();
+        }
+        return position;
+      },
+      flush: async () => {
+        if (pending.length > 0) {
+          await writeFrame();
+        }
+        // Pad the last group with blank data frames, so the video ends on a
+        // group boundary and frames appended later start a group of their own
+        while (parity && group.length > 0) {
+          await writeFrame();
+          blankWritten++;
+        }
+      },
+      get frameCount() {
+        return Math.ceil(written / perFrame) + blankWritten + parityWritten;
+      },
+      framePayloads,
+    };
   }
 
   /**
-   * Internal method to encode video using FFmpeg
+   * Store the index entries of an encoded document in place of its previous entries
+   *
+   * Uses the database's atomic `replaceDocument` if it has one; otherwise
+   * the document is deleted first when the database supports `delete`.
    */
-  private async encodeVideo(
-    tempDir: string,
-    outputVideoPath: string,
-    options?: Partial<VideoBuildOptions>
+  private async storeDocumentEntries(
+    documentId: string,
+    entries: QRVideoStoreIndexEntry[]
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { width, height } = this.config.videoResolution;
-      const codec = options?.codec ?? 'libx264';
-      const pixelFormat = options?.pixelFormat ?? 'yuv420p';
-      
-      const command = ffmpeg()
-        .input(path.join(tempDir, 'frame_%05d.png'))
-        .inputFPS(this.config.videoFps)
-        .outputOptions([
-          `-c:v ${codec}`,
-          `-pix_fmt ${pixelFormat}`,
-          `-r ${this.config.videoFps}`,
-          `-vf scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
-          ...(options?.ffmpegOptions ?? [])
-        ])
-        .output(outputVideoPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(new Error(`FFmpeg error: ${err.message}`)));
+    if (this.database.replaceDocument) {
+      await this.database.replaceDocument(documentId, entries);
+      return;
+    }
+    if (this.database.delete) {
+      await this.database.delete(documentId);
+    }
+    await this.database.upsert(entries);
+  }
 
-      if (this.config.verbose) {
-        command.on('progress', (progress) => {
-          console.log(`[QRVideoStoreEncoder] Encoding: ${progress.percent?.toFixed(1) ?? 0}%`);
-        });
-      }
+  /**
+   * Create the directory of an output video if needed
+   */
+  private ensureOutputDirectory(outputVideoPath: string): void {
+    const outputDir = path.dirname(outputVideoPath);
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+  }
 
-      command.run();
+  /**
+   * Run an operation on a local working copy of a video kept in the storage backend
+   *
+   * The operation gets an encoder without the backend, so FFmpeg only sees
+   * local files; see `withLocalCopy` for what is downloaded and saved back.
+   * Without a backend, it runs on this encoder and the video path itself.
+   */
+  private async onLocalCopy<T>(
+    videoPath: string,
+    access: LocalCopyAccess,
+    operation: (encoder: QRVideoStoreEncoder, localPath: string) => Promise<T>
+  ): Promise<T> {
+    const storage = this.config.storage;
+    if (!storage) {
+      return operation(this, videoPath);
+    }
+    const local = new QRVideoStoreEncoder(this.database, this.embedder, {
+      ...this.config,
+      storage: undefined,
     });
+    return withLocalCopy(storage, videoPath, access, localPath => operation(local, localPath));
   }
 
   /**
@@ -227,14 +736,30 @@ export class QRVideoStoreEncoder {
    * 1. Chunks the document text
    * 2. Generates QR codes for each chunk
    * 3. Creates embeddings for semantic search
-   * 4. Builds the MP4 video
-   * 5. Stores the index in the vector database
+   * 4. Builds the MP4 video (prefixed with index manifest frames if `embedIndex` is set)
+   *    and reads it back if `verify` is set
+   * 5. Stores the index in the vector database, replacing the entries of an
+   *    earlier encoding of the document
+   *
+   * Without `embedIndex` or `verify`, frames are piped into FFmpeg as they
+   * are generated (see `addDocumentStream`); otherwise the QR payloads are
+   * held until the manifest can be written in front of them, or until the
+   * video has been read back. A video that fails verification is written
+   * again with safer settings before anything is stored in the database.
+   *
+   * With `shard`, `outputVideoPath` names a sharded store: the document is
+   * streamed into new shards after the existing ones and the store's layout
+   * file is updated. Shards are read back with `verify` but not retried.
+   *
+   * With `storage`, the video is encoded in a temporary directory and saved
+   * to the backend once it is complete.
    * 
    * @param documentId Unique identifier for the document
    * @param documentText Full text content of the document
    * @param outputVideoPath Path where the video will be saved
    * @param metadata Optional metadata to attach to chunks
    * @returns Promise that resolves when document is fully processed
+   * @throws VideoVerificationError if the video does not read back with any settings
    * 
    * @example
    * ```typescript
@@ -252,6 +777,12 @@ export class QRVideoStoreEncoder {
     outputVideoPath: string,
     metadata?: Record<string, any>
   ): Promise<void> {
+    if (this.config.storage) {
+      return this.onLocalCopy(outputVideoPath, 'write', (encoder, localPath) =>
+        encoder.addDocument(documentId, documentText, localPath, metadata)
+      );
+    }
+
     console.log(`[QRVideoStoreEncoder] Processing document: ${documentId}`);
     const startTime = Date.now();
 
@@ -259,47 +790,938 @@ export class QRVideoStoreEncoder {
     const chunks = this.chunkText(documentText);
     console.log(`[QRVideoStoreEncoder] Created ${chunks.length} chunks`);
 
-    // Step 2 & 3: Generate QR codes and embeddings in parallel
-    const qrCodeBuffers: Buffer[] = [];
-    const indexEntries: QRVideoStoreIndexEntry[] = [];
+    const verify = this.getVerifyMode(this.config.videoOptions) !== 'none';
+    if (this.config.embedIndex || (verify && !this.config.shard)) {
+      const indexEntries = await this.encodeChunks(documentId, chunks, outputVideoPath, metadata);
+
+      // Step 5: Store index
+      console.log(`[QRVideoStoreEncoder] Storing index in database...`);
+      await this.storeDocumentEntries(documentId, indexEntries);
+    } else {
+      await this.encodeChunkStream([{ documentId, chunks, metadata }], outputVideoPath);
+    }
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    console.log(`[QRVideoStoreEncoder] ✅ Document "${documentId}" processed in ${duration}s`);
+  }
 
+  /**
+   * Encode chunks held in memory, writing the index manifest first if `embedIndex` is set
+   *
+   * With `verify`, each attempt from `getEncodeSettings()` rewrites the
+   * video until one reads back.
+   *
+   * @param firstFrame Frame number the video will start at once appended to another video
+   * @returns Index entries of the chunks, not yet stored
+   */
+  private async encodeChunks(
+    documentId: string,
+    chunks: Chunk[],
+    outputVideoPath: string,
+    metadata?: Record<string, any>,
+    firstFrame: number = 0
+  ): Promise<QRVideoStoreIndexEntry[]> {
+    // Step 3: Create embeddings, shared by every attempt
+    const indexEntries: QRVideoStoreIndexEntry[] = [];
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
-      
+
       if (this.config.verbose && i % 10 === 0) {
         console.log(`[QRVideoStoreEncoder] Processing chunk ${i + 1}/${chunks.length}`);
       }
 
-      // Generate QR code and embedding in parallel
-      const [qrCodeBuffer, embedding] = await Promise.all([
-        this.generateQrCode(chunk.text),
-        this.embedder.embed(chunk.text)
-      ]);
-
-      qrCodeBuffers.push(qrCodeBuffer);
       indexEntries.push({
         chunkText: chunk.text,
-        embedding,
-        frameNumber: chunk.index,
+        embedding: await this.embedder.embed(chunk.text),
+        frameNumber: 0,
         documentId,
-        metadata: { ...chunk.metadata, ...metadata }
+        chunkId: getChunkId(documentId, chunk.index, chunk.text),
+        metadata: { ...chunk.metadata, ...metadata },
       });
     }
 
-    // Step 4: Build video
+    // Step 2 & 4: Generate QR codes and build the video, retrying if it does not read back
+    const mode = this.getVerifyMode(this.config.videoOptions);
+    const report: VerificationReport = { videoPath: outputVideoPath, mode, attempts: [] };
+    const attempts = this.getEncodeSettings();
+
+    for (let i = 0; i < attempts.length; i++) {
+      const settings = attempts[i];
+      const { framePayloads, manifestFrames } = await this.writeChunkVideo(
+        documentId,
+        chunks,
+        indexEntries,
+        outputVideoPath,
+        settings,
+        mode !== 'none',
+        firstFrame
+      );
+      if (mode === 'none') {
+        break;
+      }
+
+      const attempt = {
+        ...settings,
+        ...(await this.verifyVideo(outputVideoPath, framePayloads, manifestFrames, mode)),
+      };
+      report.attempts.push(attempt);
+      if (attempt.failures.length === 0) {
+        break;
+      }
+
+      await fs.promises.rm(outputVideoPath, { force: true });
+      if (i === attempts.length - 1) {
+        throw createVerificationError(report);
+      }
+      if (this.config.verbose) {
+        console.warn(
+          `[QRVideoStoreEncoder] ${describeFailures(attempt.failures)}; ` +
+            `retrying with ${describeSettings(attempts[i + 1])}`
+        );
+      }
+    }
+
+    return indexEntries;
+  }
+
+  /**
+   * Write one attempt of a video and point the index entries at its QR codes
+   *
+   * @returns QR payloads of every frame (if `keepPayloads` is set) and the
+   *   number of leading manifest frames
+   */
+  private async writeChunkVideo(
+    documentId: string,
+    chunks: Chunk[],
+    indexEntries: QRVideoStoreIndexEntry[],
+    outputVideoPath: string,
+    settings: EncodeSettings,
+    keepPayloads: boolean,
+    firstFrame: number
+  ): Promise<{ framePayloads: Buffer[][]; manifestFrames: number }> {
+    const capacity = this.getQrCapacity(settings.qrErrorCorrectionLevel);
+    const layout = this.getFrameLayout();
+    const chunkPayloads: Buffer[][] = [];
+    let slot = 0;
+
+    chunks.forEach((chunk, i) => {
+      const payloads = this.encodeChunkPayloads(chunk, capacity, documentId);
+
+      if (this.config.verbose && payloads.length > 1) {
+        console.log(
+          `[QRVideoStoreEncoder] Chunk ${chunk.index} exceeds QR capacity, using ${payloads.length} QR codes`
+        );
+      }
+
+      // Frame numbers are relative to the first data frame until the manifest size is known
+      Object.assign(indexEntries[i], getQrPosition(slot, layout), {
+        frameCount: payloads.length > 1 ? payloads.length : undefined,
+      });
+      chunkPayloads.push(payloads);
+      slot += payloads.length;
+    });
+
+    const manifestPayloads = this.config.embedIndex
+      ? this.buildManifestFrames(indexEntries, chunks, settings.qrErrorCorrectionLevel)
+      : [];
+    for (const entry of indexEntries) {
+      entry.frameNumber += firstFrame + manifestPayloads.length;
+    }
+
     console.log(`[QRVideoStoreEncoder] Building video...`);
-    await this.buildVideo(qrCodeBuffers, outputVideoPath);
+    const level = settings.qrErrorCorrectionLevel;
+    const writer = this.createVideoWriter(outputVideoPath, settings.videoOptions);
+    const packer = this.createFramePacker(writer, level, manifestPayloads.length, keepPayloads);
 
-    // Step 5: Store index
-    console.log(`[QRVideoStoreEncoder] Storing index in database...`);
-    await this.database.upsert(indexEntries);
+    try {
+      for (const payload of manifestPayloads) {
+        await writer.write(this.renderManifestFrame(payload, level));
+      }
+      for (const payload of chunkPayloads.flat()) {
+        await packer.write(payload);
+      }
+      await packer.flush();
+      await writer.end();
+    } catch (error) {
+      writer.abort();
+      throw error;
+    }
 
-    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-    console.log(`[QRVideoStoreEncoder] ✅ Document "${documentId}" processed in ${duration}s`);
+    if (this.config.verbose) {
+      console.log(`[QRVideoStoreEncoder] Video created: ${outputVideoPath}`);
+    }
+
+    return {
+      framePayloads: [...manifestPayloads.map(payload => [payload]), ...packer.framePayloads],
+      manifestFrames: manifestPayloads.length,
+    };
+  }
+
+  /**
+   * Encode a chunk into enveloped QR payloads
+   *
+   * Every payload carries a versioned header identifying the document, chunk
+   * and part, plus a CRC32. Chunks larger than one QR symbol span several
+   * consecutive QR codes.
+   */
+  private encodeChunkPayloads(chunk: Chunk, capacity: number, documentId: string): Buffer[] {
+    return encodeChunkFrames(chunk.text, capacity, {
+      documentId,
+      chunkIndex: chunk.index,
+      codec: this.config.payloadCodec,
+      dictionary: this.config.payloadDictionary,
+    });
+  }
+
+  /**
+   * Add a document from a stream of text or chunks
+   *
+   * Frames are rendered as raw grayscale images and piped into FFmpeg's
+   * stdin as each chunk is encoded, so nothing is written to the working
+   * directory. Text pieces are chunked with the configured chunker over a
+   * sliding window (see `streamChunks`); `Chunk` objects are encoded as
+   * given.
+   *
+   * Index entries are held until the video is complete (and, with `verify`,
+   * read back), then replace every entry the document had, like
+   * `addDocument`. Frames are not kept, but every entry, with its chunk text
+   * and embedding, is, so memory still grows with the size of the document;
+   * split very large sources into several documents. If encoding fails, the
+   * partial video is removed and the previous entries are left in place. A
+   * stream cannot be replayed, so a video that fails verification is removed
+   * without retrying.
+   *
+   * @param documentId Unique identifier for the document
+   * @param source Text pieces and/or chunks, e.g. lines read from a file
+   * @param outputVideoPath Path where the video will be saved
+   * @param metadata Optional metadata to attach to chunks
+   * @throws If `embedIndex` is enabled, since the manifest must precede all data frames
+   * @throws VideoVerificationError if the video does not read back
+   *
+   * @example
+   * ```typescript
+   * const lines = readline.createInterface({ input: fs.createReadStream("./corpus.txt") });
+   * await encoder.addDocumentStream(
+   *   "corpus",
+   *   (async function* () { for await (const line of lines) yield line + "\n"; })(),
+   *   "./videos/corpus.mp4"
+   * );
+   * ```
+   */
+  public async addDocumentStream(
+    documentId: string,
+    source: AsyncIterable<string | Chunk> | Iterable<string | Chunk>,
+    outputVideoPath: string,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    if (this.config.embedIndex) {
+      throw new Error('embedIndex is not supported for streamed documents; use addDocument()');
+    }
+    if (this.config.storage) {
+      return this.onLocalCopy(outputVideoPath, 'write', (encoder, localPath) =>
+        encoder.addDocumentStream(documentId, source, localPath, metadata)
+      );
+    }
+
+    if (this.config.verbose) {
+      console.log(`[QRVideoStoreEncoder] Streaming document: ${documentId}`);
+    }
+    const startTime = Date.now();
+
+    const chunks = streamChunks(source, this.config.chunker, {
+      chunkSize: this.config.chunkSize,
+      chunkOverlap: this.config.chunkOverlap,
+    });
+    const chunkCount = await this.encodeChunkStream(
+      [{ documentId, chunks, metadata }],
+      outputVideoPath
+    );
+
+    if (this.config.verbose) {
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+      console.log(
+        `[QRVideoStoreEncoder] ✅ Document "${documentId}" (${chunkCount} chunks) processed in ${duration}s`
+      );
+    }
+  }
+
+  /**
+   * Append a document to the end of an existing store video
+   *
+   * The document is encoded into a separate segment next to the video,
+   * which FFmpeg's concat demuxer then joins to the video with stream copy,
+   * so existing frames are never re-encoded and their index entries stay
+   * valid. The joined video replaces the original only once it is complete,
+   * and the new index entries, whose frame numbers continue after the
+   * existing frames, are stored last. They replace any entries the document
+   * already had, whose frames `compactVideo` can then reclaim.
+   *
+   * The video must have been written with this encoder's resolution, codec,
+   * tile grid, color mode and parity settings. With `parity`, its last
+   * parity group must be complete, since appended frames start a new group;
+   * the encoder fills the last group of every video with blank data frames.
+   *
+   * With `storage`, the video is downloaded, extended in a temporary
+   * directory and saved back.
+   *
+   * @param videoPath Existing video to extend
+   * @param documentId Unique identifier for the document
+   * @param documentText Full text content of the document
+   * @param metadata Optional metadata to attach to chunks
+   * @throws If `embedIndex` is enabled, since the manifest at the start of the video would go stale
+   * @throws If the video is a sharded store
+   * @throws If the video does not match the encoder settings
+   *
+   * @example
+   * ```typescript
+   * await encoder.addDocument("handbook", handbookText, "./videos/kb.mp4");
+   * await encoder.appendDocument("./videos/kb.mp4", "faq", faqText);
+   * ```
+   */
+  public async appendDocument(
+    videoPath: string,
+    documentId: string,
+    documentText: string,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    if (this.config.embedIndex) {
+      throw new Error('embedIndex is not supported when appending; the manifest would go stale');
+    }
+    if (this.config.storage) {
+      return this.onLocalCopy(videoPath, 'update', (encoder, localPath) =>
+        encoder.appendDocument(localPath, documentId, documentText, metadata)
+      );
+    }
+
+    if (await readShardLayout(videoPath)) {
+      throw new Error(
+        `Cannot append to ${videoPath}: it is sharded; use addDocument() to add shards`
+      );
+    }
+
+    if (this.config.verbose) {
+      console.log(`[QRVideoStoreEncoder] Appending document ${documentId} to ${videoPath}`);
+    }
+    const startTime = Date.now();
+
+    const info = await probeVideo(videoPath);
+    this.assertVideoResolution(videoPath, info, 'append to');
+    const parity = this.config.parity;
+    const dataStart = parity ? await this.readManifestFrameCount(videoPath, info) : 0;
+    if (parity && (info.frameCount - dataStart) % (parity.dataFrames + parity.parityFrames) !== 0) {
+      throw new Error(
+        `Cannot append to ${videoPath}: its last parity group holds fewer than ` +
+          `${parity.dataFrames} data frames`
+      );
+    }
+
+    const chunks = this.chunkText(documentText);
+    if (chunks.length === 0) {
+      return;
+    }
+
+    // Siblings of the video, so the final rename stays on one file system
+    const { dir, name, ext } = path.parse(videoPath);
+    const segmentPath = path.join(dir, `.${name}.append-${startTime}${ext}`);
+    const joinedPath = path.join(dir, `.${name}.joined-${startTime}${ext}`);
+    let indexEntries: QRVideoStoreIndexEntry[];
+
+    try {
+      indexEntries = await this.encodeChunks(
+        documentId,
+        chunks,
+        segmentPath,
+        metadata,
+        info.frameCount
+      );
+      const segment = await probeVideo(segmentPath);
+      if (segment.codec?.codecName !== info.codec?.codecName) {
+        throw new Error(
+          `Cannot append to ${videoPath}: it uses codec ${info.codec?.codecName}, ` +
+            `the encoder writes ${segment.codec?.codecName}`
+        );
+      }
+
+      await concatVideos([videoPath, segmentPath], joinedPath);
+      const joined = await probeVideo(joinedPath);
+      if (joined.frameCount !== info.frameCount + segment.frameCount) {
+        throw new Error(
+          `Appending to ${videoPath} produced ${joined.frameCount} frames, ` +
+            `expected ${info.frameCount + segment.frameCount}`
+        );
+      }
+      await fs.promises.rename(joinedPath, videoPath);
+    } finally {
+      await fs.promises.rm(segmentPath, { force: true });
+      await fs.promises.rm(joinedPath, { force: true });
+    }
+
+    if (this.config.verbose) {
+      console.log(`[QRVideoStoreEncoder] Storing index in database...`);
+    }
+    await this.storeDocumentEntries(documentId, indexEntries);
+
+    if (this.config.verbose) {
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+      console.log(
+        `[QRVideoStoreEncoder] ✅ Document "${documentId}" appended at frame ${info.frameCount} in ${duration}s`
+      );
+    }
+  }
+
+  /**
+   * Number of manifest frames at the start of a video, which parity groups start after
+   */
+  private async readManifestFrameCount(videoPath: string, info: VideoStreamInfo): Promise<number> {
+    let count = 0;
+    await decodeRawFrames(videoPath, info, [0], (_, pixels) => {
+      const qrCode = jsQR(pixels, info.width, info.height);
+      count = (qrCode && decodeManifestPart(Uint8Array.from(qrCode.binaryData))?.count) || 0;
+    });
+    return count;
+  }
+
+  /**
+   * Rewrite a store video without the frames of deleted documents
+   *
+   * `VectorDatabase.delete` only removes index entries; the QR codes of the
+   * deleted document stay in the video. Compaction keeps the QR codes that
+   * index entries still point to and packs them into a new video in their
+   * original order. Once it is complete, the entries are moved to their new
+   * positions with a single `replaceAll`, so the database never holds a mix
+   * of old and new frame numbers, and only then does the new video replace
+   * the original. If `replaceAll` fails, the original video is kept; if the
+   * swap fails, the previous entries are written back.
+   *
+   * An entry points into the video if the QR codes at its position decode
+   * to its chunk text, so one database may index several videos. The
+   * database must support `list` and `replaceAll`, and should not be written
+   * to while the video is compacted.
+   *
+   * The video must have been written with this encoder's resolution, tile
+   * grid, color mode and parity settings. It is re-encoded with the
+   * configured codec options and, with `verify`, read back before it
+   * replaces the original. With `storage`, the video is downloaded,
+   * compacted in a temporary directory and saved back.
+   *
+   * @param videoPath Store video to compact
+   * @returns Frame counts, remapped entries and bytes reclaimed
+   * @throws If `embedIndex` is enabled, since the manifest would go stale
+   * @throws If the database cannot list or replace its entries, or the video is a sharded store
+   * @throws If a QR code an entry points to does not read back, or no entry points into the video
+   * @throws VideoVerificationError if the compacted video does not read back
+   *
+   * @example
+   * ```typescript
+   * await database.delete("customer-42");
+   * const report = await encoder.compactVideo("./videos/kb.mp4");
+   * console.log(`Reclaimed ${report.bytesReclaimed} bytes`);
+   * ```
+   */
+  public async compactVideo(videoPath: string): Promise<CompactionReport> {
+    if (this.config.embedIndex) {
+      throw new Error('embedIndex is not supported when compacting; the manifest would go stale');
+    }
+    if (!this.database.list || !this.database.replaceAll) {
+      throw new Error('Compaction needs a database that supports list() and replaceAll()');
+    }
+    if (this.config.storage) {
+      const report = await this.onLocalCopy(videoPath, 'update', (encoder, localPath) =>
+        encoder.compactVideo(localPath)
+      );
+      return { ...report, videoPath };
+    }
+
+    if (await readShardLayout(videoPath)) {
+      throw new Error(`Cannot compact ${videoPath}: compacting sharded stores is not supported`);
+    }
+
+    if (this.config.verbose) {
+      console.log(`[QRVideoStoreEncoder] Compacting ${videoPath}`);
+    }
+    const startTime = Date.now();
+
+    const info = await probeVideo(videoPath);
+    this.assertVideoResolution(videoPath, info, 'compact');
+    const bytesBefore = (await fs.promises.stat(videoPath)).size;
+    const layout = this.getFrameLayout();
+    const perFrame = getQrCodesPerFrame(layout);
+    const channels = getChannelCount(layout.colorMode);
+    const tiles = getTilesPerFrame(layout.tileGrid);
+    const totalSlots = getDataFrameCount(info.frameCount, layout) * perFrame;
+
+    // Step 1: Collect the entries whose position lies within the video's data frames
+    const entries = await this.database.list();
+    const candidates: Array<{ entry: QRVideoStoreIndexEntry; slot: number }> = [];
+    const frameNumbers = new Set<number>();
+    for (const entry of entries) {
+      if (
+        entry.frameNumber < 0 ||
+        entry.frameNumber >= info.frameCount ||
+        (entry.tileIndex ?? 0) >= tiles ||
+        (entry.channel ?? 0) >= channels ||
+        isParityFrame(entry.frameNumber, layout, info.frameCount)
+      ) {
+        continue;
+      }
+      const slot = getQrSlot(entry, layout);
+      const frameCount = entry.frameCount ?? 1;
+      if (slot + frameCount > totalSlots) {
+        continue;
+      }
+      candidates.push({ entry, slot });
+      for (let i = 0; i < frameCount; i++) {
+        frameNumbers.add(getQrPosition(slot + i, layout).frameNumber);
+      }
+    }
+
+    // Step 2: Read their QR codes; `null` marks a QR code that was drawn but does not read back
+    const decoded = new Map<number, Uint8Array | null>();
+    await decodeRawFrames(videoPath, info, Array.from(frameNumbers), (frameNumber, pixels) => {
+      for (let tileIndex = 0; tileIndex < tiles; tileIndex++) {
+        const tile = cropTile(pixels, info.width, info.height, layout.tileGrid, tileIndex);
+        demultiplexPixels(tile.pixels, layout.colorMode).forEach((plane, channel) => {
+          const slot = getQrSlot({ frameNumber, tileIndex, channel }, layout);
+          const qrCode = jsQR(plane, tile.width, tile.height);
+          if (qrCode) {
+            decoded.set(slot, Uint8Array.from(qrCode.binaryData));
+          } else if (!isBlankPlane(plane)) {
+            decoded.set(slot, null);
+          }
+        });
+      }
+    });
+
+    // Step 3: Keep the chunks whose QR codes hold the text of the entry pointing at them
+    const runs = new Map<number, Uint8Array[]>();
+    const slotsByEntry = new Map<QRVideoStoreIndexEntry, number>();
+    for (const { entry, slot } of candidates) {
+      const payloads: Uint8Array[] = [];
+      for (let i = 0; i < (entry.frameCount ?? 1); i++) {
+        const payload = decoded.get(slot + i);
+        if (payload === null) {
+          throw new Error(
+            `Cannot compact ${videoPath}: the QR code at ` +
+              `${formatQrPosition(getQrPosition(slot + i, layout))} does not read back`
+          );
+        }
+        if (payload) {
+          payloads.push(payload);
+        }
+      }
+
+      let chunkText: string | undefined;
+      try {
+        chunkText = decodeChunkFrames(payloads, {
+          dictionary: this.config.payloadDictionary,
+          documentId: entry.documentId,
+        });
+      } catch {
+        // The entry points into another video
+      }
+      if (payloads.length === (entry.frameCount ?? 1) && chunkText === entry.chunkText) {
+        runs.set(slot, payloads);
+        slotsByEntry.set(entry, slot);
+      }
+    }
+
+    if (runs.size === 0) {
+      throw new Error(`Cannot compact ${videoPath}: no index entry points into it`);
+    }
+
+    // Step 4: Skip the rewrite if the kept QR codes already fill the video from the start
+    const firstSlots = Array.from(runs.keys()).sort((a, b) => a - b);
+    let keptSlots = 0;
+    let contiguous = true;
+    for (const slot of firstSlots) {
+      contiguous = contiguous && slot === keptSlots;
+      keptSlots += runs.get(slot)!.length;
+    }
+    if (contiguous && Math.ceil(keptSlots / perFrame) === totalSlots / perFrame) {
+      if (this.config.verbose) {
+        console.log(`[QRVideoStoreEncoder] ${videoPath} holds no deleted frames`);
+      }
+      return {
+        videoPath,
+        framesBefore: info.frameCount,
+        framesAfter: info.frameCount,
+        remappedEntries: 0,
+        bytesBefore,
+        bytesAfter: bytesBefore,
+        bytesReclaimed: 0,
+      };
+    }
+
+    // Step 5: Pack the kept QR codes into a sibling video
+    const { dir, name, ext } = path.parse(videoPath);
+    const compactPath = path.join(dir, `.${name}.compact-${startTime}${ext}`);
+    const settings: EncodeSettings = {
+      qrErrorCorrectionLevel: this.config.qrErrorCorrectionLevel,
+      videoOptions: this.config.videoOptions,
+    };
+    const mode = this.getVerifyMode(settings.videoOptions);
+    const positions = new Map<number, QrPosition>();
+    let framesAfter: number;
+    let bytesAfter: number;
+
+    try {
+      const writer = this.createVideoWriter(compactPath, settings.videoOptions);
+      const packer = this.createFramePacker(
+        writer,
+        settings.qrErrorCorrectionLevel,
+        0,
+        mode !== 'none'
+      );
+      try {
+        for (const slot of firstSlots) {
+          const [first, ...rest] = runs.get(slot)!;
+          positions.set(slot, await packer.write(Buffer.from(first)));
+          for (const payload of rest) {
+            await packer.write(Buffer.from(payload));
+          }
+        }
+        await packer.flush();
+        await writer.end();
+      } catch (error) {
+        writer.abort();
+        throw error;
+      }
+
+      if (mode !== 'none') {
+        const attempt = {
+          ...settings,
+          ...(await this.verifyVideo(compactPath, packer.framePayloads, 0, mode)),
+        };
+        if (attempt.failures.length > 0) {
+          throw createVerificationError({ videoPath: compactPath, mode, attempts: [attempt] });
+        }
+      }
+
+      framesAfter = (await probeVideo(compactPath)).frameCount;
+      bytesAfter = (await fs.promises.stat(compactPath)).size;
+
+      // Step 6: Move the entries to their new positions in one write, then
+      // swap the videos, restoring the entries if the swap fails
+      if (this.config.verbose) {
+        console.log(`[QRVideoStoreEncoder] Remapping ${slotsByEntry.size} index entries...`);
+      }
+      await this.database.replaceAll(
+        entries.map(entry => {
+          const slot = slotsByEntry.get(entry);
+          return slot === undefined ? entry : { ...entry, ...positions.get(slot)! };
+        })
+      );
+      try {
+        await fs.promises.rename(compactPath, videoPath);
+      } catch (error) {
+        await this.database.replaceAll(entries);
+        throw error;
+      }
+    } finally {
+      await fs.promises.rm(compactPath, { force: true });
+    }
+
+    if (this.config.verbose) {
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+      console.log(
+        `[QRVideoStoreEncoder] ✅ Compacted ${videoPath} from ${info.frameCount} ` +
+          `to ${framesAfter} frames in ${duration}s`
+      );
+    }
+
+    return {
+      videoPath,
+      framesBefore: info.frameCount,
+      framesAfter,
+      remappedEntries: slotsByEntry.size,
+      bytesBefore,
+      bytesAfter,
+      bytesReclaimed: bytesBefore - bytesAfter,
+    };
+  }
+
+  /**
+   * Check that an existing video has the configured resolution
+   *
+   * @param action What is being done to the video, for the error message
+   */
+  private assertVideoResolution(videoPath: string, info: VideoStreamInfo, action: string): void {
+    const { width, height } = this.config.videoResolution;
+    if (info.width !== width || info.height !== height) {
+      throw new Error(
+        `Cannot ${action} ${videoPath}: it is ${info.width}x${info.height}, ` +
+          `the encoder writes ${width}x${height}`
+      );
+    }
+  }
+
+  /**
+   * Encode chunks one at a time, piping raw frames into FFmpeg
+   *
+   * Documents are written one after another into the same video, or into
+   * the shards of the store at `outputVideoPath` if `shard` is set.
+   *
+   * Index entries, with their chunk texts and embeddings, are held in memory
+   * until the video is complete, then replace the previous entries of each
+   * document. If encoding fails, the stored entries are left untouched.
+   *
+   * @returns Number of chunks encoded
+   */
+  private async encodeChunkStream(
+    documents: Array<{
+      documentId: string;
+      chunks: AsyncIterable<Chunk> | Iterable<Chunk>;
+      metadata?: Record<string, any>;
+    }>,
+    outputVideoPath: string
+  ): Promise<number> {
+    const capacity = this.getFrameCapacity();
+    const sink = this.config.shard
+      ? await this.createShardSink(outputVideoPath)
+      : this.createVideoSink(outputVideoPath);
+    const entries: QRVideoStoreIndexEntry[] = [];
+    let chunkCount = 0;
+
+    try {
+      for (const { documentId, chunks, metadata } of documents) {
+        for await (const chunk of chunks) {
+          if (this.config.verbose && chunkCount % 10 === 0) {
+            console.log(`[QRVideoStoreEncoder] Processing chunk ${chunkCount + 1}`);
+          }
+
+          const payloads = this.encodeChunkPayloads(chunk, capacity, documentId);
+
+          // Embed while the chunk's frames are written
+          const [embedding, position] = await Promise.all([
+            this.embedder.embed(chunk.text),
+            sink.write(payloads),
+          ]);
+
+          entries.push({
+            chunkText: chunk.text,
+            embedding,
+            ...position,
+            frameCount: payloads.length > 1 ? payloads.length : undefined,
+            documentId,
+            chunkId: getChunkId(documentId, chunk.index, chunk.text),
+            metadata: { ...chunk.metadata, ...metadata },
+          });
+          chunkCount++;
+        }
+      }
+
+      await sink.end();
+    } catch (error) {
+      await sink.abort();
+      throw error;
+    }
+
+    for (const { documentId } of documents) {
+      await this.storeDocumentEntries(
+        documentId,
+        entries.filter(entry => entry.documentId === documentId)
+      );
+    }
+
+    if (this.config.verbose) {
+      console.log(
+        `[QRVideoStoreEncoder] Video created: ${outputVideoPath} (${sink.frameCount} frames)`
+      );
+    }
+
+    return chunkCount;
+  }
+
+  /**
+   * Stream chunks into a single video, reading it back once finished if `verify` is set
+   */
+  private createVideoSink(outputVideoPath: string): ChunkSink {
+    const { qrErrorCorrectionLevel, videoOptions } = this.config;
+    const mode = this.getVerifyMode(videoOptions);
+    const writer = this.createVideoWriter(outputVideoPath, videoOptions);
+    const packer = this.createFramePacker(writer, qrErrorCorrectionLevel, 0, mode !== 'none');
+
+    return {
+      write: async payloads => {
+        const positions: QrPosition[] = [];
+        for (const payload of payloads) {
+          positions.push(await packer.write(payload));
+        }
+        return positions[0];
+      },
+      end: async () => {
+        await packer.flush();
+        await writer.end();
+        if (mode === 'none') {
+          return;
+        }
+        const attempt = {
+          qrErrorCorrectionLevel,
+          videoOptions,
+          ...(await this.verifyVideo(outputVideoPath, packer.framePayloads, 0, mode)),
+        };
+        if (attempt.failures.length > 0) {
+          throw createVerificationError({ videoPath: outputVideoPath, mode, attempts: [attempt] });
+        }
+      },
+      abort: async () => {
+        writer.abort();
+        await fs.promises.rm(outputVideoPath, { force: true });
+      },
+      get frameCount() {
+        return packer.frameCount;
+      },
+    };
+  }
+
+  /**
+   * Stream chunks into new shards of a store, after the shards already in its layout
+   *
+   * A shard is finished before the chunk that would take it past
+   * `shard.maxFrames` frames, or once FFmpeg has written `shard.maxBytes`
+   * to it. Positions returned are frame numbers within the whole store, and
+   * the layout file is only rewritten once every new shard is complete.
+   */
+  private async createShardSink(storePath: string): Promise<ChunkSink> {
+    const { maxFrames = Infinity, maxBytes = Infinity } = this.config.shard!;
+    const parity = this.config.parity;
+    const perFrame = getQrCodesPerFrame(this.getFrameLayout());
+    // Frames needed for a number of QR codes, with the last parity group filled out
+    const framesFor = (slots: number) => {
+      const dataFrames = Math.ceil(slots / perFrame);
+      return parity
+        ? Math.ceil(dataFrames / parity.dataFrames) * (parity.dataFrames + parity.parityFrames)
+        : dataFrames;
+    };
+    const sizeOf = (shardPath: string) =>
+      fs.promises.stat(shardPath).then(
+        stats => stats.size,
+        () => 0
+      );
+
+    const existing = (await readShardLayout(storePath))?.shards ?? [];
+    const firstFrame = existing.reduce((sum, shard) => sum + shard.frameCount, 0);
+    const shards: VideoShard[] = [];
+    let startFrame = firstFrame;
+    let current: { path: string; sink: ChunkSink; slots: number } | null = null;
+
+    const finishShard = async () => {
+      const shard = current!;
+      await shard.sink.end();
+      shards.push({
+        path: path.basename(shard.path),
+        startFrame,
+        frameCount: shard.sink.frameCount,
+        sizeBytes: await sizeOf(shard.path),
+      });
+      startFrame += shard.sink.frameCount;
+      current = null;
+      if (this.config.verbose) {
+        console.log(`[QRVideoStoreEncoder] Shard created: ${shard.path}`);
+      }
+    };
+
+    return {
+      write: async payloads => {
+        if (framesFor(payloads.length) > maxFrames) {
+          throw new Error(
+            `A chunk of ${payloads.length} QR codes does not fit in a shard of ${maxFrames} frames`
+          );
+        }
+        if (
+          current &&
+          (framesFor(current.slots + payloads.length) > maxFrames ||
+            (await sizeOf(current.path)) >= maxBytes)
+        ) {
+          await finishShard();
+        }
+        if (!current) {
+          const shardPath = getShardPath(storePath, existing.length + shards.length);
+          current = { path: shardPath, sink: this.createVideoSink(shardPath), slots: 0 };
+        }
+
+        const position = await current.sink.write(payloads);
+        current.slots += payloads.length;
+        return { ...position, frameNumber: startFrame + position.frameNumber };
+      },
+      end: async () => {
+        if (current) {
+          await finishShard();
+        }
+        if (shards.length > 0) {
+          await writeShardLayout(storePath, { shards: [...existing, ...shards] });
+        }
+      },
+      abort: async () => {
+        await current?.sink.abort();
+        for (const shard of shards) {
+          await fs.promises.rm(resolveShardPath(storePath, shard), { force: true });
+        }
+      },
+      get frameCount() {
+        return startFrame - firstFrame + (current?.sink.frameCount ?? 0);
+      },
+    };
+  }
+
+  /**
+   * Encode the chunk index as manifest QR frames
+   *
+   * Each frame is filled up to the capacity of a whole-frame QR code at the
+   * given error correction level, whatever the chunk size and tile grid.
+   */
+  private buildManifestFrames(
+    indexEntries: QRVideoStoreIndexEntry[],
+    chunks: Chunk[],
+    level: EncodeSettings['qrErrorCorrectionLevel']
+  ): Buffer[] {
+    const manifestChunks: QRVideoStoreManifestChunk[] = indexEntries.map((entry, i) => {
+      // Chunk offsets get their own fields; keep them out of the metadata copy
+      const { startPosition, endPosition, ...metadata } = entry.metadata ?? {};
+      return {
+        documentId: entry.documentId,
+        chunkIndex: chunks[i].index,
+        chunkId: entry.chunkId,
+        frameOffset: entry.frameNumber,
+        tileIndex: entry.tileIndex,
+        channel: entry.channel,
+        frameCount: entry.frameCount,
+        startPosition,
+        endPosition,
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        embedding: this.config.embedIndexEmbeddings ? entry.embedding : undefined,
+      };
+    });
+
+    const payloads = encodeManifestFrames(
+      {
+        embedder: {
+          name: this.embedder.name,
+          dimension: this.embedder.dimension?.() ?? indexEntries[0]?.embedding.length ?? 0,
+        },
+        payloadCodec: this.config.payloadCodec,
+        payloadDictionary: this.config.payloadDictionary?.toString('base64'),
+        tileGrid: getTilesPerFrame(this.config.tileGrid) > 1 ? this.config.tileGrid : undefined,
+        colorMode: this.config.colorMode !== 'mono' ? this.config.colorMode : undefined,
+        parity: this.config.parity,
+        chunks: manifestChunks,
+      },
+      this.getManifestCapacity(level)
+    );
+
+    if (this.config.verbose) {
+      console.log(`[QRVideoStoreEncoder] Embedding index in ${payloads.length} manifest frames`);
+    }
+
+    return payloads;
   }
 
   /**
    * Add multiple documents in batch
+   *
+   * With `shard`, documents sharing an `outputVideoPath` are streamed into
+   * the shards of that store one after another, so a whole corpus can use
+   * a single output path.
    * 
    * @param documents Array of documents to add
    * @returns Promise that resolves when all documents are processed
@@ -321,6 +1743,31 @@ export class QRVideoStoreEncoder {
     }>
   ): Promise<void> {
     console.log(`[QRVideoStoreEncoder] Processing ${documents.length} documents in batch`);
+
+    if (this.config.shard) {
+      const stores = new Map<string, typeof documents>();
+      for (const doc of documents) {
+        stores.set(doc.outputVideoPath, [...(stores.get(doc.outputVideoPath) ?? []), doc]);
+      }
+      for (const [storePath, storeDocuments] of stores) {
+        const chunkCount = await this.onLocalCopy(storePath, 'write', (encoder, localPath) =>
+          encoder.encodeChunkStream(
+            storeDocuments.map(doc => ({
+              documentId: doc.documentId,
+              chunks: this.chunkText(doc.documentText),
+              metadata: doc.metadata,
+            })),
+            localPath
+          )
+        );
+        console.log(
+          `[QRVideoStoreEncoder] Stored ${storeDocuments.length} documents ` +
+            `(${chunkCount} chunks) in ${storePath}`
+        );
+      }
+      console.log(`[QRVideoStoreEncoder] ✅ Batch processing complete`);
+      return;
+    }
     
     for (const doc of documents) {
       await this.addDocument(
@@ -337,51 +1784,47 @@ export class QRVideoStoreEncoder {
   /**
    * Get statistics about a video file
    * 
-   * @param videoPath Path to the video file
+   * For a sharded store, sizes, frames and durations are summed over its shards.
+   *
+   * @param videoPath Path to the video file, or the output path of a sharded store
    * @param originalText Original text content (for compression ratio)
-   * @returns Statistics about the video store
+   * @returns Statistics about the video store, including the codec parameters of the video
+   *   and the embedding footprint of the database
    */
   public async getStats(
     videoPath: string,
     originalText: string
   ): Promise<QRVideoStoreStats> {
-    const videoStats = fs.statSync(videoPath);
-    const videoSizeBytes = videoStats.size;
+    if (this.config.storage) {
+      return this.onLocalCopy(videoPath, 'read', (encoder, localPath) =>
+        encoder.getStats(localPath, originalText)
+      );
+    }
+
+    const layout = await readShardLayout(videoPath);
+    const videoPaths = layout
+      ? layout.shards.map(shard => resolveShardPath(videoPath, shard))
+      : [videoPath];
     const originalSizeBytes = Buffer.byteLength(originalText, 'utf8');
-    
+
     // Get video duration and frame count
-    const videoInfo = await this.getVideoInfo(videoPath);
+    const videoInfos = [];
+    let videoSizeBytes = 0;
+    for (const shardPath of videoPaths) {
+      videoSizeBytes += fs.statSync(shardPath).size;
+      videoInfos.push(await probeVideo(shardPath));
+    }
 
     return {
       totalChunks: this.chunkText(originalText).length,
-      totalFrames: videoInfo.frames,
+      totalFrames: videoInfos.reduce((sum, info) => sum + info.frameCount, 0),
       videoSizeBytes,
       originalSizeBytes,
       compressionRatio: 1 - (videoSizeBytes / originalSizeBytes),
-      durationSeconds: videoInfo.duration,
+      durationSeconds: videoInfos.reduce((sum, info) => sum + info.durationSeconds, 0),
+      codec: videoInfos[0]?.codec,
+      shardCount: layout?.shards.length,
+      index: await this.database.getStats?.(),
     };
   }
-
-  /**
-   * Get video metadata using FFmpeg
-   */
-  private async getVideoInfo(videoPath: string): Promise<{ duration: number; frames: number }> {
-    return new Promise((resolve, reject) => {
-      ffmpeg.ffprobe(videoPath, (err, metadata) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-        
-        const videoStream = metadata.streams.find(s => s.codec_type === 'video');
-        const duration = metadata.format.duration || 0;
-        const frames = videoStream?.nb_frames 
-          ? parseInt(videoStream.nb_frames.toString())
-          : Math.ceil(duration * this.config.videoFps);
-
-        resolve({ duration, frames });
-      });
-    });
-  }
 }
-
@@ -0,0 +1,89 @@
+/**
+ * QR Video RAG - Errors
+ *
+ * Structured errors raised while decoding videos and QR frame payloads or verifying new videos
+ */
+
+import { FrameDecodeErrorCode, VerificationReport } from './types';
+
+/**
+ * A QR frame was read but its payload is invalid or does not match expectations
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await retriever.decodeQrCodeFromBuffer(image);
+ * } catch (error) {
+ *   if (error instanceof FrameDecodeError && error.code === 'CHECKSUM_MISMATCH') {
+ *     // the frame was damaged by lossy video compression
+ *   }
+ * }
+ * ```
+ */
+export class FrameDecodeError extends Error {
+  /** Machine-readable reason */
+  public readonly code: FrameDecodeErrorCode;
+
+  constructor(code: FrameDecodeErrorCode, message: string) {
+    super(message);
+    this.name = 'FrameDecodeError';
+    this.code = code;
+  }
+}
+
+/**
+ * A new video did not read back during encode-time verification, even after retries
+ *
+ * The video has been removed and nothing was written to the database.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await encoder.addDocument('doc', text, './doc.mp4');
+ * } catch (error) {
+ *   if (error instanceof VideoVerificationError) {
+ *     console.log(error.report.attempts.map(attempt => attempt.failures.length));
+ *   }
+ * }
+ * ```
+ */
+export class VideoVerificationError extends Error {
+  /** Settings and failing QR codes of every attempt */
+  public readonly report: VerificationReport;
+
+  constructor(message: string, report: VerificationReport) {
+    super(message);
+    this.name = 'VideoVerificationError';
+    this.report = report;
+  }
+}
+
+/**
+ * The frames of a video could not be decoded at all, e.g. because FFmpeg failed
+ *
+ * Single frames whose QR codes do not read are skipped instead.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await retriever.search('query', './doc.mp4');
+ * } catch (error) {
+ *   if (error instanceof VideoDecodeError) {
+ *     console.log(`${error.videoPath} is unreadable: ${error.cause.message}`);
+ *   }
+ * }
+ * ```
+ */
+export class VideoDecodeError extends Error {
+  /** Video whose frames failed to decode */
+  public readonly videoPath: string;
+  /** Underlying FFmpeg or stream error */
+  public readonly cause: Error;
+
+  constructor(videoPath: string, cause: Error) {
+    super(`Failed to decode frames of ${videoPath}: ${cause.message}`);
+    this.name = 'VideoDecodeError';
+    this.videoPath = videoPath;
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * QR Video RAG - Files
+ *
+ * Helpers for the files kept next to videos: index files, shard layouts,
+ * collection catalogs and videos saved by the local storage backend
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Write a file atomically
+ *
+ * The contents go to a temporary file next to the target, which is then
+ * renamed over it, so readers see either the old or the new file and never
+ * a partial one. Missing parent directories are created.
+ *
+ * @param filePath File to write
+ * @param contents New contents of the file
+ */
+export async function writeFileAtomic(filePath: string, contents: string | Buffer): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await fs.promises.writeFile(tempPath, contents);
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * QR Video RAG - Search Filters
+ *
+ * Matching of index entries against search filters
+ */
+
+import {
+  MetadataCondition,
+  MetadataRange,
+  MetadataValue,
+  QRVideoStoreIndexEntry,
+  SearchFilter,
+} from './types';
+
+const RANGE_OPERATORS = ['$gt', '$gte', '$lt', '$lte'];
+
+/**
+ * Check whether an index entry matches a search filter
+ *
+ * Database adapters call this to implement the `filter` argument of
+ * `VectorDatabase.search` when they cannot push it down to the database.
+ *
+ * @param entry Index entry to test
+ * @param filter Filter to apply (an undefined filter matches every entry)
+ * @returns True if the entry matches every part of the filter
+ * @throws If a condition uses an unsupported operator
+ *
+ * @example
+ * ```typescript
+ * const hits = entries.filter(entry => matchesFilter(entry, { metadata: { version: { $gte: 2 } } }));
+ * ```
+ */
+export function matchesFilter(entry: QRVideoStoreIndexEntry, filter?: SearchFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  if (filter.documentId !== undefined) {
+    const documentIds = Array.isArray(filter.documentId) ? filter.documentId : [filter.documentId];
+    if (!documentIds.includes(entry.documentId)) {
+      return false;
+    }
+  }
+
+  for (const [field, condition] of Object.entries(filter.metadata ?? {})) {
+    if (!matchesCondition(entry.metadata?.[field], condition, field)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check a metadata value against the condition on its field
+ */
+function matchesCondition(value: unknown, condition: MetadataCondition, field: string): boolean {
+  if (condition === null || typeof condition !== 'object') {
+    return isEqual(value, condition);
+  }
+
+  const operators = Object.keys(condition);
+  const unsupported = operators.find(op => op !== '$in' && !RANGE_OPERATORS.includes(op));
+  if (unsupported !== undefined || operators.length === 0) {
+    throw new Error(
+      `Unsupported filter condition on metadata field "${field}": ${JSON.stringify(condition)}`
+    );
+  }
+
+  if ('$in' in condition) {
+    if (operators.length > 1 || !Array.isArray(condition.$in)) {
+      throw new Error(
+        `Filter $in on metadata field "${field}" must be the only operator and a list`
+      );
+    }
+    return condition.$in.some(candidate => isEqual(value, candidate));
+  }
+
+  return matchesRange(value, condition as MetadataRange);
+}
+
+/**
+ * Equality of a metadata value and a filter value, treating a missing field as null
+ */
+function isEqual(value: unknown, expected: MetadataValue): boolean {
+  return (value === undefined ? null : value) === expected;
+}
+
+/**
+ * Check a metadata value against every bound of a range
+ */
+function matchesRange(value: unknown, range: MetadataRange): boolean {
+  const bounds: [number | string | undefined, (bound: number | string) => boolean][] = [
+    [range.$gt, bound => (value as typeof bound) > bound],
+    [range.$gte, bound => (value as typeof bound) >= bound],
+    [range.$lt, bound => (value as typeof bound) < bound],
+    [range.$lte, bound => (value as typeof bound) <= bound],
+  ];
+
+  return bounds.every(
+    ([bound, holds]) => bound === undefined || (typeof value === typeof bound && holds(bound))
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * QR Video RAG - Frame Envelope
+ *
+ * Versioned binary header that identifies and checksums the payload of every data frame
+ */
+
+import { PayloadCodec } from './types';
+import { FrameDecodeError } from './errors';
+import {
+  PayloadCodecOptions,
+  compressPayload,
+  decompressPayload,
+  checkDictionary,
+  getCodecById,
+  getCodecId,
+  getDictionaryId,
+  usesDictionary,
+} from './codecs';
+
+/**
+ * First two bytes of an enveloped frame
+ *
+ * 0xFE never occurs in UTF-8, so enveloped frames cannot be confused with
+ * the bare text frames of videos written before the envelope existed.
+ */
+const FRAME_MAGIC = [0xfe, 0x56];
+
+/** Current frame format version */
+export const FRAME_VERSION = 1;
+
+/** Header flag: the payload was compressed with a shared dictionary */
+const FLAG_DICTIONARY = 0x01;
+
+/** Header size without the optional dictionary ID */
+const BASE_HEADER_SIZE = 23;
+
+/** Byte offset of the CRC32 field */
+const CRC_OFFSET = 19;
+
+/**
+ * Decoded frame header
+ *
+ * Layout (big-endian): magic (2), version (1), flags (1), codec (1),
+ * documentId hash (4), chunk index (4), part index (2), part count (2),
+ * payload length (2), CRC32 (4), then the dictionary ID (4) if flagged.
+ * The CRC32 covers every other header byte and the payload.
+ */
+export interface FrameHeader {
+  version: number;
+  codec: PayloadCodec;
+  documentHash: number;
+  chunkIndex: number;
+  partIndex: number;
+  partCount: number;
+  dictionaryId?: number;
+}
+
+/**
+ * Identity and codec of the chunk written into an envelope
+ */
+export interface ChunkFrameOptions extends PayloadCodecOptions {
+  documentId: string;
+  chunkIndex: number;
+}
+
+/**
+ * Expected identity of a chunk when decoding its frames
+ */
+export interface ChunkDecodeOptions {
+  /** Shared dictionary for compressed payloads */
+  dictionary?: Buffer;
+  /** Document the frames must belong to */
+  documentId?: string;
+  /** Chunk index the frames must carry */
+  chunkIndex?: number;
+}
+
+/**
+ * Hash a document ID into the 32-bit value stored in frame headers (FNV-1a)
+ */
+export function hashDocumentId(documentId: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of Buffer.from(documentId, 'utf8')) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Compute the CRC32 (IEEE) of one or more byte ranges
+ */
+export function crc32(...parts: Uint8Array[]): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const part of parts) {
+    for (const byte of part) {
+      crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Size of the frame header for the given codec options
+ */
+export function getFrameHeaderSize(options: PayloadCodecOptions): number {
+  return usesDictionary(options) ? BASE_HEADER_SIZE + 4 : BASE_HEADER_SIZE;
+}
+
+/**
+ * Encode a chunk into one or more enveloped frame payloads
+ *
+ * The chunk bytes are compressed with the configured codec and cut into
+ * slices that fit `capacity` bytes including the header.
+ *
+ * @param text Chunk text
+ * @param capacity Byte capacity of one QR frame
+ * @param options Document ID, chunk index, codec and optional dictionary
+ * @returns Frame payloads in order
+ */
+export function encodeChunkFrames(
+  text: string,
+  capacity: number,
+  options: ChunkFrameOptions
+): Buffer[] {
+  const headerSize = getFrameHeaderSize(options);
+  const sliceSize = Math.min(capacity - headerSize, 0xffff);
+  if (sliceSize <= 0) {
+    throw new Error(`QR capacity of ${capacity} bytes is too small for a frame header`);
+  }
+
+  const data = compressPayload(Buffer.from(text, 'utf8'), options);
+  const partCount = Math.max(1, Math.ceil(data.length / sliceSize));
+  if (partCount > 0xffff) {
+    throw new Error(
+      `Chunk ${options.chunkIndex} needs ${partCount} frames, more than a frame header can address`
+    );
+  }
+
+  const frames: Buffer[] = [];
+  for (let partIndex = 0; partIndex < partCount; partIndex++) {
+    const payload = data.subarray(partIndex * sliceSize, (partIndex + 1) * sliceSize);
+    const header = Buffer.alloc(headerSize);
+    header[0] = FRAME_MAGIC[0];
+    header[1] = FRAME_MAGIC[1];
+    header[2] = FRAME_VERSION;
+    header[3] = usesDictionary(options) ? FLAG_DICTIONARY : 0;
+    header[4] = getCodecId(options.codec);
+    header.writeUInt32BE(hashDocumentId(options.documentId), 5);
+    header.writeUInt32BE(options.chunkIndex, 9);
+    header.writeUInt16BE(partIndex, 13);
+    header.writeUInt16BE(partCount, 15);
+    header.writeUInt16BE(payload.length, 17);
+    if (usesDictionary(options)) {
+      header.writeUInt32BE(getDictionaryId(options.dictionary!), BASE_HEADER_SIZE);
+    }
+    header.writeUInt32BE(frameChecksum(header, payload), CRC_OFFSET);
+    frames.push(Buffer.concat([header, payload]));
+  }
+  return frames;
+}
+
+/**
+ * Check whether a frame payload starts with the envelope magic
+ */
+export function isFrameEnvelope(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === FRAME_MAGIC[0] && bytes[1] === FRAME_MAGIC[1];
+}
+
+/**
+ * Parse and validate an enveloped frame
+ *
+ * @param bytes Raw QR payload starting with the envelope magic
+ * @returns Header and payload slice
+ * @throws FrameDecodeError with code `TRUNCATED`, `UNSUPPORTED_VERSION` or `CHECKSUM_MISMATCH`
+ */
+export function readFrame(bytes: Uint8Array): { header: FrameHeader; payload: Buffer } {
+  const frame = Buffer.from(bytes);
+  if (frame.length < BASE_HEADER_SIZE) {
+    throw new FrameDecodeError(
+      'TRUNCATED',
+      `Frame is ${frame.length} bytes, shorter than its header`
+    );
+  }
+
+  const version = frame[2];
+  if (version > FRAME_VERSION) {
+    throw new FrameDecodeError(
+      'UNSUPPORTED_VERSION',
+      `Frame format version ${version} is newer than supported version ${FRAME_VERSION}`
+    );
+  }
+
+  const hasDictionary = (frame[3] & FLAG_DICTIONARY) !== 0;
+  const headerSize = hasDictionary ? BASE_HEADER_SIZE + 4 : BASE_HEADER_SIZE;
+  const payloadLength = frame.length >= headerSize ? frame.readUInt16BE(17) : 0;
+  if (frame.length < headerSize + payloadLength) {
+    throw new FrameDecodeError(
+      'TRUNCATED',
+      `Frame is ${frame.length} bytes, expected ${headerSize + payloadLength}`
+    );
+  }
+
+  const header = frame.subarray(0, headerSize);
+  const payload = frame.subarray(headerSize, headerSize + payloadLength);
+  if (frameChecksum(header, payload) !== frame.readUInt32BE(CRC_OFFSET)) {
+    throw new FrameDecodeError('CHECKSUM_MISMATCH', 'Frame checksum does not match its contents');
+  }
+
+  return {
+    header: {
+      version,
+      codec: getCodecById(frame[4]),
+      documentHash: frame.readUInt32BE(5),
+      chunkIndex: frame.readUInt32BE(9),
+      partIndex: frame.readUInt16BE(13),
+      partCount: frame.readUInt16BE(15),
+      dictionaryId: hasDictionary ? frame.readUInt32BE(BASE_HEADER_SIZE) : undefined,
+    },
+    payload,
+  };
+}
+
+/**
+ * Check whether a payload is an enveloped frame that passes validation
+ */
+export function isValidFrame(bytes: Uint8Array | undefined): boolean {
+  if (!bytes || !isFrameEnvelope(bytes)) {
+    return false;
+  }
+  try {
+    readFrame(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode the frames of one chunk back to text
+ *
+ * Enveloped frames are validated against each other and against the
+ * expected document and chunk. Frames from videos written before the
+ * envelope existed hold bare UTF-8 text.
+ *
+ * @param frames Raw QR payloads of the chunk's frames, in order
+ * @param options Shared dictionary and expected chunk identity
+ * @returns Chunk text
+ * @throws FrameDecodeError if a frame is invalid or does not belong to the chunk
+ */
+export function decodeChunkFrames(frames: Uint8Array[], options: ChunkDecodeOptions = {}): string {
+  if (frames.length === 0 || !isFrameEnvelope(frames[0])) {
+    if (frames.some(isFrameEnvelope)) {
+      throw new FrameDecodeError('CORRUPT_PAYLOAD', 'Chunk mixes enveloped and legacy frames');
+    }
+    return frames.map(frame => Buffer.from(frame).toString('utf8')).join('');
+  }
+
+  const parts = frames.map(bytes => readFrame(bytes));
+  const first = parts[0].header;
+
+  if (
+    options.documentId !== undefined &&
+    first.documentHash !== hashDocumentId(options.documentId)
+  ) {
+    throw new FrameDecodeError(
+      'DOCUMENT_MISMATCH',
+      `Frame belongs to a different document than "${options.documentId}"`
+    );
+  }
+  if (options.chunkIndex !== undefined && first.chunkIndex !== options.chunkIndex) {
+    throw new FrameDecodeError(
+      'CHUNK_MISMATCH',
+      `Frame holds chunk ${first.chunkIndex}, expected chunk ${options.chunkIndex}`
+    );
+  }
+
+  parts.forEach(({ header }, i) => {
+    if (
+      header.documentHash !== first.documentHash ||
+      header.chunkIndex !== first.chunkIndex ||
+      header.codec !== first.codec ||
+      header.dictionaryId !== first.dictionaryId ||
+      header.partIndex !== i
+    ) {
+      throw new FrameDecodeError(
+        'CHUNK_MISMATCH',
+        `Frame ${i} of chunk ${first.chunkIndex} is part ${header.partIndex} of chunk ${header.chunkIndex}`
+      );
+    }
+  });
+  if (first.partCount !== parts.length) {
+    throw new FrameDecodeError(
+      first.partCount > parts.length ? 'MISSING_PARTS' : 'CHUNK_MISMATCH',
+      `Chunk ${first.chunkIndex} has ${first.partCount} frames, got ${parts.length}`
+    );
+  }
+
+  if (first.dictionaryId !== undefined) {
+    checkDictionary(first.dictionaryId, options.dictionary);
+  }
+
+  const data = Buffer.concat(parts.map(part => part.payload));
+  return decompressPayload(
+    data,
+    first.codec,
+    first.dictionaryId !== undefined ? options.dictionary : undefined
+  ).toString('utf8');
+}
+
+/**
+ * CRC32 of a frame, skipping the checksum field itself
+ */
+function frameChecksum(header: Buffer, payload: Buffer): number {
+  return crc32(header.subarray(0, CRC_OFFSET), header.subarray(CRC_OFFSET + 4), payload);
+}
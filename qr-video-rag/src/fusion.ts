@@ -0,0 +1,101 @@
+/**
+ * QR Video RAG - Rank Fusion
+ *
+ * Combining vector and keyword rankings for hybrid search
+ */
+
+import { HybridSearchOptions, QRVideoStoreIndexEntry } from './types';
+
+/** Default rank constant of reciprocal rank fusion */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Check that hybrid search weights and limits are usable
+ */
+export function assertValidHybridOptions(options: HybridSearchOptions): void {
+  const { fusion = 'rrf', vectorWeight = 1, lexicalWeight = 1, rrfK = DEFAULT_RRF_K } = options;
+  if (fusion !== 'rrf' && fusion !== 'weighted') {
+    throw new Error(`Unsupported hybrid fusion "${fusion}", expected rrf or weighted`);
+  }
+  for (const [name, weight] of [
+    ['vectorWeight', vectorWeight],
+    ['lexicalWeight', lexicalWeight],
+  ] as const) {
+    if (!(weight >= 0) || !Number.isFinite(weight)) {
+      throw new Error(`Invalid hybrid ${name} ${weight}, expected a non-negative number`);
+    }
+  }
+  if (vectorWeight === 0 && lexicalWeight === 0) {
+    throw new Error('Hybrid search needs a positive vectorWeight or lexicalWeight');
+  }
+  if (!(rrfK >= 0) || !Number.isFinite(rrfK)) {
+    throw new Error(`Invalid hybrid rrfK ${rrfK}, expected a non-negative number`);
+  }
+  const { candidates } = options;
+  if (candidates !== undefined && (!Number.isInteger(candidates) || candidates < 1)) {
+    throw new Error(`Invalid hybrid candidates ${candidates}, expected a positive integer`);
+  }
+}
+
+/**
+ * Fuse a vector ranking and a keyword ranking into one
+ *
+ * Entries are matched across rankings by document and QR position. The
+ * vector ranking's copy of an entry is kept, with the fused score as
+ * `similarity`.
+ *
+ * @param vectorHits Entries ranked by embedding similarity, best first
+ * @param lexicalHits Entries ranked by BM25 score, best first
+ * @param matchCount Number of fused entries to return
+ * @param options Fusion method and weights
+ * @returns Up to `matchCount` entries, highest fused score first
+ */
+export function fuseRankings(
+  vectorHits: QRVideoStoreIndexEntry[],
+  lexicalHits: QRVideoStoreIndexEntry[],
+  matchCount: number,
+  options: HybridSearchOptions = {}
+): QRVideoStoreIndexEntry[] {
+  const { fusion = 'rrf', vectorWeight = 1, lexicalWeight = 1, rrfK = DEFAULT_RRF_K } = options;
+  const fused = new Map<string, { entry: QRVideoStoreIndexEntry; score: number }>();
+
+  for (const [hits, weight] of [
+    [vectorHits, vectorWeight],
+    [lexicalHits, lexicalWeight],
+  ] as const) {
+    const scores =
+      fusion === 'rrf'
+        ? hits.map((_, rank) => 1 / (rrfK + rank + 1))
+        : normalizeScores(hits.map(hit => hit.similarity ?? 0));
+
+    hits.forEach((hit, i) => {
+      const key = getEntryKey(hit);
+      const current = fused.get(key) ?? { entry: hit, score: 0 };
+      current.score += weight * scores[i];
+      fused.set(key, current);
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, matchCount)
+    .map(({ entry, score }) => ({ ...entry, similarity: score }));
+}
+
+/**
+ * Min-max normalize scores to 0..1; equal scores all become 1
+ */
+function normalizeScores(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return scores.map(score => (range > 0 ? (score - min) / range : 1));
+}
+
+/**
+ * Key identifying an entry across rankings
+ */
+function getEntryKey(entry: QRVideoStoreIndexEntry): string {
+  return [entry.documentId, entry.frameNumber, entry.tileIndex ?? 0, entry.channel ?? 0].join(
+    '\u0000'
+  );
+}
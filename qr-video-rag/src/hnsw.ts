@@ -0,0 +1,523 @@
+/**
+ * QR Video RAG - HNSW
+ *
+ * Approximate nearest-neighbour search over entry embeddings with a
+ * hierarchical navigable small world graph (Malkov & Yashunin, 2016)
+ */
+
+import {
+  HnswIndex,
+  HnswOptions,
+  QRVideoStoreIndexEntry,
+  SearchFilter,
+  SerializedHnswGraph,
+} from './types';
+import { matchesFilter } from './filter';
+
+const DEFAULT_HNSW_OPTIONS: Required<HnswOptions> = {
+  M: 16,
+  efConstruction: 200,
+  efSearch: 50,
+  seed: 1,
+};
+
+/** Highest layer a node can be assigned to */
+const MAX_LEVEL = 16;
+
+/**
+ * Node of the graph, linked to its neighbors on each layer up to its level
+ */
+interface HnswNode {
+  entry: QRVideoStoreIndexEntry;
+  /** Embedding scaled to unit length, so cosine similarity is a dot product */
+  vector: Float64Array;
+  /** Neighbor lists from layer 0 up to the node's level */
+  neighbors: HnswNode[][];
+  /** Nodes whose neighbor lists hold this node, on each layer */
+  linkedFrom: Set<HnswNode>[];
+}
+
+/**
+ * Node found by a layer search, with its cosine distance to the query
+ */
+interface Candidate {
+  node: HnswNode;
+  distance: number;
+}
+
+/**
+ * Check that HNSW parameters are usable
+ */
+export function assertValidHnswOptions(options: HnswOptions): void {
+  const { M, efConstruction, efSearch, seed } = { ...DEFAULT_HNSW_OPTIONS, ...options };
+  if (!Number.isInteger(M) || M < 2) {
+    throw new Error(`Invalid HNSW M ${M}, expected an integer of at least 2`);
+  }
+  for (const [name, value] of [
+    ['efConstruction', efConstruction],
+    ['efSearch', efSearch],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid HNSW ${name} ${value}, expected a positive integer`);
+    }
+  }
+  if (!Number.isInteger(seed)) {
+    throw new Error(`Invalid HNSW seed ${seed}, expected an integer`);
+  }
+}
+
+/**
+ * Create an HNSW index
+ *
+ * The graph is built incrementally: `add` links new entries into it and
+ * `remove` unlinks entries and reconnects the nodes that pointed to them,
+ * which every node tracks so removals do not scan the whole graph.
+ * Searches with a filter widen the candidate list until enough matching
+ * entries are found, falling back to visiting the whole graph.
+ *
+ * @param options Graph parameters
+ * @param entries Optional entries to index right away
+ * @param graph Optional graph serialized for these entries; it is rebuilt
+ * instead if it does not fit them or was built with another M,
+ * efConstruction or seed
+ *
+ * @example
+ * ```typescript
+ * const index = createHnswIndex({ M: 16, efConstruction: 200, efSearch: 64 }, entries);
+ * const nearest = index.search(await embedder.embed(query), 10);
+ * ```
+ */
+export function createHnswIndex(
+  options: HnswOptions = {},
+  entries: QRVideoStoreIndexEntry[] = [],
+  graph?: SerializedHnswGraph
+): HnswIndex {
+  assertValidHnswOptions(options);
+  const settings: Required<HnswOptions> = { ...DEFAULT_HNSW_OPTIONS, ...options };
+  const levelFactor = 1 / Math.log(settings.M);
+  const nodes = new Map<QRVideoStoreIndexEntry, HnswNode>();
+  let random = createRandom(settings.seed);
+  let entryPoint: HnswNode | null = null;
+  let dimensions: number | null = null;
+
+  const toVector = (embedding: number[]): Float64Array => {
+    if (dimensions !== null && embedding.length !== dimensions) {
+      throw new Error('Vectors must have same length');
+    }
+    const vector = Float64Array.from(embedding);
+    const magnitude = Math.sqrt(dot(vector, vector));
+    if (magnitude > 0) {
+      for (let i = 0; i < vector.length; i++) {
+        vector[i] /= magnitude;
+      }
+    }
+    return vector;
+  };
+
+  const maxNeighbors = (layer: number): number => (layer === 0 ? settings.M * 2 : settings.M);
+
+  const createNode = (entry: QRVideoStoreIndexEntry, layers: number): HnswNode => {
+    const node: HnswNode = {
+      entry,
+      vector: toVector(entry.embedding),
+      neighbors: Array.from({ length: layers }, () => []),
+      linkedFrom: Array.from({ length: layers }, () => new Set()),
+    };
+    dimensions = entry.embedding.length;
+    nodes.set(entry, node);
+    return node;
+  };
+
+  // Replace a neighbor list, keeping the reverse links of old and new neighbors in step
+  const setNeighbors = (node: HnswNode, layer: number, neighbors: HnswNode[]): void => {
+    for (const neighbor of node.neighbors[layer]) {
+      neighbor.linkedFrom[layer]?.delete(node);
+    }
+    node.neighbors[layer] = neighbors;
+    for (const neighbor of neighbors) {
+      neighbor.linkedFrom[layer]?.add(node);
+    }
+  };
+
+  const insert = (entry: QRVideoStoreIndexEntry): void => {
+    const level = Math.min(MAX_LEVEL, Math.floor(-Math.log(1 - random()) * levelFactor));
+    const node = createNode(entry, level + 1);
+
+    if (!entryPoint) {
+      entryPoint = node;
+      return;
+    }
+
+    const topLevel = entryPoint.neighbors.length - 1;
+    let closest = [toCandidate(node.vector, entryPoint)];
+    for (let layer = topLevel; layer > level; layer--) {
+      closest = searchLayer(node.vector, closest, 1, layer);
+    }
+    for (let layer = Math.min(level, topLevel); layer >= 0; layer--) {
+      closest = searchLayer(node.vector, closest, settings.efConstruction, layer);
+      setNeighbors(node, layer, selectNeighbors(closest, maxNeighbors(layer)));
+      for (const neighbor of node.neighbors[layer]) {
+        const linked = [...neighbor.neighbors[layer], node];
+        setNeighbors(
+          neighbor,
+          layer,
+          linked.length > maxNeighbors(layer)
+            ? selectNeighbors(rankByDistance(neighbor.vector, linked), maxNeighbors(layer))
+            : linked
+        );
+      }
+    }
+
+    if (level > topLevel) {
+      entryPoint = node;
+    }
+  };
+
+  const index: HnswIndex = {
+    get size(): number {
+      return nodes.size;
+    },
+
+    add(added: QRVideoStoreIndexEntry[]): void {
+      for (const entry of added) {
+        if (!nodes.has(entry)) {
+          insert(entry);
+        }
+      }
+    },
+
+    remove(removed: QRVideoStoreIndexEntry[]): void {
+      const gone = new Set<HnswNode>();
+      for (const entry of removed) {
+        const node = nodes.get(entry);
+        if (node) {
+          gone.add(node);
+          nodes.delete(entry);
+        }
+      }
+      if (gone.size === 0) {
+        return;
+      }
+
+      // Links are not symmetric; reverse links name the nodes that pointed to removed ones
+      const affected = new Map<HnswNode, Set<number>>();
+      for (const removedNode of gone) {
+        removedNode.linkedFrom.forEach((linkedFrom, layer) => {
+          for (const node of linkedFrom) {
+            if (!gone.has(node)) {
+              affected.set(node, (affected.get(node) ?? new Set<number>()).add(layer));
+            }
+          }
+        });
+      }
+
+      // Reconnect them through the neighbors of the removed nodes
+      for (const [node, layers] of affected) {
+        for (const layer of layers) {
+          const candidates = new Set<HnswNode>();
+          for (const neighbor of node.neighbors[layer]) {
+            const replacements = gone.has(neighbor) ? neighbor.neighbors[layer] : [neighbor];
+            for (const candidate of replacements) {
+              if (candidate !== node && !gone.has(candidate)) {
+                candidates.add(candidate);
+              }
+            }
+          }
+          setNeighbors(
+            node,
+            layer,
+            selectNeighbors(rankByDistance(node.vector, [...candidates]), maxNeighbors(layer))
+          );
+        }
+      }
+      for (const removedNode of gone) {
+        removedNode.neighbors.forEach((_, layer) => setNeighbors(removedNode, layer, []));
+      }
+
+      if (entryPoint && gone.has(entryPoint)) {
+        entryPoint = null;
+        for (const node of nodes.values()) {
+          if (!entryPoint || node.neighbors.length > entryPoint.neighbors.length) {
+            entryPoint = node;
+          }
+        }
+      }
+      if (nodes.size === 0) {
+        dimensions = null;
+      }
+    },
+
+    clear(): void {
+      nodes.clear();
+      entryPoint = null;
+      dimensions = null;
+      random = createRandom(settings.seed);
+    },
+
+    search(embedding: number[], limit: number, filter?: SearchFilter): QRVideoStoreIndexEntry[] {
+      if (!entryPoint || limit <= 0) {
+        return [];
+      }
+
+      const query = toVector(embedding);
+      let closest = [toCandidate(query, entryPoint)];
+      for (let layer = entryPoint.neighbors.length - 1; layer > 0; layer--) {
+        closest = searchLayer(query, closest, 1, layer);
+      }
+
+      let ef = Math.max(settings.efSearch, limit);
+      for (;;) {
+        const found = searchLayer(query, closest, ef, 0).filter(candidate =>
+          matchesFilter(candidate.node.entry, filter)
+        );
+        if (found.length >= limit || ef >= nodes.size) {
+          return found
+            .slice(0, limit)
+            .map(({ node, distance }) => ({ ...node.entry, similarity: 1 - distance }));
+        }
+        ef = Math.min(ef * 2, nodes.size);
+      }
+    },
+
+    serialize(stored: QRVideoStoreIndexEntry[]): SerializedHnswGraph {
+      if (stored.length !== nodes.size) {
+        throw new Error(`HNSW index holds ${nodes.size} entries, not ${stored.length}`);
+      }
+      const positions = new Map<HnswNode, number>();
+      stored.forEach((entry, i) => {
+        const node = nodes.get(entry);
+        if (!node) {
+          throw new Error(`Entry ${i} is not in the HNSW index`);
+        }
+        positions.set(node, i);
+      });
+
+      return {
+        options: { ...settings },
+        entryPoint: entryPoint ? positions.get(entryPoint)! : -1,
+        nodes: stored.map(entry =>
+          nodes.get(entry)!.neighbors.map(layer => layer.map(neighbor => positions.get(neighbor)!))
+        ),
+      };
+    },
+  };
+
+  if (graph && fitsGraph(graph, settings, entries)) {
+    const restored = entries.map((entry, i) => createNode(entry, graph.nodes[i].length));
+    graph.nodes.forEach((layers, i) => {
+      layers.forEach((layer, level) =>
+        setNeighbors(
+          restored[i],
+          level,
+          layer.map(position => restored[position])
+        )
+      );
+    });
+    entryPoint = graph.entryPoint >= 0 ? restored[graph.entryPoint] : null;
+    // Continue the level sequence as if the entries had been added one by one
+    for (let i = 0; i < entries.length; i++) {
+      random();
+    }
+  } else {
+    index.add(entries);
+  }
+
+  return index;
+}
+
+/**
+ * Check that a serialized graph was built with the given parameters for the given entries
+ *
+ * `efSearch` only affects queries, so graphs saved with another value still fit.
+ */
+function fitsGraph(
+  graph: SerializedHnswGraph,
+  settings: Required<HnswOptions>,
+  entries: QRVideoStoreIndexEntry[]
+): boolean {
+  const sameOptions = (['M', 'efConstruction', 'seed'] as const).every(
+    key => graph.options?.[key] === settings[key]
+  );
+  const inRange = (position: number) =>
+    Number.isInteger(position) && position >= 0 && position < entries.length;
+
+  return (
+    sameOptions &&
+    Array.isArray(graph.nodes) &&
+    graph.nodes.length === entries.length &&
+    (entries.length === 0 ? graph.entryPoint === -1 : inRange(graph.entryPoint)) &&
+    graph.nodes.every(
+      layers =>
+        Array.isArray(layers) &&
+        layers.length > 0 &&
+        layers.every(layer => Array.isArray(layer) && layer.every(inRange))
+    )
+  );
+}
+
+/**
+ * Beam search of one layer, returning up to `ef` nodes closest to the query, closest first
+ */
+function searchLayer(
+  query: Float64Array,
+  entryPoints: Candidate[],
+  ef: number,
+  layer: number
+): Candidate[] {
+  const visited = new Set<HnswNode>(entryPoints.map(candidate => candidate.node));
+  const candidates = new Heap<Candidate>((a, b) => a.distance - b.distance);
+  const results = new Heap<Candidate>((a, b) => b.distance - a.distance);
+  for (const entryPoint of entryPoints) {
+    candidates.push(entryPoint);
+    results.push(entryPoint);
+  }
+  while (results.size > ef) {
+    results.pop();
+  }
+
+  while (candidates.size > 0) {
+    const current = candidates.pop()!;
+    if (results.size >= ef && current.distance > results.peek()!.distance) {
+      break;
+    }
+    for (const neighbor of current.node.neighbors[layer] ?? []) {
+      if (visited.has(neighbor)) {
+        continue;
+      }
+      visited.add(neighbor);
+      const candidate = toCandidate(query, neighbor);
+      if (results.size < ef || candidate.distance < results.peek()!.distance) {
+        candidates.push(candidate);
+        results.push(candidate);
+        if (results.size > ef) {
+          results.pop();
+        }
+      }
+    }
+  }
+
+  return results.toArray().sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Pick up to `count` neighbors from candidates sorted closest first
+ *
+ * Candidates closer to an already picked neighbor than to the base node are
+ * skipped at first, which keeps links spread out in every direction; the
+ * skipped ones fill any remaining slots.
+ */
+function selectNeighbors(candidates: Candidate[], count: number): HnswNode[] {
+  const selected: Candidate[] = [];
+  const skipped: Candidate[] = [];
+  for (const candidate of candidates) {
+    if (selected.length >= count) {
+      break;
+    }
+    const diverse = selected.every(
+      picked => 1 - dot(candidate.node.vector, picked.node.vector) > candidate.distance
+    );
+    (diverse ? selected : skipped).push(candidate);
+  }
+  for (const candidate of skipped) {
+    if (selected.length >= count) {
+      break;
+    }
+    selected.push(candidate);
+  }
+  return selected.map(candidate => candidate.node);
+}
+
+/**
+ * Nodes with their distance to a vector, closest first
+ */
+function rankByDistance(vector: Float64Array, nodes: HnswNode[]): Candidate[] {
+  return nodes.map(node => toCandidate(vector, node)).sort((a, b) => a.distance - b.distance);
+}
+
+function toCandidate(vector: Float64Array, node: HnswNode): Candidate {
+  return { node, distance: 1 - dot(vector, node.vector) };
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Binary heap ordered by a comparator, smallest first
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) {
+        break;
+      }
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) {
+          smallest = left;
+        }
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
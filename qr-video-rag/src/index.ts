@@ -9,25 +9,102 @@
 // Core classes
 export { QRVideoStoreEncoder } from './encoder';
 export { QRVideoStoreRetriever } from './retriever';
+export { QRVideoCollection } from './collection';
+export { reindexVideo } from './reindex';
+
+// Errors
+export { FrameDecodeError, VideoDecodeError, VideoVerificationError } from './errors';
 
 // Type definitions
 export type {
   QRVideoStoreConfig,
+  PayloadCodec,
+  FrameDecodeErrorCode,
+  TileGrid,
+  ColorMode,
+  FrameParity,
   Chunk,
+  Chunker,
+  ChunkerOptions,
   QRVideoStoreIndexEntry,
+  MetadataValue,
+  MetadataRange,
+  MetadataCondition,
+  SearchFilter,
+  HybridFusion,
+  HybridSearchOptions,
+  Bm25Index,
+  HnswOptions,
+  HnswIndex,
+  SerializedHnswGraph,
+  DatabaseAdapterOptions,
+  EmbeddingQuantization,
+  QuantizationOptions,
+  VectorDatabaseStats,
   VectorDatabase,
   Embedder,
   VideoStorageBackend,
+  S3StorageOptions,
   SearchResult,
   QRVideoStoreStats,
   VideoBuildOptions,
+  VideoPreset,
+  VideoContainer,
+  VideoCodecInfo,
+  VerifyMode,
+  VerificationFailure,
+  VerificationAttempt,
+  VerificationReport,
   FrameExtractionOptions,
+  VideoStreamInfo,
+  QRVideoStoreManifest,
+  QRVideoStoreManifestChunk,
+  QRVideoStoreRetrieverOptions,
+  ReindexOptions,
+  ReindexReport,
+  CompactionReport,
+  VideoCatalogEntry,
+  ShardOptions,
+  VideoShard,
+  ShardLayout,
+  QRVideoCollectionOptions,
 } from './types';
 
+// Chunking strategies
+export {
+  createFixedSizeChunker,
+  createSentenceChunker,
+  createParagraphChunker,
+  createRecursiveChunker,
+  createMarkdownChunker,
+  streamChunks,
+  getChunkId,
+} from './chunkers';
+
+// Search filters, keyword search and vector indexes
+export { matchesFilter } from './filter';
+export { createBm25Index } from './bm25';
+export { createHnswIndex } from './hnsw';
+
+// QR utilities
+export { getQrByteCapacity } from './qr';
+
+// Payload compression
+export { trainPayloadDictionary } from './codecs';
+
+// Video utilities
+export { probeVideo } from './video';
+export { readShardLayout, getShardLayoutPath } from './shards';
+
 // Adapters
 export {
   // Database adapters
   createInMemoryAdapter,
+  createFileAdapter,
+  // Storage adapters
+  createLocalStorageBackend,
+  createInMemoryStorageBackend,
+  createS3StorageBackend,
   // Embedder adapters
   createSimpleEmbedder,
   createCustomEmbedder,
@@ -0,0 +1,141 @@
+/**
+ * QR Video RAG - Embedded Manifest
+ *
+ * Serializes the chunk index into the leading QR frames of a video so the
+ * video can be searched without an external vector database
+ */
+
+import * as zlib from 'zlib';
+import { QRVideoStoreManifest } from './types';
+
+/** Magic bytes identifying a manifest frame */
+export const MANIFEST_MAGIC = Buffer.from('QVRM', 'ascii');
+
+/** Current manifest format version */
+export const MANIFEST_VERSION = 1;
+
+/** Size of the per-frame header: magic, version, part index, part count */
+const PART_HEADER_SIZE = MANIFEST_MAGIC.length + 1 + 2 + 2;
+
+/**
+ * One decoded manifest frame
+ */
+export interface ManifestPart {
+  /** Index of this part (0-indexed) */
+  index: number;
+  /** Total number of manifest frames */
+  count: number;
+  /** Slice of the compressed manifest */
+  data: Buffer;
+}
+
+/**
+ * Split a manifest into binary QR payloads, one per leading frame
+ *
+ * The manifest is JSON, deflate-compressed, then cut into slices of at most
+ * `bytesPerFrame` bytes (including the part header).
+ *
+ * @param manifest Manifest without `manifestFrames`, which is filled in here
+ * @param bytesPerFrame Maximum payload size of one QR frame
+ * @returns Frame payloads in order
+ */
+export function encodeManifestFrames(
+  manifest: Omit<QRVideoStoreManifest, 'manifestFrames' | 'version'>,
+  bytesPerFrame: number
+): Buffer[] {
+  const sliceSize = bytesPerFrame - PART_HEADER_SIZE;
+  if (sliceSize <= 0) {
+    throw new Error(`Manifest frame size must be greater than ${PART_HEADER_SIZE} bytes`);
+  }
+
+  // The frame count is stored in every part header rather than in the JSON,
+  // so the compressed size does not depend on it
+  const compressed = zlib.deflateRawSync(
+    Buffer.from(JSON.stringify({ ...manifest, version: MANIFEST_VERSION }), 'utf8')
+  );
+  const count = Math.max(1, Math.ceil(compressed.length / sliceSize));
+  if (count > 0xffff) {
+    throw new Error(`Manifest too large: ${compressed.length} bytes needs ${count} frames`);
+  }
+
+  const frames: Buffer[] = [];
+  for (let index = 0; index < count; index++) {
+    const header = Buffer.alloc(PART_HEADER_SIZE);
+    MANIFEST_MAGIC.copy(header, 0);
+    header.writeUInt8(MANIFEST_VERSION, MANIFEST_MAGIC.length);
+    header.writeUInt16BE(index, MANIFEST_MAGIC.length + 1);
+    header.writeUInt16BE(count, MANIFEST_MAGIC.length + 3);
+    frames.push(
+      Buffer.concat([header, compressed.subarray(index * sliceSize, (index + 1) * sliceSize)])
+    );
+  }
+
+  return frames;
+}
+
+/**
+ * Parse a manifest frame payload
+ *
+ * @param payload Raw bytes decoded from a QR frame
+ * @returns The manifest part, or null if the payload is not a manifest frame
+ */
+export function decodeManifestPart(payload: Uint8Array): ManifestPart | null {
+  const bytes = Buffer.from(payload);
+  if (
+    bytes.length < PART_HEADER_SIZE ||
+    !bytes.subarray(0, MANIFEST_MAGIC.length).equals(MANIFEST_MAGIC)
+  ) {
+    return null;
+  }
+
+  const version = bytes.readUInt8(MANIFEST_MAGIC.length);
+  if (version > MANIFEST_VERSION) {
+    throw new Error(`Unsupported manifest version ${version}`);
+  }
+
+  return {
+    index: bytes.readUInt16BE(MANIFEST_MAGIC.length + 1),
+    count: bytes.readUInt16BE(MANIFEST_MAGIC.length + 3),
+    data: bytes.subarray(PART_HEADER_SIZE),
+  };
+}
+
+/**
+ * Reassemble and parse a manifest from all of its parts
+ *
+ * @param parts Decoded manifest parts, in any order
+ * @returns The manifest
+ * @throws If a part is missing or the manifest is malformed
+ */
+export function assembleManifest(parts: ManifestPart[]): QRVideoStoreManifest {
+  if (parts.length === 0) {
+    throw new Error('No manifest frames found');
+  }
+
+  const count = parts[0].count;
+  const ordered: Buffer[] = new Array(count);
+  for (const part of parts) {
+    if (part.count !== count || part.index >= count) {
+      throw new Error(`Inconsistent manifest frame ${part.index}/${part.count}`);
+    }
+    ordered[part.index] = part.data;
+  }
+
+  const missing: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (!ordered[i]) {
+      missing.push(i);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing manifest frames: ${missing.join(', ')}`);
+  }
+
+  const json = zlib.inflateRawSync(Buffer.concat(ordered)).toString('utf8');
+  const manifest = JSON.parse(json) as QRVideoStoreManifest;
+  if (!Array.isArray(manifest.chunks) || !manifest.embedder) {
+    throw new Error('Malformed manifest');
+  }
+
+  return { ...manifest, manifestFrames: count };
+}
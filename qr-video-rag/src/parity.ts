@@ -0,0 +1,310 @@
+/**
+ * QR Video RAG - Parity Frames
+ *
+ * Reed-Solomon erasure coding across frames, so QR codes that fail to decode
+ * can be rebuilt from the rest of their parity group
+ */
+
+import { FrameParity } from './types';
+import { FrameDecodeError } from './errors';
+import { crc32 } from './frames';
+
+/**
+ * First two bytes of a parity payload
+ *
+ * Differs from the frame envelope magic in the second byte, so parity QR
+ * codes are never mistaken for chunk data.
+ */
+const PARITY_MAGIC = [0xfe, 0x50];
+
+/** Current parity payload format version */
+export const PARITY_VERSION = 1;
+
+/**
+ * Size of the parity payload header
+ *
+ * Layout (big-endian): magic (2), version (1), group size (1), parity count (1),
+ * parity index (1), data count (1), length (2), CRC32 of the rest (4).
+ */
+export const PARITY_HEADER_SIZE = 13;
+
+/** Byte offset of the CRC32 field */
+const CRC_OFFSET = 9;
+
+/**
+ * Decoded parity payload
+ */
+export interface ParityPart {
+  /** Data frames per group the parity was computed for */
+  groupSize: number;
+  /** Parity frames per group */
+  parityCount: number;
+  /** Index of this parity frame within its group */
+  parityIndex: number;
+  /** Number of leading data frames of the group that hold a QR code at this position */
+  dataCount: number;
+  /** Parity bytes */
+  data: Buffer;
+}
+
+// GF(2^8) arithmetic with the QR code polynomial x^8 + x^4 + x^3 + x^2 + 1
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) {
+      x ^= 0x11d;
+    }
+  }
+  for (let i = 255; i < 512; i++) {
+    GF_EXP[i] = GF_EXP[i - 255];
+  }
+}
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+function gfInv(a: number): number {
+  return GF_EXP[255 - GF_LOG[a]];
+}
+
+/**
+ * Coefficient of a data frame in a parity frame (Cauchy matrix)
+ *
+ * Every square submatrix of a Cauchy matrix is invertible, so any
+ * `parityFrames` erasures in a group can be solved for.
+ */
+function coefficient(parityIndex: number, dataIndex: number, groupSize: number): number {
+  return gfInv((groupSize + parityIndex) ^ dataIndex);
+}
+
+/**
+ * XOR `factor * source` into `target`
+ */
+function addScaled(target: Uint8Array, source: Uint8Array, factor: number): void {
+  if (factor === 0) {
+    return;
+  }
+  const logFactor = GF_LOG[factor];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] !== 0) {
+      target[i] ^= GF_EXP[GF_LOG[source[i]] + logFactor];
+    }
+  }
+}
+
+/**
+ * Ensure a parity configuration can be encoded
+ *
+ * @throws If a count is not a positive integer or the group exceeds 255 frames
+ */
+export function assertValidParity(parity: FrameParity): void {
+  const { dataFrames, parityFrames } = parity;
+  if (
+    !Number.isInteger(dataFrames) ||
+    !Number.isInteger(parityFrames) ||
+    dataFrames < 1 ||
+    parityFrames < 1 ||
+    dataFrames + parityFrames > 255
+  ) {
+    throw new Error(
+      `Parity needs positive integer data and parity frame counts totalling at most 255, got ${dataFrames}+${parityFrames}`
+    );
+  }
+}
+
+/**
+ * Compute the parity payloads for one QR position of a group
+ *
+ * @param data Payloads at this position in the leading data frames of the group
+ * @param parity Group size and parity frame count
+ * @returns One payload per parity frame, each `PARITY_HEADER_SIZE` bytes longer
+ *   than the longest data payload
+ */
+export function encodeParityPayloads(data: Uint8Array[], parity: FrameParity): Buffer[] {
+  if (data.length > parity.dataFrames) {
+    throw new Error(`Parity group holds ${parity.dataFrames} data frames, got ${data.length}`);
+  }
+
+  const length = Math.max(0, ...data.map(payload => payload.length));
+  const payloads: Buffer[] = [];
+
+  for (let parityIndex = 0; parityIndex < parity.parityFrames; parityIndex++) {
+    const bytes = new Uint8Array(length);
+    data.forEach((payload, dataIndex) =>
+      addScaled(bytes, payload, coefficient(parityIndex, dataIndex, parity.dataFrames))
+    );
+
+    const header = Buffer.alloc(PARITY_HEADER_SIZE);
+    header[0] = PARITY_MAGIC[0];
+    header[1] = PARITY_MAGIC[1];
+    header[2] = PARITY_VERSION;
+    header[3] = parity.dataFrames;
+    header[4] = parity.parityFrames;
+    header[5] = parityIndex;
+    header[6] = data.length;
+    header.writeUInt16BE(length, 7);
+    header.writeUInt32BE(crc32(header.subarray(0, CRC_OFFSET), bytes), CRC_OFFSET);
+    payloads.push(Buffer.concat([header, bytes]));
+  }
+
+  return payloads;
+}
+
+/**
+ * Check whether a QR payload is a parity payload
+ */
+export function isParityPayload(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === PARITY_MAGIC[0] && bytes[1] === PARITY_MAGIC[1];
+}
+
+/**
+ * Parse and validate a parity payload
+ *
+ * @throws FrameDecodeError with code `TRUNCATED`, `UNSUPPORTED_VERSION` or `CHECKSUM_MISMATCH`
+ */
+export function readParityPayload(bytes: Uint8Array): ParityPart {
+  const payload = Buffer.from(bytes);
+  if (payload.length < PARITY_HEADER_SIZE) {
+    throw new FrameDecodeError(
+      'TRUNCATED',
+      `Parity payload is ${payload.length} bytes, shorter than its header`
+    );
+  }
+  if (payload[2] > PARITY_VERSION) {
+    throw new FrameDecodeError(
+      'UNSUPPORTED_VERSION',
+      `Parity format version ${payload[2]} is newer than supported version ${PARITY_VERSION}`
+    );
+  }
+
+  const length = payload.readUInt16BE(7);
+  if (payload.length < PARITY_HEADER_SIZE + length) {
+    throw new FrameDecodeError(
+      'TRUNCATED',
+      `Parity payload is ${payload.length} bytes, expected ${PARITY_HEADER_SIZE + length}`
+    );
+  }
+
+  const data = payload.subarray(PARITY_HEADER_SIZE, PARITY_HEADER_SIZE + length);
+  if (crc32(payload.subarray(0, CRC_OFFSET), data) !== payload.readUInt32BE(CRC_OFFSET)) {
+    throw new FrameDecodeError('CHECKSUM_MISMATCH', 'Parity checksum does not match its contents');
+  }
+
+  return {
+    groupSize: payload[3],
+    parityCount: payload[4],
+    parityIndex: payload[5],
+    dataCount: payload[6],
+    data,
+  };
+}
+
+/**
+ * Rebuild the missing data payloads at one QR position of a group
+ *
+ * Rebuilt payloads are zero-padded to the longest payload of the position;
+ * the frame envelope records the real length, so the padding is ignored
+ * when the chunk is decoded.
+ *
+ * @param data Payloads of the group's data frames at this position (undefined = unreadable)
+ * @param parityPayloads Payloads of the group's parity frames (undefined = unreadable)
+ * @param parity Group size and parity frame count
+ * @returns Data payloads with the missing ones filled in, or null if too many are missing
+ */
+export function recoverDataPayloads(
+  data: Array<Uint8Array | undefined>,
+  parityPayloads: Array<Uint8Array | undefined>,
+  parity: FrameParity
+): Array<Uint8Array | undefined> | null {
+  const parts: ParityPart[] = [];
+  for (const payload of parityPayloads) {
+    if (!payload || !isParityPayload(payload)) {
+      continue;
+    }
+    try {
+      const part = readParityPayload(payload);
+      if (part.groupSize === parity.dataFrames) {
+        parts.push(part);
+      }
+    } catch {
+      // An unreadable parity payload counts as one more erasure
+    }
+  }
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const dataCount = parts[0].dataCount;
+  const length = parts[0].data.length;
+  const missing: number[] = [];
+  for (let dataIndex = 0; dataIndex < dataCount; dataIndex++) {
+    if (!data[dataIndex]) {
+      missing.push(dataIndex);
+    }
+  }
+  if (missing.length === 0) {
+    return data;
+  }
+  if (missing.length > parts.length) {
+    return null;
+  }
+
+  // One equation per parity payload: sum of coefficient * missing = parity - known terms
+  const rows = parts.slice(0, missing.length).map(part => {
+    const rhs = Uint8Array.from(part.data);
+    for (let dataIndex = 0; dataIndex < dataCount; dataIndex++) {
+      const known = data[dataIndex];
+      if (known) {
+        addScaled(
+          rhs,
+          known.subarray(0, length),
+          coefficient(part.parityIndex, dataIndex, parity.dataFrames)
+        );
+      }
+    }
+    return {
+      coefficients: missing.map(dataIndex =>
+        coefficient(part.parityIndex, dataIndex, parity.dataFrames)
+      ),
+      rhs,
+    };
+  });
+
+  // Gauss-Jordan elimination over GF(2^8)
+  for (let column = 0; column < missing.length; column++) {
+    const pivot = rows.findIndex((row, i) => i >= column && row.coefficients[column] !== 0);
+    if (pivot < 0) {
+      return null;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    const inverse = gfInv(rows[column].coefficients[column]);
+    rows[column].coefficients = rows[column].coefficients.map(value => gfMul(value, inverse));
+    const scaled = new Uint8Array(length);
+    addScaled(scaled, rows[column].rhs, inverse);
+    rows[column].rhs = scaled;
+
+    rows.forEach((row, i) => {
+      const factor = row.coefficients[column];
+      if (i === column || factor === 0) {
+        return;
+      }
+      row.coefficients = row.coefficients.map(
+        (value, c) => value ^ gfMul(factor, rows[column].coefficients[c])
+      );
+      addScaled(row.rhs, rows[column].rhs, factor);
+    });
+  }
+
+  const recovered = [...data];
+  missing.forEach((dataIndex, i) => {
+    recovered[dataIndex] = Buffer.from(rows[i].rhs);
+  });
+  return recovered;
+}
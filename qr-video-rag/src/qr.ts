@@ -0,0 +1,576 @@
+/**
+ * QR Video RAG - QR Capacity
+ *
+ * Byte capacity of QR symbols and raw frame rendering
+ */
+
+import * as QRCode from 'qrcode';
+import { ColorMode, FrameParity, TileGrid } from './types';
+
+/**
+ * Byte-mode capacity of QR versions 1-40 for each error correction level
+ */
+const BYTE_CAPACITY: Record<'L' | 'M' | 'Q' | 'H', number[]> = {
+  L: [
+    17, 32, 53, 78, 106, 134, 154, 192, 230, 271, 321, 367, 425, 458, 520, 586, 644, 718, 792, 858,
+    929, 1003, 1091, 1171, 1273, 1367, 1465, 1528, 1628, 1732, 1840, 1952, 2068, 2188, 2303, 2431,
+    2563, 2699, 2809, 2953,
+  ],
+  M: [
+    14, 26, 42, 62, 84, 106, 122, 152, 180, 213, 251, 287, 331, 362, 412, 450, 504, 560, 624, 666,
+    711, 779, 857, 911, 997, 1059, 1125, 1190, 1264, 1370, 1452, 1538, 1628, 1722, 1809, 1911, 1989,
+    2099, 2213, 2331,
+  ],
+  Q: [
+    11, 20, 32, 46, 60, 74, 86, 108, 130, 151, 177, 203, 241, 258, 292, 322, 364, 394, 442, 482,
+    509, 565, 611, 661, 715, 751, 805, 868, 908, 982, 1030, 1112, 1168, 1228, 1283, 1351, 1423,
+    1499, 1579, 1663,
+  ],
+  H: [
+    7, 14, 24, 34, 44, 58, 64, 84, 98, 119, 137, 155, 177, 194, 220, 250, 280, 310, 338, 382, 403,
+    439, 461, 511, 535, 593, 625, 658, 698, 742, 790, 842, 898, 958, 983, 1051, 1093, 1139, 1219,
+    1273,
+  ],
+};
+
+/**
+ * Get the number of bytes a QR symbol can hold in byte mode
+ *
+ * @param errorCorrectionLevel QR error correction level
+ * @param maxVersion Largest QR version allowed (1-40)
+ * @returns Byte capacity of the largest allowed version
+ *
+ * @example
+ * ```typescript
+ * getQrByteCapacity('M', 40); // 2331
+ * getQrByteCapacity('H', 10); // 119
+ * ```
+ */
+export function getQrByteCapacity(
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H',
+  maxVersion: number = 40
+): number {
+  if (!Number.isInteger(maxVersion) || maxVersion < 1 || maxVersion > 40) {
+    throw new Error(`QR version must be an integer between 1 and 40, got ${maxVersion}`);
+  }
+  return BYTE_CAPACITY[errorCorrectionLevel][maxVersion - 1];
+}
+
+/** A single QR code filling the whole frame */
+export const WHOLE_FRAME: TileGrid = { columns: 1, rows: 1 };
+
+/**
+ * Arrangement of the QR codes in a frame
+ */
+export interface FrameLayout {
+  tileGrid: TileGrid;
+  colorMode: ColorMode;
+  /** Parity frames following each group of data frames */
+  parity?: FrameParity;
+  /** Number of leading frames, such as the manifest, that are not in a parity group (default: 0) */
+  dataStart?: number;
+}
+
+/**
+ * Position of a QR code in a video
+ *
+ * `tileIndex` and `channel` are only set when the layout has several tiles
+ * or color planes.
+ */
+export interface QrPosition {
+  frameNumber: number;
+  tileIndex?: number;
+  channel?: number;
+}
+
+/** Layout of a frame holding one black-and-white QR code, such as a manifest frame */
+export const SINGLE_QR_LAYOUT: FrameLayout = { tileGrid: WHOLE_FRAME, colorMode: 'mono' };
+
+/**
+ * Luma/chroma levels of dark and light modules in `yuv` mode
+ *
+ * Every combination of the three planes maps to an RGB color inside the
+ * gamut, so no plane is clipped when FFmpeg converts to and from RGB.
+ */
+const YUV_LEVELS = {
+  y: [80, 176],
+  u: [88, 168],
+  v: [80, 176],
+};
+
+/**
+ * Number of QR symbols stored in each tile
+ */
+export function getChannelCount(colorMode: ColorMode): number {
+  return colorMode === 'mono' ? 1 : 3;
+}
+
+/**
+ * Ensure a color mode is one of the supported modes
+ *
+ * @throws If the mode is unknown
+ */
+export function assertValidColorMode(colorMode: ColorMode): void {
+  if (!['mono', 'rgb', 'yuv'].includes(colorMode)) {
+    throw new Error(`Unknown color mode "${colorMode}", expected mono, rgb or yuv`);
+  }
+}
+
+/**
+ * Number of QR codes a frame holds
+ */
+export function getQrCodesPerFrame(layout: FrameLayout): number {
+  return getTilesPerFrame(layout.tileGrid) * getChannelCount(layout.colorMode);
+}
+
+/**
+ * Sequence number of a QR code in a video
+ *
+ * QR codes are numbered by frame, then tile, then color plane, so the QR
+ * codes of a chunk always have consecutive slots. Parity frames are left
+ * out of the numbering.
+ *
+ * @throws If the position is in a parity frame
+ */
+export function getQrSlot(position: QrPosition, layout: FrameLayout): number {
+  const channels = getChannelCount(layout.colorMode);
+  return (
+    toDataFrame(position.frameNumber, layout) * getQrCodesPerFrame(layout) +
+    (position.tileIndex ?? 0) * channels +
+    (position.channel ?? 0)
+  );
+}
+
+/**
+ * Position of the QR code with the given slot
+ *
+ * @see getQrSlot
+ */
+export function getQrPosition(slot: number, layout: FrameLayout): QrPosition {
+  const channels = getChannelCount(layout.colorMode);
+  const perFrame = getQrCodesPerFrame(layout);
+  const tileIndex = Math.floor((slot % perFrame) / channels);
+  return {
+    frameNumber: toVideoFrame(Math.floor(slot / perFrame), layout),
+    tileIndex: getTilesPerFrame(layout.tileGrid) > 1 ? tileIndex : undefined,
+    channel: channels > 1 ? slot % channels : undefined,
+  };
+}
+
+/**
+ * Index of a frame among the data frames, counting frames before `dataStart` too
+ *
+ * @throws If the frame is a parity frame
+ */
+function toDataFrame(frameNumber: number, layout: FrameLayout): number {
+  const dataStart = layout.dataStart ?? 0;
+  if (!layout.parity || frameNumber < dataStart) {
+    return frameNumber;
+  }
+  const { dataFrames, parityFrames } = layout.parity;
+  const offset = frameNumber - dataStart;
+  const group = Math.floor(offset / (dataFrames + parityFrames));
+  const index = offset % (dataFrames + parityFrames);
+  if (index >= dataFrames) {
+    throw new Error(`Frame ${frameNumber} is a parity frame`);
+  }
+  return dataStart + group * dataFrames + index;
+}
+
+/**
+ * Video frame of a data frame index
+ *
+ * @see toDataFrame
+ */
+function toVideoFrame(dataFrame: number, layout: FrameLayout): number {
+  const dataStart = layout.dataStart ?? 0;
+  if (!layout.parity || dataFrame < dataStart) {
+    return dataFrame;
+  }
+  const { dataFrames, parityFrames } = layout.parity;
+  const offset = dataFrame - dataStart;
+  return (
+    dataStart +
+    Math.floor(offset / dataFrames) * (dataFrames + parityFrames) +
+    (offset % dataFrames)
+  );
+}
+
+/**
+ * Data and parity frames of the parity group holding a frame
+ *
+ * Groups hold `dataFrames` data frames followed by `parityFrames` parity
+ * frames; the last group of a video may hold fewer data frames.
+ *
+ * @param frameNumber Any frame of the group, at or after `dataStart`
+ * @param layout Frame layout with parity
+ * @param frameCount Number of frames in the video
+ */
+export function getParityGroup(
+  frameNumber: number,
+  layout: FrameLayout & { parity: FrameParity },
+  frameCount: number
+): { dataFrames: number[]; parityFrames: number[] } {
+  const { dataFrames, parityFrames } = layout.parity;
+  const dataStart = layout.dataStart ?? 0;
+  const groupSize = dataFrames + parityFrames;
+  const start = dataStart + Math.floor((frameNumber - dataStart) / groupSize) * groupSize;
+  const count = Math.max(0, Math.min(dataFrames, frameCount - start - parityFrames));
+  const range = (first: number, length: number) => Array.from({ length }, (_, i) => first + i);
+  return { dataFrames: range(start, count), parityFrames: range(start + count, parityFrames) };
+}
+
+/**
+ * Check whether a frame holds parity rather than data
+ *
+ * @param frameNumber Frame to check
+ * @param layout Frame layout
+ * @param frameCount Number of frames in the video
+ */
+export function isParityFrame(
+  frameNumber: number,
+  layout: FrameLayout,
+  frameCount: number
+): boolean {
+  if (!layout.parity || frameNumber < (layout.dataStart ?? 0)) {
+    return false;
+  }
+  const group = getParityGroup(frameNumber, { ...layout, parity: layout.parity }, frameCount);
+  return group.parityFrames.includes(frameNumber);
+}
+
+/**
+ * Number of data frames, including frames before `dataStart`, in a video
+ *
+ * @param frameCount Number of frames in the video
+ * @param layout Frame layout
+ */
+export function getDataFrameCount(frameCount: number, layout: FrameLayout): number {
+  const dataStart = layout.dataStart ?? 0;
+  if (!layout.parity || frameCount <= dataStart) {
+    return frameCount;
+  }
+  const { dataFrames, parityFrames } = layout.parity;
+  const groupSize = dataFrames + parityFrames;
+  const offset = frameCount - dataStart;
+  return (
+    dataStart +
+    Math.floor(offset / groupSize) * dataFrames +
+    Math.max(0, (offset % groupSize) - parityFrames)
+  );
+}
+
+/**
+ * Describe the position of a QR code for log messages
+ */
+export function formatQrPosition(position: QrPosition): string {
+  const tile = position.tileIndex !== undefined ? ` tile ${position.tileIndex}` : '';
+  const channel = position.channel !== undefined ? ` channel ${position.channel}` : '';
+  return `frame ${position.frameNumber}${tile}${channel}`;
+}
+
+/**
+ * Number of tiles in a frame
+ */
+export function getTilesPerFrame(grid: TileGrid): number {
+  return grid.columns * grid.rows;
+}
+
+/**
+ * Ensure a tile grid has at least one whole column and row
+ *
+ * @throws If the grid is not made of positive integers
+ */
+export function assertValidTileGrid(grid: TileGrid): void {
+  if (
+    !Number.isInteger(grid.columns) ||
+    !Number.isInteger(grid.rows) ||
+    grid.columns < 1 ||
+    grid.rows < 1
+  ) {
+    throw new Error(
+      `Tile grid must have positive integer columns and rows, got ${grid.columns}x${grid.rows}`
+    );
+  }
+}
+
+/**
+ * Pixel rectangle of a tile, numbered row by row from the top-left corner
+ *
+ * @param width Frame width in pixels
+ * @param height Frame height in pixels
+ * @param grid Tile grid
+ * @param tileIndex Tile number (0-indexed)
+ */
+export function getTileRect(
+  width: number,
+  height: number,
+  grid: TileGrid,
+  tileIndex: number
+): { x: number; y: number; width: number; height: number } {
+  const tileWidth = Math.floor(width / grid.columns);
+  const tileHeight = Math.floor(height / grid.rows);
+  return {
+    x: (tileIndex % grid.columns) * tileWidth,
+    y: Math.floor(tileIndex / grid.columns) * tileHeight,
+    width: tileWidth,
+    height: tileHeight,
+  };
+}
+
+/**
+ * Get the largest QR version that can be drawn in the tiles of a frame
+ *
+ * A symbol of version v has `17 + 4v` modules plus a one-module quiet zone
+ * on each side, and `renderQrCodes` draws color-multiplexed frames with at
+ * least 2 pixels per module.
+ *
+ * @param width Frame width in pixels
+ * @param height Frame height in pixels
+ * @param layout Tile grid and color mode
+ * @returns QR version (1-40)
+ * @throws If the tiles are too small for a version 1 symbol
+ */
+export function getMaxQrVersionForTiles(
+  width: number,
+  height: number,
+  layout: Pick<FrameLayout, 'tileGrid' | 'colorMode'>
+): number {
+  const tile = getTileRect(width, height, layout.tileGrid, 0);
+  const moduleStep = layout.colorMode === 'mono' ? 1 : 2;
+  const modules = Math.floor(Math.min(tile.width, tile.height) / moduleStep) - 2;
+  const version = Math.min(Math.floor((modules - 17) / 4), 40);
+  if (version < 1) {
+    throw new Error(
+      `Tile of ${tile.width}x${tile.height} pixels is too small for a QR symbol in ${layout.colorMode} mode`
+    );
+  }
+  return version;
+}
+
+/**
+ * Render byte-mode QR codes into the tiles of a raw 8-bit grayscale frame
+ *
+ * Each symbol is drawn with a one-module quiet zone at the largest whole
+ * number of pixels per module that fits its tile, centered in the tile.
+ * Tiles without a payload stay white.
+ *
+ * @param payloads Payloads of the first `payloads.length` tiles (undefined = empty tile)
+ * @param width Frame width in pixels
+ * @param height Frame height in pixels
+ * @param grid Tile grid
+ * @param errorCorrectionLevel QR error correction level
+ * @param moduleStep Module size and position are rounded down to multiples of this many pixels
+ * @returns `width * height` bytes, one per pixel (0 = black, 255 = white)
+ * @throws If a tile is too small to draw `moduleStep` pixels per module
+ */
+export function renderQrTiles(
+  payloads: Array<Buffer | undefined>,
+  width: number,
+  height: number,
+  grid: TileGrid,
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H',
+  moduleStep: number = 1
+): Buffer {
+  const frame = Buffer.alloc(width * height, 255);
+
+  payloads.forEach((data, tileIndex) => {
+    if (!data) {
+      return;
+    }
+    const tile = getTileRect(width, height, grid, tileIndex);
+    const qr = QRCode.create([{ data, mode: 'byte' }], { errorCorrectionLevel });
+    const size = qr.modules.size;
+    const fit = Math.floor(Math.min(tile.width, tile.height) / (size + 2));
+    const scale = fit - (fit % moduleStep);
+    if (scale < 1) {
+      throw new Error(
+        `Tile of ${tile.width}x${tile.height} pixels is too small for a QR symbol of ${size} modules`
+      );
+    }
+
+    const alignDown = (value: number) => value - (value % moduleStep);
+    const left = alignDown(tile.x + Math.floor((tile.width - size * scale) / 2));
+    const top = alignDown(tile.y + Math.floor((tile.height - size * scale) / 2));
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!qr.modules.get(x, y)) {
+          continue;
+        }
+        for (let dy = 0; dy < scale; dy++) {
+          const offset = (top + y * scale + dy) * width + left + x * scale;
+          frame.fill(0, offset, offset + scale);
+        }
+      }
+    }
+  });
+
+  return frame;
+}
+
+/**
+ * Render one byte-mode QR code into a raw 8-bit grayscale frame
+ *
+ * @see renderQrTiles
+ */
+export function renderQrFrame(
+  data: Buffer,
+  width: number,
+  height: number,
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H'
+): Buffer {
+  return renderQrTiles([data], width, height, WHOLE_FRAME, errorCorrectionLevel);
+}
+
+/**
+ * Render the QR codes of one frame in the raw format of its color mode
+ *
+ * In `mono` mode this is a grayscale frame (see `renderQrTiles`). In `rgb`
+ * and `yuv` mode the payloads fill the color planes of each tile in turn
+ * and the result is a packed RGB24 frame. Modules are then aligned to
+ * 2x2 pixel blocks, so yuv420p chroma subsampling averages whole modules.
+ *
+ * @param payloads Payloads in slot order, at most `getQrCodesPerFrame(layout)` (undefined = empty)
+ * @param width Frame width in pixels
+ * @param height Frame height in pixels
+ * @param layout Tile grid and color mode
+ * @param errorCorrectionLevel QR error correction level
+ * @returns Gray frame of `width * height` bytes, or RGB24 frame of three times that
+ */
+export function renderQrCodes(
+  payloads: Array<Buffer | undefined>,
+  width: number,
+  height: number,
+  layout: FrameLayout,
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H'
+): Buffer {
+  if (layout.colorMode === 'mono') {
+    return renderQrTiles(payloads, width, height, layout.tileGrid, errorCorrectionLevel);
+  }
+
+  const planes = [0, 1, 2].map(channel =>
+    renderQrTiles(
+      payloads.filter((_, slot) => slot % 3 === channel),
+      width,
+      height,
+      layout.tileGrid,
+      errorCorrectionLevel,
+      2
+    )
+  );
+  return multiplexPlanes(planes, layout.colorMode);
+}
+
+/**
+ * Combine three grayscale QR planes into a packed RGB24 frame
+ */
+function multiplexPlanes(planes: Buffer[], colorMode: ColorMode): Buffer {
+  const frame = Buffer.alloc(planes[0].length * 3);
+
+  for (let i = 0; i < planes[0].length; i++) {
+    const bits = planes.map(plane => (plane[i] < 128 ? 0 : 1));
+    if (colorMode === 'rgb') {
+      frame[i * 3] = bits[0] * 255;
+      frame[i * 3 + 1] = bits[1] * 255;
+      frame[i * 3 + 2] = bits[2] * 255;
+      continue;
+    }
+
+    // BT.601 YUV to RGB
+    const y = YUV_LEVELS.y[bits[0]];
+    const u = YUV_LEVELS.u[bits[1]] - 128;
+    const v = YUV_LEVELS.v[bits[2]] - 128;
+    frame[i * 3] = clampByte(y + 1.402 * v);
+    frame[i * 3 + 1] = clampByte(y - 0.344136 * u - 0.714136 * v);
+    frame[i * 3 + 2] = clampByte(y + 1.772 * u);
+  }
+
+  return frame;
+}
+
+/**
+ * Split RGBA pixels into one black-and-white RGBA image per color plane
+ *
+ * Inverse of the multiplexing in `renderQrCodes`; each plane is thresholded
+ * halfway between its dark and light level so jsQR sees a clean symbol.
+ *
+ * @param pixels RGBA pixels of a frame or tile
+ * @param colorMode Color mode of the video
+ * @returns One RGBA image per channel (the input itself in `mono` mode)
+ */
+export function demultiplexPixels(
+  pixels: Uint8ClampedArray,
+  colorMode: ColorMode
+): Uint8ClampedArray[] {
+  if (colorMode === 'mono') {
+    return [pixels];
+  }
+
+  const planes = [0, 1, 2].map(() => new Uint8ClampedArray(pixels.length));
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const values =
+      colorMode === 'rgb'
+        ? [r, g, b]
+        : [
+            0.299 * r + 0.587 * g + 0.114 * b,
+            -0.168736 * r - 0.331264 * g + 0.5 * b + 128,
+            0.5 * r - 0.418688 * g - 0.081312 * b + 128,
+          ];
+    values.forEach((value, channel) => {
+      const level = value < 128 ? 0 : 255;
+      planes[channel].fill(level, i, i + 3);
+      planes[channel][i + 3] = 255;
+    });
+  }
+  return planes;
+}
+
+/**
+ * Check whether an RGBA tile or plane holds no dark pixels, i.e. no QR code was drawn in it
+ */
+export function isBlankPlane(pixels: Uint8ClampedArray): boolean {
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i] < 128) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+/**
+ * Copy the RGBA pixels of one tile out of a frame
+ *
+ * @param pixels RGBA pixels of the whole frame
+ * @param width Frame width in pixels
+ * @param height Frame height in pixels
+ * @param grid Tile grid
+ * @param tileIndex Tile number (0-indexed)
+ * @returns RGBA pixels and size of the tile
+ */
+export function cropTile(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  grid: TileGrid,
+  tileIndex: number
+): { pixels: Uint8ClampedArray; width: number; height: number } {
+  if (getTilesPerFrame(grid) === 1) {
+    return { pixels, width, height };
+  }
+
+  const tile = getTileRect(width, height, grid, tileIndex);
+  const cropped = new Uint8ClampedArray(tile.width * tile.height * 4);
+  for (let y = 0; y < tile.height; y++) {
+    const start = ((tile.y + y) * width + tile.x) * 4;
+    cropped.set(pixels.subarray(start, start + tile.width * 4), y * tile.width * 4);
+  }
+  return { pixels: cropped, width: tile.width, height: tile.height };
+}
@@ -0,0 +1,417 @@
+/**
+ * QR Video RAG - Quantization
+ *
+ * Compact storage of entry embeddings as float32, int8 or binary codes, with
+ * a similarity kernel for each format
+ */
+
+import {
+  EmbeddingQuantization,
+  QRVideoStoreIndexEntry,
+  QuantizationOptions,
+  SearchFilter,
+  VectorDatabaseStats,
+} from './types';
+import { matchesFilter } from './filter';
+
+const QUANTIZATION_TYPES: EmbeddingQuantization[] = ['float64', 'float32', 'int8', 'binary'];
+
+const DEFAULT_OVERSAMPLE = 4;
+
+/** Bytes of the float32 scale held next to int8 and binary codes */
+const SCALE_BYTES = 4;
+
+/** Bytes before the codes of a serialized embedding: dimensions (uint32) and scale (float32) */
+const HEADER_BYTES = 8;
+
+/**
+ * Embedding in a quantized storage format
+ */
+interface QuantizedEmbedding {
+  dimensions: number;
+  /** float32 components, int8 codes or sign bits (32 per word) */
+  data: Float32Array | Int8Array | Uint32Array;
+  /** Magnitude of one code step, restoring approximate components from int8 or binary codes */
+  scale: number;
+}
+
+/**
+ * Query embedding prepared once for comparison with many quantized embeddings
+ */
+interface PreparedQuery {
+  /** Query scaled to unit length */
+  unit: Float64Array;
+  /** Sign bits of the query, for binary embeddings */
+  bits: Uint32Array;
+}
+
+/**
+ * Encoding and similarity kernel of one quantized format
+ */
+interface EmbeddingCodec {
+  encode(embedding: number[]): QuantizedEmbedding;
+  decode(quantized: QuantizedEmbedding): number[];
+  /** Cosine similarity, or its estimate for binary codes */
+  similarity(query: PreparedQuery, quantized: QuantizedEmbedding): number;
+  /** Bytes of the codes of one embedding */
+  codeBytes(dimensions: number): number;
+  /** Whether embeddings keep a scale next to their codes */
+  scaled: boolean;
+  /** Typed array of the codes in serialized bytes */
+  view(bytes: ArrayBuffer): QuantizedEmbedding['data'];
+}
+
+const CODECS: Record<Exclude<EmbeddingQuantization, 'float64'>, EmbeddingCodec> = {
+  float32: {
+    encode: embedding => ({
+      dimensions: embedding.length,
+      data: Float32Array.from(embedding),
+      scale: 1,
+    }),
+    decode: ({ data }) => Array.from(data),
+    similarity: ({ unit }, { data }) => cosineToUnit(unit, data),
+    codeBytes: dimensions => dimensions * 4,
+    scaled: false,
+    view: bytes => new Float32Array(bytes),
+  },
+
+  // Symmetric scalar quantization with one scale per embedding. The scale
+  // cancels out of cosine similarity, so codes are compared directly.
+  int8: {
+    encode: embedding => {
+      const maxAbs = embedding.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+      const scale = Math.fround(maxAbs / 127);
+      return {
+        dimensions: embedding.length,
+        data: Int8Array.from(embedding, value => (scale > 0 ? Math.round(value / scale) : 0)),
+        scale,
+      };
+    },
+    decode: ({ data, scale }) => Array.from(data, code => code * scale),
+    similarity: ({ unit }, { data }) => cosineToUnit(unit, data),
+    codeBytes: dimensions => dimensions,
+    scaled: true,
+    view: bytes => new Int8Array(bytes),
+  },
+
+  // Sign bits; the share of differing signs estimates the angle between embeddings
+  binary: {
+    encode: embedding => {
+      const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+      return {
+        dimensions: embedding.length,
+        data: toSignBits(embedding),
+        scale: Math.fround(embedding.length > 0 ? norm / Math.sqrt(embedding.length) : 0),
+      };
+    },
+    decode: ({ dimensions, data, scale }) =>
+      Array.from({ length: dimensions }, (_, i) =>
+        data[i >>> 5] & (1 << (i & 31)) ? scale : -scale
+      ),
+    similarity: ({ bits }, { dimensions, data }) => {
+      let differing = 0;
+      for (let i = 0; i < data.length; i++) {
+        differing += popCount((bits[i] ^ data[i]) >>> 0);
+      }
+      return dimensions > 0 ? 1 - (2 * differing) / dimensions : 0;
+    },
+    codeBytes: dimensions => Math.ceil(dimensions / 32) * 4,
+    scaled: true,
+    view: bytes => new Uint32Array(bytes),
+  },
+};
+
+/**
+ * Embeddings of a database's entries in their storage format
+ *
+ * Entries handed to `add` or `restore` come back in stored form: with the
+ * quantized formats, their `embedding` is emptied (or kept for re-scoring) and
+ * the codes are held separately, keyed by the stored entry. `expand` turns a
+ * stored entry back into one with a full-length embedding.
+ */
+export interface EmbeddingStore {
+  /** Resolved storage options */
+  readonly options: Required<QuantizationOptions>;
+  /** Encode entries and return them in stored form, as a new array */
+  add(entries: QRVideoStoreIndexEntry[]): QRVideoStoreIndexEntry[];
+  /**
+   * Return entries read from disk in stored form, reusing their serialized
+   * codes when they were saved in this store's format and re-encoding them otherwise
+   */
+  restore(
+    entries: QRVideoStoreIndexEntry[],
+    saved?: QuantizationOptions,
+    encoded?: string[]
+  ): QRVideoStoreIndexEntry[];
+  /** Stored entry with its (dequantized) embedding */
+  expand(entry: QRVideoStoreIndexEntry): QRVideoStoreIndexEntry;
+  /** Rank the stored entries matching a filter by similarity and return the top N */
+  search(
+    entries: QRVideoStoreIndexEntry[],
+    embedding: number[],
+    limit: number,
+    filter?: SearchFilter
+  ): QRVideoStoreIndexEntry[];
+  /** Codes of the stored entries as base64, or undefined for float64 */
+  serialize(entries: QRVideoStoreIndexEntry[]): string[] | undefined;
+  /** Memory taken by the embeddings of the stored entries */
+  getStats(entries: QRVideoStoreIndexEntry[]): VectorDatabaseStats;
+}
+
+/**
+ * Check that quantization options are usable
+ */
+export function assertValidQuantizationOptions(options: QuantizationOptions): void {
+  if (!QUANTIZATION_TYPES.includes(options.type)) {
+    throw new Error(
+      `Unsupported quantization "${options.type}", expected ${QUANTIZATION_TYPES.join(', ')}`
+    );
+  }
+  const { oversample } = options;
+  if (oversample !== undefined && (!Number.isInteger(oversample) || oversample < 1)) {
+    throw new Error(`Invalid quantization oversample ${oversample}, expected a positive integer`);
+  }
+}
+
+/**
+ * Create the embedding storage of a database adapter
+ *
+ * float64 keeps embeddings as given and ranks by exact cosine similarity.
+ * float32 and int8 rank by cosine similarity to the codes; binary ranks by the
+ * share of matching signs. With `rescore`, the full embeddings are kept and the
+ * best `limit × oversample` quantized matches are re-ranked exactly.
+ *
+ * @param options Storage format (default: float64)
+ * @returns Embedding store, empty until entries are added
+ */
+export function createEmbeddingStore(
+  options: QuantizationOptions = { type: 'float64' }
+): EmbeddingStore {
+  assertValidQuantizationOptions(options);
+  const resolved: Required<QuantizationOptions> = {
+    type: options.type,
+    rescore: options.rescore ?? false,
+    oversample: options.oversample ?? DEFAULT_OVERSAMPLE,
+  };
+  const codec = resolved.type === 'float64' ? null : CODECS[resolved.type];
+  const codes = new WeakMap<QRVideoStoreIndexEntry, QuantizedEmbedding>();
+
+  const store = (entry: QRVideoStoreIndexEntry, quantized: QuantizedEmbedding) => {
+    const stored = resolved.rescore ? { ...entry } : { ...entry, embedding: [] };
+    codes.set(stored, quantized);
+    return stored;
+  };
+
+  const getCodes = (entry: QRVideoStoreIndexEntry): QuantizedEmbedding => {
+    const quantized = codes.get(entry);
+    if (!quantized) {
+      throw new Error(`Entry ${entry.documentId}#${entry.frameNumber} is not in this store`);
+    }
+    return quantized;
+  };
+
+  const add = (entries: QRVideoStoreIndexEntry[]): QRVideoStoreIndexEntry[] =>
+    codec ? entries.map(entry => store(entry, codec.encode(entry.embedding))) : [...entries];
+
+  const expand = (entry: QRVideoStoreIndexEntry): QRVideoStoreIndexEntry =>
+    !codec || entry.embedding.length > 0
+      ? entry
+      : { ...entry, embedding: codec.decode(getCodes(entry)) };
+
+  return {
+    options: resolved,
+    add,
+    expand,
+
+    restore(
+      entries: QRVideoStoreIndexEntry[],
+      saved: QuantizationOptions = { type: 'float64' },
+      encoded?: string[]
+    ): QRVideoStoreIndexEntry[] {
+      if (saved.type !== 'float64' && (!encoded || encoded.length !== entries.length)) {
+        throw new Error(`Missing ${saved.type} embeddings for ${entries.length} entries`);
+      }
+      const savedCodec = saved.type === 'float64' ? null : CODECS[saved.type];
+      const full = entries.map((entry, i) => {
+        if (!savedCodec || (saved.rescore && entry.embedding.length > 0)) {
+          return entry;
+        }
+        const quantized = fromBase64(savedCodec, encoded![i]);
+        if (codec && saved.type === resolved.type) {
+          return { entry, quantized };
+        }
+        return { ...entry, embedding: savedCodec.decode(quantized) };
+      });
+
+      return full.map(item =>
+        'quantized' in item ? store(item.entry, item.quantized) : add([item])[0]
+      );
+    },
+
+    search(
+      entries: QRVideoStoreIndexEntry[],
+      embedding: number[],
+      limit: number,
+      filter?: SearchFilter
+    ): QRVideoStoreIndexEntry[] {
+      const candidates = filter ? entries.filter(entry => matchesFilter(entry, filter)) : entries;
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      if (!codec) {
+        return rank(candidates, entry => cosineSimilarity(embedding, entry.embedding), limit).map(
+          ({ entry, similarity }) => ({ ...entry, similarity })
+        );
+      }
+
+      const query = prepareQuery(embedding);
+      let results = rank(
+        candidates,
+        entry => {
+          const quantized = getCodes(entry);
+          if (quantized.dimensions !== embedding.length) {
+            throw new Error('Vectors must have same length');
+          }
+          return codec.similarity(query, quantized);
+        },
+        resolved.rescore ? limit * resolved.oversample : limit
+      );
+      if (resolved.rescore) {
+        results = rank(
+          results.map(result => result.entry),
+          entry => cosineSimilarity(embedding, entry.embedding),
+          limit
+        );
+      }
+      return results.map(({ entry, similarity }) => ({ ...expand(entry), similarity }));
+    },
+
+    serialize(entries: QRVideoStoreIndexEntry[]): string[] | undefined {
+      return codec ? entries.map(entry => toBase64(getCodes(entry))) : undefined;
+    },
+
+    getStats(entries: QRVideoStoreIndexEntry[]): VectorDatabaseStats {
+      let embeddingMemoryBytes = 0;
+      let unquantizedBytes = 0;
+      for (const entry of entries) {
+        const dimensions = codec ? getCodes(entry).dimensions : entry.embedding.length;
+        unquantizedBytes += dimensions * 8;
+        if (codec) {
+          embeddingMemoryBytes += codec.codeBytes(dimensions) + (codec.scaled ? SCALE_BYTES : 0);
+        }
+        embeddingMemoryBytes += !codec || resolved.rescore ? dimensions * 8 : 0;
+      }
+      return {
+        entryCount: entries.length,
+        dimensions: entries.length > 0 ? unquantizedBytes / 8 / entries.length : 0,
+        quantization: resolved.type,
+        embeddingMemoryBytes,
+        unquantizedBytes,
+      };
+    },
+  };
+}
+
+/**
+ * Score entries and keep the `limit` most similar, highest first
+ */
+function rank(
+  entries: QRVideoStoreIndexEntry[],
+  score: (entry: QRVideoStoreIndexEntry) => number,
+  limit: number
+): { entry: QRVideoStoreIndexEntry; similarity: number }[] {
+  return entries
+    .map(entry => ({ entry, similarity: score(entry) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+function prepareQuery(embedding: number[]): PreparedQuery {
+  const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+  return {
+    unit: Float64Array.from(embedding, value => (norm > 0 ? value / norm : 0)),
+    bits: toSignBits(embedding),
+  };
+}
+
+function toSignBits(embedding: number[]): Uint32Array {
+  const bits = new Uint32Array(Math.ceil(embedding.length / 32));
+  embedding.forEach((value, i) => {
+    if (value > 0) {
+      bits[i >>> 5] |= 1 << (i & 31);
+    }
+  });
+  return bits;
+}
+
+function popCount(word: number): number {
+  let count = 0;
+  for (let bits = word; bits !== 0; bits &= bits - 1) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Cosine similarity between a unit-length query and codes of any scale
+ */
+function cosineToUnit(unit: Float64Array, data: Float32Array | Int8Array | Uint32Array): number {
+  let dotProduct = 0;
+  let magnitude = 0;
+  for (let i = 0; i < data.length; i++) {
+    dotProduct += unit[i] * data[i];
+    magnitude += data[i] * data[i];
+  }
+  return magnitude > 0 ? dotProduct / Math.sqrt(magnitude) : 0;
+}
+
+/**
+ * Calculate cosine similarity between two vectors
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have same length');
+  }
+
+  let dotProduct = 0;
+  let magA = 0;
+  let magB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    magA += a[i] * a[i];
+    magB += b[i] * b[i];
+  }
+
+  magA = Math.sqrt(magA);
+  magB = Math.sqrt(magB);
+
+  if (magA === 0 || magB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (magA * magB);
+}
+
+/**
+ * Serialize codes as base64: dimensions (uint32 LE), scale (float32 LE), then the codes
+ */
+function toBase64({ dimensions, data, scale }: QuantizedEmbedding): string {
+  const header = Buffer.alloc(HEADER_BYTES);
+  header.writeUInt32LE(dimensions, 0);
+  header.writeFloatLE(scale, 4);
+  const body = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  return Buffer.concat([header, body]).toString('base64');
+}
+
+function fromBase64(codec: EmbeddingCodec, encoded: string): QuantizedEmbedding {
+  const bytes = Buffer.from(encoded, 'base64');
+  const dimensions = bytes.length >= HEADER_BYTES ? bytes.readUInt32LE(0) : -1;
+  if (dimensions < 0 || bytes.length - HEADER_BYTES !== codec.codeBytes(dimensions)) {
+    throw new Error('Invalid quantized embedding in index file');
+  }
+  // Copy the codes so typed arrays start at an aligned offset
+  const body = Uint8Array.from(bytes.subarray(HEADER_BYTES));
+  return { dimensions, data: codec.view(body.buffer), scale: bytes.readFloatLE(4) };
+}
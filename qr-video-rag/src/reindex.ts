@@ -0,0 +1,457 @@
+/**
+ * QR Video RAG - Reindexing
+ *
+ * Rebuilds a lost or corrupted vector index from the QR frames of a video
+ */
+
+import jsQR from 'jsqr';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Embedder,
+  VectorDatabase,
+  QRVideoStoreIndexEntry,
+  QRVideoStoreManifest,
+  QRVideoStoreManifestChunk,
+  ReindexOptions,
+  ReindexReport,
+} from './types';
+import { probeVideo, decodeRawFrames } from './video';
+import { decodeManifestPart, assembleManifest, ManifestPart } from './manifest';
+import {
+  decodeChunkFrames,
+  hashDocumentId,
+  isFrameEnvelope,
+  isValidFrame,
+  readFrame,
+} from './frames';
+import { assertValidParity, recoverDataPayloads } from './parity';
+import { getChunkId } from './chunkers';
+import {
+  WHOLE_FRAME,
+  FrameLayout,
+  QrPosition,
+  assertValidTileGrid,
+  assertValidColorMode,
+  cropTile,
+  demultiplexPixels,
+  formatQrPosition,
+  getChannelCount,
+  getDataFrameCount,
+  getParityGroup,
+  getQrCodesPerFrame,
+  getQrPosition,
+  getQrSlot,
+  getTilesPerFrame,
+  isBlankPlane,
+  isParityFrame,
+} from './qr';
+
+/**
+ * Rebuild the index of a video from its frames
+ *
+ * Decodes every frame in order, re-embeds the decoded chunks and upserts
+ * them with their frame numbers and chunk IDs. The rebuilt entries replace
+ * the existing entries of their documents, in one `replaceDocument` call per
+ * document if the database has it, or after `delete` otherwise. If the video
+ * carries an embedded manifest, its document IDs and metadata are restored as well.
+ * Otherwise chunks are grouped by the document ID hash in their frame headers
+ * (see `ReindexOptions.documentId`).
+ *
+ * Tiled and color-multiplexed videos are read with the layout from
+ * `options.tileGrid`/`options.colorMode` or the embedded manifest. Empty
+ * tiles and color planes at the end of the last frame are skipped, as are
+ * the blank frames that fill the last parity group. With parity frames
+ * (`options.parity` or the embedded manifest), unreadable QR codes are
+ * rebuilt from their parity group before chunks are decoded.
+ *
+ * @param videoPath Path to the QR video
+ * @param embedder Embedder to generate chunk embeddings
+ * @param database Vector database to upsert the rebuilt entries into
+ * @param options Optional document ID, metadata and logging
+ * @returns Report listing frames that failed to decode or were recovered from parity
+ *
+ * @example
+ * ```typescript
+ * const report = await reindexVideo(
+ *   "./videos/guide.mp4",
+ *   createSimpleEmbedder(384),
+ *   createFileAdapter("./videos/guide.mp4.index.json"),
+ *   { documentId: "guide" }
+ * );
+ * console.log(report.failedFrames); // []
+ * ```
+ */
+export async function reindexVideo(
+  videoPath: string,
+  embedder: Embedder,
+  database: VectorDatabase,
+  options: ReindexOptions = {}
+): Promise<ReindexReport> {
+  if (!fs.existsSync(videoPath)) {
+    throw new Error(`Video file not found: ${videoPath}`);
+  }
+
+  const verbose = options.verbose ?? false;
+  const defaultDocumentId = options.documentId ?? path.basename(videoPath, path.extname(videoPath));
+  const info = await probeVideo(videoPath);
+
+  if (verbose) {
+    console.log(`[reindexVideo] Decoding ${info.frameCount} frames from ${videoPath}`);
+  }
+
+  // Step 1: Decode every frame in a single pass. Manifest frames come first and
+  // hold one QR code each, so the frame layout is known before the data frames.
+  const parts: ManifestPart[] = [];
+  const manifestDecoded = new Set<number>();
+  let manifest: QRVideoStoreManifest | undefined;
+  let manifestRead = false;
+  const layout: FrameLayout = {
+    tileGrid: options.tileGrid ?? WHOLE_FRAME,
+    colorMode: options.colorMode ?? 'mono',
+    parity: options.parity,
+  };
+
+  const readManifest = () => {
+    manifestRead = true;
+    if (parts.length === 0) {
+      return;
+    }
+    layout.dataStart = parts[0].count;
+    try {
+      const assembled = assembleManifest(parts);
+      if (assembled.tileGrid) {
+        assertValidTileGrid(assembled.tileGrid);
+      }
+      if (assembled.colorMode) {
+        assertValidColorMode(assembled.colorMode);
+      }
+      if (assembled.parity) {
+        assertValidParity(assembled.parity);
+      }
+      layout.tileGrid = options.tileGrid ?? assembled.tileGrid ?? layout.tileGrid;
+      layout.colorMode = options.colorMode ?? assembled.colorMode ?? layout.colorMode;
+      layout.parity = options.parity ?? assembled.parity;
+      manifest = assembled;
+    } catch (error) {
+      if (verbose) {
+        console.warn(`[reindexVideo] Ignoring unreadable manifest:`, error);
+      }
+    }
+  };
+
+  // Decoded payloads and empty tiles or planes, keyed by slot (see `getQrSlot`)
+  const decoded = new Map<number, Uint8Array>();
+  const emptySlots = new Set<number>();
+  // Parity payloads, keyed by frame, tile and color plane
+  const parityDecoded = new Map<string, Uint8Array>();
+  const parityKey = (frameNumber: number, tileIndex: number, channel: number) =>
+    `${frameNumber}:${tileIndex}:${channel}`;
+  assertValidTileGrid(layout.tileGrid);
+  assertValidColorMode(layout.colorMode);
+  if (layout.parity) {
+    assertValidParity(layout.parity);
+  }
+
+  await decodeRawFrames(videoPath, info, undefined, (frameNumber, pixels) => {
+    const manifestCount = parts.length > 0 ? parts[0].count : 0;
+    if (frameNumber === 0 || frameNumber < manifestCount) {
+      const qrCode = jsQR(pixels, info.width, info.height);
+      const part = qrCode ? decodeManifestPart(Uint8Array.from(qrCode.binaryData)) : null;
+      if (part) {
+        parts.push(part);
+        manifestDecoded.add(frameNumber);
+        return;
+      }
+      if (frameNumber > 0) {
+        return;
+      }
+    }
+
+    if (!manifestRead) {
+      readManifest();
+    }
+
+    // Blank frames fill the last parity group
+    const canBeEmpty = getQrCodesPerFrame(layout) > 1 || !!layout.parity;
+    const parityFrame = isParityFrame(frameNumber, layout, info.frameCount);
+    for (let tileIndex = 0; tileIndex < getTilesPerFrame(layout.tileGrid); tileIndex++) {
+      const tile = cropTile(pixels, info.width, info.height, layout.tileGrid, tileIndex);
+      demultiplexPixels(tile.pixels, layout.colorMode).forEach((plane, channel) => {
+        const qrCode = jsQR(plane, tile.width, tile.height);
+        if (parityFrame) {
+          if (qrCode) {
+            const key = parityKey(frameNumber, tileIndex, channel);
+            parityDecoded.set(key, Uint8Array.from(qrCode.binaryData));
+          }
+          return;
+        }
+
+        const slot = getQrSlot({ frameNumber, tileIndex, channel }, layout);
+        if (qrCode) {
+          decoded.set(slot, Uint8Array.from(qrCode.binaryData));
+        } else if (canBeEmpty && isBlankPlane(plane)) {
+          emptySlots.add(slot);
+        }
+      });
+    }
+  });
+
+  if (!manifestRead) {
+    readManifest();
+  }
+
+  // Step 2: Rebuild unreadable QR codes from the parity frames of their group
+  const perFrame = getQrCodesPerFrame(layout);
+  const recovered = new Set<number>();
+  if (layout.parity) {
+    const parity = layout.parity;
+    const channels = getChannelCount(layout.colorMode);
+    const groupSize = parity.dataFrames + parity.parityFrames;
+
+    for (let start = layout.dataStart ?? 0; start < info.frameCount; start += groupSize) {
+      const group = getParityGroup(start, { ...layout, parity }, info.frameCount);
+      for (let index = 0; index < perFrame; index++) {
+        const tileIndex = Math.floor(index / channels);
+        const channel = index % channels;
+        const slots = group.dataFrames.map(frameNumber =>
+          getQrSlot({ frameNumber, tileIndex, channel }, layout)
+        );
+        const data = slots.map(slot => {
+          const payload = decoded.get(slot);
+          return isValidFrame(payload) ? payload : undefined;
+        });
+        // Blank planes may be damaged rather than empty; the parity header tells them apart
+        if (data.every(Boolean)) {
+          continue;
+        }
+
+        const parityPayloads = group.parityFrames.map(frameNumber =>
+          parityDecoded.get(parityKey(frameNumber, tileIndex, channel))
+        );
+        recoverDataPayloads(data, parityPayloads, parity)?.forEach((payload, i) => {
+          if (payload && !data[i]) {
+            decoded.set(slots[i], payload);
+            emptySlots.delete(slots[i]);
+            recovered.add(group.dataFrames[i]);
+          }
+        });
+      }
+    }
+  }
+
+  // Step 3: Locate the chunks recorded in the embedded manifest, if any
+  const manifestFrames = parts.length > 0 ? parts[0].count : 0;
+  const chunksBySlot = new Map<number, QRVideoStoreManifestChunk>();
+  let dictionary = options.payloadDictionary;
+  if (manifest) {
+    if (!dictionary && manifest.payloadDictionary) {
+      dictionary = Buffer.from(manifest.payloadDictionary, 'base64');
+    }
+    for (const chunk of manifest.chunks) {
+      const frameNumber = manifestFrames + chunk.frameOffset;
+      chunksBySlot.set(getQrSlot({ ...chunk, frameNumber }, layout), chunk);
+    }
+  }
+
+  // Step 4: Decode the chunks of the data frames
+  const failed = new Set<number>();
+  const decodedChunks: DecodedChunk[] = [];
+  const totalSlots = getDataFrameCount(info.frameCount, layout) * perFrame;
+  const failSlot = (slot: number) => failed.add(getQrPosition(slot, layout).frameNumber);
+
+  for (let frameNumber = 0; frameNumber < manifestFrames; frameNumber++) {
+    if (!manifestDecoded.has(frameNumber)) {
+      failed.add(frameNumber);
+    }
+  }
+
+  for (let slot = manifestFrames * perFrame; slot < totalSlots; slot++) {
+    if (emptySlots.has(slot)) {
+      continue;
+    }
+
+    // Chunks may span several consecutive QR codes, as recorded in the manifest or frame header
+    const firstSlot = slot;
+    const chunk = chunksBySlot.get(firstSlot);
+    const span: FrameSpan = chunk
+      ? { partIndex: 0, partCount: chunk.frameCount ?? 1, chunkIndex: chunk.chunkIndex }
+      : getFrameSpan(decoded.get(firstSlot));
+    const frameCount = span.partCount - span.partIndex;
+    slot += frameCount - 1;
+
+    if (span.partIndex > 0) {
+      // The leading QR codes of this chunk were lost; skip the rest of it
+      for (let i = 0; i < frameCount && firstSlot + i < totalSlots; i++) {
+        failSlot(firstSlot + i);
+      }
+      continue;
+    }
+
+    const pieces: Uint8Array[] = [];
+    for (let i = 0; i < frameCount && firstSlot + i < totalSlots; i++) {
+      const payload = decoded.get(firstSlot + i);
+      if (payload) {
+        pieces.push(payload);
+      } else {
+        failSlot(firstSlot + i);
+      }
+    }
+
+    if (pieces.length !== frameCount) {
+      continue;
+    }
+
+    const position = getQrPosition(firstSlot, layout);
+
+    let chunkText: string;
+    try {
+      chunkText = decodeChunkFrames(pieces, {
+        dictionary,
+        documentId: chunk?.documentId,
+        chunkIndex: chunk?.chunkIndex,
+      });
+    } catch (error) {
+      if (verbose) {
+        console.warn(
+          `[reindexVideo] Failed to decode payload of ${formatQrPosition(position)}:`,
+          error
+        );
+      }
+      for (let i = 0; i < frameCount; i++) {
+        failSlot(firstSlot + i);
+      }
+      continue;
+    }
+    const metadata: Record<string, any> = { ...options.metadata, ...chunk?.metadata };
+    if (chunk?.startPosition !== undefined) {
+      metadata.startPosition = chunk.startPosition;
+      metadata.endPosition = chunk.endPosition;
+    }
+
+    decodedChunks.push({
+      chunkText,
+      position,
+      frameCount,
+      documentId: chunk?.documentId,
+      documentHash: span.documentHash,
+      chunkIndex: span.chunkIndex,
+      metadata,
+    });
+  }
+
+  // Step 5: Rebuild entries. Frame headers only carry a hash of the document
+  // ID, so without a manifest each hash becomes its own document: the given
+  // ID names the document it hashes to, or the only document of the video.
+  const headerHashes = new Set(
+    decodedChunks
+      .filter(chunk => !chunk.documentId && chunk.documentHash !== undefined)
+      .map(chunk => chunk.documentHash)
+  );
+  const defaultHash = hashDocumentId(defaultDocumentId);
+  const getDocumentId = (documentHash: number | undefined): string =>
+    documentHash === undefined || headerHashes.size <= 1 || documentHash === defaultHash
+      ? defaultDocumentId
+      : `${defaultDocumentId}#${documentHash.toString(16).padStart(8, '0')}`;
+
+  const entries: QRVideoStoreIndexEntry[] = [];
+  const chunkCounts = new Map<string, number>();
+  for (const decodedChunk of decodedChunks) {
+    const { chunkText, position, frameCount, metadata } = decodedChunk;
+
+    // Frames without a header are numbered in order within their document
+    const documentId = decodedChunk.documentId ?? getDocumentId(decodedChunk.documentHash);
+    const chunkIndex = decodedChunk.chunkIndex ?? chunkCounts.get(documentId) ?? 0;
+    chunkCounts.set(documentId, chunkIndex + 1);
+
+    entries.push({
+      chunkText,
+      embedding: await embedder.embed(chunkText),
+      ...position,
+      frameCount: frameCount > 1 ? frameCount : undefined,
+      documentId,
+      chunkId: getChunkId(documentId, chunkIndex, chunkText),
+      metadata,
+    });
+  }
+
+  const failedFrames = Array.from(failed).sort((a, b) => a - b);
+  const recoveredFrames = Array.from(recovered).sort((a, b) => a - b);
+
+  // Step 6: Replace the previous entries of the rebuilt documents, atomically if supported
+  const documentIds = new Set(entries.map(entry => entry.documentId));
+  if (database.replaceDocument) {
+    for (const documentId of documentIds) {
+      const documentEntries = entries.filter(entry => entry.documentId === documentId);
+      await database.replaceDocument(documentId, documentEntries);
+    }
+  } else {
+    if (database.delete) {
+      for (const documentId of documentIds) {
+        await database.delete(documentId);
+      }
+    }
+    await database.upsert(entries);
+  }
+
+  if (verbose) {
+    console.log(
+      `[reindexVideo] Indexed ${entries.length} chunks, ${failedFrames.length} frames failed to decode`
+    );
+  }
+
+  return {
+    totalFrames: info.frameCount,
+    manifestFrames,
+    indexedChunks: entries.length,
+    failedFrames,
+    recoveredFrames,
+  };
+}
+
+/**
+ * A chunk decoded from the data frames, before its entry is rebuilt
+ */
+interface DecodedChunk {
+  chunkText: string;
+  position: QrPosition;
+  frameCount: number;
+  /** Document ID from the embedded manifest */
+  documentId?: string;
+  /** Document ID hash from the frame header */
+  documentHash?: number;
+  chunkIndex?: number;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Position of a frame within its chunk, and the chunk's identity
+ */
+interface FrameSpan {
+  partIndex: number;
+  partCount: number;
+  chunkIndex?: number;
+  documentHash?: number;
+}
+
+/**
+ * Read the position of a frame within its chunk, and the chunk's identity, from the frame header
+ *
+ * Frames without a readable header count as single-frame chunks of unknown index.
+ */
+function getFrameSpan(payload: Uint8Array | undefined): FrameSpan {
+  if (payload && isFrameEnvelope(payload)) {
+    try {
+      const { header } = readFrame(payload);
+      return {
+        partIndex: header.partIndex,
+        partCount: header.partCount,
+        chunkIndex: header.chunkIndex,
+        documentHash: header.documentHash,
+      };
+    } catch {
+      // Fall through: the frame is reported when its payload fails to decode
+    }
+  }
+  return { partIndex: 0, partCount: 1 };
+}
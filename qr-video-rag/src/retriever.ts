@@ -1,30 +1,67 @@
 /**
  * QR Video RAG - Retriever
- * 
+ *
  * Retrieves knowledge from QR-encoded videos using semantic search
  */
 
-import ffmpeg from 'fluent-ffmpeg';
-import ffmpegStatic from 'ffmpeg-static';
 import { Jimp } from 'jimp';
 import jsQR from 'jsqr';
-import { PassThrough } from 'stream';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
   VectorDatabase,
   Embedder,
   QRVideoStoreIndexEntry,
   SearchResult,
   FrameExtractionOptions,
+  VideoStreamInfo,
+  QRVideoStoreManifest,
+  QRVideoStoreManifestChunk,
+  QRVideoStoreRetrieverOptions,
+  SearchFilter,
+  HybridSearchOptions,
+  ShardLayout,
+  VideoShard,
+  VideoStorageBackend,
 } from './types';
-
-if (ffmpegStatic) {
-  ffmpeg.setFfmpegPath(ffmpegStatic);
-}
+import { probeVideo, assertFrameInRange, extractFrame, decodeRawFrames } from './video';
+import { decodeManifestPart, assembleManifest } from './manifest';
+import { createInMemoryAdapter } from './adapters';
+import {
+  decodeChunkFrames,
+  isFrameEnvelope,
+  isValidFrame,
+  readFrame,
+  ChunkDecodeOptions,
+} from './frames';
+import { FrameDecodeError, VideoDecodeError } from './errors';
+import {
+  WHOLE_FRAME,
+  SINGLE_QR_LAYOUT,
+  FrameLayout,
+  assertValidTileGrid,
+  assertValidColorMode,
+  cropTile,
+  demultiplexPixels,
+  formatQrPosition,
+  getChannelCount,
+  getQrPosition,
+  getQrSlot,
+  getTilesPerFrame,
+  getParityGroup,
+  QrPosition,
+} from './qr';
+import { assertValidParity, recoverDataPayloads } from './parity';
+import { findShard, readShardLayout, resolveShardPath } from './shards';
+import { downloadVideo } from './storage';
+import { matchesFilter } from './filter';
+import { assertValidHybridOptions, fuseRankings } from './fusion';
+import { getChunkId } from './chunkers';
 
 /**
  * QR Video Store Retriever
- * 
+ *
  * Performs semantic search and retrieves decoded text from QR-encoded videos
  */
 export class QRVideoStoreRetriever {
@@ -32,67 +69,279 @@ export class QRVideoStoreRetriever {
   private embedder: Embedder;
   private verbose: boolean;
 
-  // Cache for decoded frames to avoid re-decoding
-  private frameCache: Map<string, string>;
+  // Cache for decoded frame payloads to avoid re-decoding
+  private frameCache: Map<string, Buffer>;
   private maxCacheSize: number;
 
+  // Shared dictionary for compressed payloads
+  private payloadDictionary?: Buffer;
+
+  // Tile grid, color mode and parity of the data frames
+  private layout: FrameLayout;
+
+  // Probed stream information per video, used for frame addressing
+  private videoInfoCache: Map<string, VideoStreamInfo>;
+
+  // Number of manifest frames per video, which parity groups start after
+  private dataStartCache: Map<string, number>;
+
+  // Shard layout per store path, null for plain videos
+  private shardLayoutCache: Map<string, ShardLayout | null>;
+
+  // Size and modification time of each local video when its cache entries were filled
+  private videoRevisions: Map<string, string>;
+
+  // Backend videos are loaded from, and the local copies downloaded so far
+  private storage?: VideoStorageBackend;
+  private localCopies: Map<string, Promise<string>>;
+  private localCopyDir: string | null;
+
   /**
    * Create a new QR Video Store Retriever
-   * 
+   *
    * @param database Vector database containing chunk embeddings
    * @param embedder Embedding generator for query encoding
    * @param options Optional configuration
-   * 
+   *
    * @example
- * ```typescript
- * const retriever = new QRVideoStoreRetriever(
- *   createSupabaseAdapter(supabase),
- *   createGeminiEmbedder(apiKey),
- *   { verbose: true, maxCacheSize: 100 }
- * );
- * ```
+   * ```typescript
+   * const retriever = new QRVideoStoreRetriever(
+   *   createSupabaseAdapter(supabase),
+   *   createGeminiEmbedder(apiKey),
+   *   { verbose: true, maxCacheSize: 100 }
+   * );
+   * ```
    */
   constructor(
     database: VectorDatabase,
     embedder: Embedder,
-    options?: {
-      verbose?: boolean;
-      maxCacheSize?: number;
-    }
+    options?: QRVideoStoreRetrieverOptions
   ) {
     this.database = database;
     this.embedder = embedder;
     this.verbose = options?.verbose ?? false;
     this.maxCacheSize = options?.maxCacheSize ?? 50;
+    this.payloadDictionary = options?.payloadDictionary;
+    this.layout = {
+      tileGrid: options?.tileGrid ?? WHOLE_FRAME,
+      colorMode: options?.colorMode ?? 'mono',
+      parity: options?.parity,
+    };
+    assertValidTileGrid(this.layout.tileGrid);
+    assertValidColorMode(this.layout.colorMode);
+    if (this.layout.parity) {
+      assertValidParity(this.layout.parity);
+    }
     this.frameCache = new Map();
+    this.videoInfoCache = new Map();
+    this.dataStartCache = new Map();
+    this.shardLayoutCache = new Map();
+    this.videoRevisions = new Map();
+    this.storage = options?.storage;
+    this.localCopies = new Map();
+    this.localCopyDir = null;
+  }
+
+  /**
+   * Open a self-contained video and search it without an external database
+   *
+   * Reads the index manifest that the encoder wrote into the leading frames
+   * (`embedIndex: true`) and loads it into an in-memory database. Every data
+   * frame is decoded so the chunk texts can be searched by keyword; chunks
+   * are embedded with the given embedder unless the manifest carries their
+   * embeddings.
+   *
+   * @param videoPath Path to a video encoded with `embedIndex: true`
+   * @param embedder Embedder matching the one used for encoding
+   * @param options Optional configuration
+   * @returns Retriever backed by the embedded index
+   * @throws If the video has no manifest or the embedder does not match it
+   *
+   * @example
+   * ```typescript
+   * const retriever = await QRVideoStoreRetriever.fromVideo(
+   *   "./docs.mp4",
+   *   createSimpleEmbedder(384)
+   * );
+   * const results = await retriever.search("authentication", "./docs.mp4");
+   * ```
+   */
+  public static async fromVideo(
+    videoPath: string,
+    embedder: Embedder,
+    options?: QRVideoStoreRetrieverOptions
+  ): Promise<QRVideoStoreRetriever> {
+    const database = createInMemoryAdapter();
+    const retriever = new QRVideoStoreRetriever(database, embedder, options);
+
+    const manifest = await retriever.readManifest(videoPath);
+    if (!manifest) {
+      throw new Error(`No embedded index found in ${videoPath}`);
+    }
+
+    const dimension = embedder.dimension?.();
+    if (dimension !== undefined && dimension !== manifest.embedder.dimension) {
+      throw new Error(
+        `Embedder dimension ${dimension} does not match embedded index dimension ${manifest.embedder.dimension}`
+      );
+    }
+    if (embedder.name && manifest.embedder.name && embedder.name !== manifest.embedder.name) {
+      throw new Error(
+        `Embedder "${embedder.name}" does not match embedded index embedder "${manifest.embedder.name}"`
+      );
+    }
+
+    if (manifest.payloadDictionary && !retriever.payloadDictionary) {
+      retriever.payloadDictionary = Buffer.from(manifest.payloadDictionary, 'base64');
+    }
+
+    if (manifest.tileGrid && !options?.tileGrid) {
+      assertValidTileGrid(manifest.tileGrid);
+      retriever.layout.tileGrid = manifest.tileGrid;
+    }
+    if (manifest.colorMode && !options?.colorMode) {
+      assertValidColorMode(manifest.colorMode);
+      retriever.layout.colorMode = manifest.colorMode;
+    }
+    if (manifest.parity && !options?.parity) {
+      assertValidParity(manifest.parity);
+      retriever.layout.parity = manifest.parity;
+    }
+    retriever.dataStartCache.set(videoPath, manifest.manifestFrames);
+    const layout = { ...retriever.layout, dataStart: manifest.manifestFrames };
+
+    const toEntrySlots = (chunk: QRVideoStoreManifestChunk) =>
+      getEntrySlots(
+        {
+          frameNumber: manifest.manifestFrames + chunk.frameOffset,
+          tileIndex: chunk.tileIndex,
+          channel: chunk.channel,
+          frameCount: chunk.frameCount,
+        },
+        layout
+      );
+    const payloads = await retriever.decodeFramePayloads(
+      videoPath,
+      manifest.chunks.flatMap(toEntrySlots),
+      layout
+    );
+
+    const entries: QRVideoStoreIndexEntry[] = [];
+    for (const chunk of manifest.chunks) {
+      const text = retriever.decodeChunkText(payloads, toEntrySlots(chunk), layout, {
+        documentId: chunk.documentId,
+        chunkIndex: chunk.chunkIndex,
+      });
+      // Unreadable chunks stay searchable by their embedded embedding
+      if (text === null && !chunk.embedding) {
+        continue;
+      }
+      const chunkText = text ?? '';
+      const embedding = chunk.embedding ?? (await embedder.embed(chunkText));
+
+      entries.push({
+        chunkText,
+        embedding,
+        frameNumber: manifest.manifestFrames + chunk.frameOffset,
+        tileIndex: chunk.tileIndex,
+        channel: chunk.channel,
+        frameCount: chunk.frameCount,
+        documentId: chunk.documentId,
+        chunkId: chunk.chunkId ?? getChunkId(chunk.documentId, chunk.chunkIndex, chunkText),
+        metadata: {
+          ...chunk.metadata,
+          startPosition: chunk.startPosition,
+          endPosition: chunk.endPosition,
+        },
+      });
+    }
+
+    await database.upsert(entries);
+
+    if (retriever.verbose) {
+      console.log(
+        `[QRVideoStoreRetriever] Loaded ${entries.length} chunks from embedded index in ${videoPath}`
+      );
+    }
+
+    return retriever;
+  }
+
+  /**
+   * Read the index manifest embedded in the leading frames of a video
+   *
+   * Manifest frames always hold a single black-and-white QR code, whatever
+   * the tile grid and color mode.
+   *
+   * @param videoPath Path to the video file
+   * @returns The manifest, or null if the video has no embedded index
+   */
+  public async readManifest(videoPath: string): Promise<QRVideoStoreManifest | null> {
+    if (!(await this.videoExists(videoPath))) {
+      throw new Error(`Video file not found: ${videoPath}`);
+    }
+
+    const info = await this.getVideoInfo(videoPath);
+    if (info.frameCount === 0) {
+      return null;
+    }
+
+    const first = (await this.decodeFramePayloads(videoPath, [0], SINGLE_QR_LAYOUT)).get(0);
+    const firstPart = first ? decodeManifestPart(first) : null;
+    if (!firstPart) {
+      return null;
+    }
+
+    const rest: number[] = [];
+    for (let i = 1; i < firstPart.count; i++) {
+      rest.push(i);
+    }
+
+    const parts = [firstPart];
+    for (const payload of (
+      await this.decodeFramePayloads(videoPath, rest, SINGLE_QR_LAYOUT)
+    ).values()) {
+      const part = decodeManifestPart(payload);
+      if (part) {
+        parts.push(part);
+      }
+    }
+
+    return assembleManifest(parts);
   }
 
   /**
    * Retrieve relevant chunk metadata based on semantic search
-   * 
+   *
    * @param query Search query text
    * @param matchCount Number of results to return
+   * @param filter Optional document and metadata filter, applied by the database before ranking
    * @returns Array of matching index entries with similarity scores
-   * 
+   *
    * @example
    * ```typescript
    * const matches = await retriever.retrieveChunks(
    *   "How do I configure authentication?",
-   *   5
+   *   5,
+   *   { metadata: { version: { $gte: 2 } } }
    * );
    * console.log(matches[0].similarity); // 0.85
    * ```
    */
   public async retrieveChunks(
     query: string,
-    matchCount: number = 5
+    matchCount: number = 5,
+    filter?: SearchFilter
   ): Promise<QRVideoStoreIndexEntry[]> {
     if (this.verbose) {
       console.log(`[QRVideoStoreRetriever] Searching for: "${query}"`);
     }
 
     const embedding = await this.embedder.embed(query);
-    const results = await this.database.search(embedding, matchCount);
+    // Databases written before filters existed ignore the argument; drop what they let through
+    const results = (await this.database.search(embedding, matchCount, filter)).filter(entry =>
+      matchesFilter(entry, filter)
+    );
 
     if (this.verbose) {
       console.log(`[QRVideoStoreRetriever] Found ${results.length} matches`);
@@ -101,13 +350,220 @@ export class QRVideoStoreRetriever {
     return results;
   }
 
+  /**
+   * Retrieve relevant chunk metadata by combining semantic and keyword search
+   *
+   * Ranks entries by embedding similarity and by BM25 keyword relevance
+   * (`VectorDatabase.searchText`), then fuses both rankings with reciprocal
+   * rank fusion or a weighted sum of normalized scores. Keyword matches
+   * catch exact terms, names and codes that embeddings miss.
+   *
+   * @param query Search query text
+   * @param matchCount Number of results to return (default: 5)
+   * @param options Fusion method, weights and filter for this query
+   * @returns Matching index entries with the fused score as `similarity`
+   * @throws If the database does not implement `searchText`
+   *
+   * @example
+   * ```typescript
+   * // Favor exact keyword matches for an error code
+   * const matches = await retriever.retrieveChunksHybrid('E_CONN_RESET', 5, {
+   *   fusion: 'weighted',
+   *   vectorWeight: 0.3,
+   *   lexicalWeight: 0.7,
+   * });
+   * ```
+   */
+  public async retrieveChunksHybrid(
+    query: string,
+    matchCount: number = 5,
+    options: HybridSearchOptions = {}
+  ): Promise<QRVideoStoreIndexEntry[]> {
+    assertValidHybridOptions(options);
+    if (!this.database.searchText) {
+      throw new Error(
+        'Hybrid search needs a database that implements searchText(), ' +
+          'e.g. createInMemoryAdapter or createFileAdapter'
+      );
+    }
+
+    const candidates = options.candidates ?? matchCount * 4;
+    const [vectorHits, lexicalHits] = await Promise.all([
+      this.retrieveChunks(query, candidates, options.filter),
+      this.database.searchText(query, candidates, options.filter),
+    ]);
+    const results = fuseRankings(
+      vectorHits,
+      lexicalHits.filter(entry => matchesFilter(entry, options.filter)),
+      matchCount,
+      options
+    );
+
+    if (this.verbose) {
+      console.log(
+        `[QRVideoStoreRetriever] Fused ${vectorHits.length} vector and ` +
+          `${lexicalHits.length} keyword matches into ${results.length}`
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Get frame rate, timebase and frame count of a video
+   *
+   * The result is cached per video path until `clearCache()` is called or
+   * the file changes (see `checkVideoRevision`).
+   *
+   * @param videoPath Path to the video file
+   * @returns Stream information used to address frames
+   */
+  public async getVideoInfo(videoPath: string): Promise<VideoStreamInfo> {
+    await this.checkVideoRevision(videoPath);
+    const cached = this.videoInfoCache.get(videoPath);
+    if (cached) {
+      return cached;
+    }
+
+    const info = await probeVideo(await this.getLocalPath(videoPath));
+    this.videoInfoCache.set(videoPath, info);
+
+    if (this.verbose) {
+      console.log(
+        `[QRVideoStoreRetriever] ${videoPath}: ${info.frameCount} frames at ${info.fps.toFixed(3)} fps`
+      );
+    }
+
+    return info;
+  }
+
+  /**
+   * Frame layout of a video, including where its parity groups start
+   *
+   * Parity groups follow the manifest frames, so for videos with parity the
+   * manifest size is read from the first frame and cached until
+   * `clearCache()` is called or the file changes.
+   */
+  private async getVideoLayout(videoPath: string): Promise<FrameLayout> {
+    if (!this.layout.parity) {
+      return this.layout;
+    }
+
+    await this.checkVideoRevision(videoPath);
+    let dataStart = this.dataStartCache.get(videoPath);
+    if (dataStart === undefined) {
+      const first = (await this.decodeFramePayloads(videoPath, [0], SINGLE_QR_LAYOUT)).get(0);
+      dataStart = (first && decodeManifestPart(first)?.count) || 0;
+      this.dataStartCache.set(videoPath, dataStart);
+    }
+
+    return { ...this.layout, dataStart };
+  }
+
+  /**
+   * Drop the cached frame count, manifest size and QR codes of a video whose file changed
+   *
+   * `appendDocument` and `compactVideo` rewrite a video in place, so cached
+   * entries are only used while the file keeps the size and modification
+   * time it had when they were filled. Videos in a storage backend are
+   * cached until `clearCache()` is called.
+   */
+  private async checkVideoRevision(videoPath: string): Promise<void> {
+    if (this.storage) {
+      return;
+    }
+
+    let revision: string;
+    try {
+      const stats = await fs.promises.stat(videoPath);
+      revision = `${stats.size}:${stats.mtimeMs}`;
+    } catch {
+      // A missing video is reported by the caller
+      return;
+    }
+
+    const previous = this.videoRevisions.get(videoPath);
+    this.videoRevisions.set(videoPath, revision);
+    if (previous === undefined || previous === revision) {
+      return;
+    }
+
+    this.videoInfoCache.delete(videoPath);
+    this.dataStartCache.delete(videoPath);
+    for (const key of Array.from(this.frameCache.keys())) {
+      if (key.startsWith(`${videoPath}:`)) {
+        this.frameCache.delete(key);
+      }
+    }
+    if (this.verbose) {
+      console.log(`[QRVideoStoreRetriever] ${videoPath} changed, dropping its cached frames`);
+    }
+  }
+
+  /**
+   * Check that a video exists locally or in the storage backend
+   */
+  private async videoExists(videoPath: string): Promise<boolean> {
+    if (this.storage) {
+      return this.storage.exists(videoPath);
+    }
+    return fs.existsSync(videoPath);
+  }
+
+  /**
+   * Path FFmpeg reads a video from
+   *
+   * With a storage backend, the video is downloaded once to a temporary
+   * directory, which `clearCache()` removes.
+   */
+  private async getLocalPath(videoPath: string): Promise<string> {
+    if (!this.storage) {
+      return videoPath;
+    }
+
+    let localPath = this.localCopies.get(videoPath);
+    if (!localPath) {
+      const storage = this.storage;
+      this.localCopyDir ??= fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+      const copyPath = path.join(
+        this.localCopyDir,
+        `${this.localCopies.size}-${path.basename(videoPath)}`
+      );
+      localPath = downloadVideo(storage, videoPath, copyPath).then(() => copyPath);
+      this.localCopies.set(videoPath, localPath);
+      // Allow a retry if the download failed
+      localPath.catch(() => this.localCopies.delete(videoPath));
+
+      if (this.verbose) {
+        console.log(`[QRVideoStoreRetriever] Downloading ${videoPath} from storage`);
+      }
+    }
+    return localPath;
+  }
+
+  /**
+   * Shard layout of a store, or null if the path is a plain video
+   */
+  private async getShardLayout(videoPath: string): Promise<ShardLayout | null> {
+    let layout = this.shardLayoutCache.get(videoPath);
+    if (layout === undefined) {
+      layout = await readShardLayout(videoPath, this.storage);
+      this.shardLayoutCache.set(videoPath, layout);
+    }
+    return layout;
+  }
+
   /**
    * Extract a specific frame from video as buffer
-   * 
+   *
+   * Frames are addressed by index using the stream's real frame rate and
+   * timebase, so `frameNumber` maps to the right frame at any `videoFps`.
+   *
    * @param videoPath Path to the video file
    * @param frameNumber Frame number to extract (0-indexed)
    * @returns Buffer containing PNG image data, or null if extraction fails
-   * 
+   * @throws If the video does not exist or the frame is past the end of the video
+   *
    * @example
    * ```typescript
    * const frameBuffer = await retriever.extractFrameAsBuffer(
@@ -125,53 +581,36 @@ export class QRVideoStoreRetriever {
     options?: Partial<FrameExtractionOptions>
   ): Promise<Buffer | null> {
     // Check if video exists
-    if (!fs.existsSync(videoPath)) {
+    if (!(await this.videoExists(videoPath))) {
       throw new Error(`Video file not found: ${videoPath}`);
     }
 
-    return new Promise((resolve) => {
-      const format = options?.format ?? 'png';
-      
-      const command = ffmpeg(videoPath)
-        .seekInput(frameNumber) // Seek by frame number
-        .frames(1)
-        .outputOptions([
-          '-f image2',
-          '-vframes 1',
-          `-c:v ${format}`
-        ]);
-
-      const passThrough = new PassThrough();
-      const buffers: Buffer[] = [];
-
-      passThrough.on('data', (chunk: Buffer) => buffers.push(chunk));
-      passThrough.on('end', () => {
-        const buffer = Buffer.concat(buffers);
-        resolve(buffer.length > 0 ? buffer : null);
-      });
-      passThrough.on('error', (err) => {
-        if (this.verbose) {
-          console.error(`[QRVideoStoreRetriever] Frame extraction error:`, err);
-        }
-        resolve(null); // Return null instead of rejecting
-      });
+    const info = await this.getVideoInfo(videoPath);
+    assertFrameInRange(info, frameNumber, videoPath);
 
-      command.pipe(passThrough, { end: true });
-      command.on('error', (err) => {
-        if (this.verbose) {
-          console.error(`[QRVideoStoreRetriever] FFmpeg error:`, err);
-        }
-        resolve(null);
-      });
-    });
+    try {
+      const localPath = await this.getLocalPath(videoPath);
+      return await extractFrame(localPath, info, frameNumber, options?.format ?? 'png');
+    } catch (error) {
+      if (this.verbose) {
+        console.error(`[QRVideoStoreRetriever] Frame extraction error:`, error);
+      }
+      return null; // Return null instead of rejecting
+    }
   }
 
   /**
    * Decode QR code from image buffer
-   * 
+   *
+   * Frames are validated against their versioned header (checksum, format
+   * version, part count). Frames from videos written before the header
+   * existed are decoded as before.
+   *
    * @param imageBuffer Buffer containing PNG/JPG image data
    * @returns Decoded text, or null if QR code cannot be read
-   * 
+   * @throws FrameDecodeError if the QR code is read but its payload is invalid,
+   *   e.g. `CHECKSUM_MISMATCH` or `MISSING_PARTS` for one frame of a multi-frame chunk
+   *
    * @example
    * ```typescript
    * const qrImage = fs.readFileSync("qr-code.png");
@@ -179,42 +618,119 @@ export class QRVideoStoreRetriever {
    * console.log(text); // "Hello, World!"
    * ```
    */
-  public async decodeQrCodeFromBuffer(
-    imageBuffer: Buffer
-  ): Promise<string | null> {
+  public async decodeQrCodeFromBuffer(imageBuffer: Buffer): Promise<string | null> {
+    let payload: Buffer | null;
     try {
       const image = await Jimp.read(imageBuffer);
       const imageData = new Uint8ClampedArray(image.bitmap.data);
-      const qrCode = jsQR(imageData, image.bitmap.width, image.bitmap.height);
-
-      return qrCode ? qrCode.data : null;
+      payload = this.decodeQrBytesFromPixels(imageData, image.bitmap.width, image.bitmap.height);
     } catch (error) {
       if (this.verbose) {
         console.error('[QRVideoStoreRetriever] QR decode error:', error);
       }
       return null;
     }
+
+    return payload ? decodeChunkFrames([payload], { dictionary: this.payloadDictionary }) : null;
+  }
+
+  /**
+   * Decode the raw payload bytes of a QR code from RGBA pixel data
+   */
+  private decodeQrBytesFromPixels(
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number
+  ): Buffer | null {
+    const qrCode = jsQR(pixels, width, height);
+    return qrCode ? Buffer.from(qrCode.binaryData) : null;
+  }
+
+  /**
+   * Decode the text of a chunk from the payloads of its QR codes
+   *
+   * @param payloads Raw payloads keyed by slot (see `decodeFramePayloads`)
+   * @param slots Slots holding the chunk, in order
+   * @param layout Frame layout the slots refer to
+   * @returns Chunk text, or null if a QR code is missing or fails validation
+   */
+  private decodeChunkText(
+    payloads: Map<number, Buffer>,
+    slots: number[],
+    layout: FrameLayout,
+    expected: Omit<ChunkDecodeOptions, 'dictionary'> = {}
+  ): string | null {
+    const parts: Buffer[] = [];
+    for (const slot of slots) {
+      const payload = payloads.get(slot);
+      if (!payload) {
+        if (this.verbose) {
+          console.warn(
+            `[QRVideoStoreRetriever] Failed to decode QR from ${formatQrPosition(getQrPosition(slot, layout))}`
+          );
+        }
+        return null;
+      }
+      parts.push(payload);
+    }
+
+    try {
+      return decodeChunkFrames(parts, { ...expected, dictionary: this.payloadDictionary });
+    } catch (error) {
+      if (!(error instanceof FrameDecodeError)) {
+        throw error;
+      }
+      if (this.verbose) {
+        console.warn(
+          `[QRVideoStoreRetriever] Invalid payload in ${formatQrPosition(getQrPosition(slots[0], layout))} (${error.code}): ${error.message}`
+        );
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Slots of the whole chunk that a QR code belongs to, read from its header
+   *
+   * Legacy frames carry no header and are treated as single-frame chunks.
+   */
+  private getChunkSlotsOf(slot: number, payload: Buffer): number[] {
+    if (!isFrameEnvelope(payload)) {
+      return [slot];
+    }
+    try {
+      const { header } = readFrame(payload);
+      const slots: number[] = [];
+      for (let i = 0; i < header.partCount; i++) {
+        slots.push(slot - header.partIndex + i);
+      }
+      return slots;
+    } catch {
+      return [slot];
+    }
   }
 
   /**
    * Search for relevant content and decode it from video
-   * 
+   *
    * This is the main retrieval method that combines semantic search
    * with frame extraction and QR decoding.
-   * 
+   *
    * @param query Search query text
    * @param videoPath Path to the QR video file
    * @param matchCount Number of results to return (default: 5)
+   * @param filter Optional document and metadata filter (see `SearchFilter`)
    * @returns Array of search results with decoded text and similarity scores
-   * 
+   *
    * @example
    * ```typescript
    * const results = await retriever.search(
    *   "authentication configuration",
    *   "./docs.mp4",
-   *   3
+   *   3,
+   *   { documentId: 'admin-guide' }
    * );
-   * 
+   *
    * for (const result of results) {
    *   console.log(`[${result.similarity.toFixed(2)}] ${result.text}`);
    * }
@@ -223,78 +739,154 @@ export class QRVideoStoreRetriever {
   public async search(
     query: string,
     videoPath: string,
-    matchCount: number = 5
+    matchCount: number = 5,
+    filter?: SearchFilter
   ): Promise<SearchResult[]> {
     const startTime = Date.now();
 
     // Step 1: Semantic search
-    const chunks = await this.retrieveChunks(query, matchCount);
-    const results: SearchResult[] = [];
+    const chunks = await this.retrieveChunks(query, matchCount, filter);
 
+    // Step 2: Extract and decode all matched frames in one pass
+    const results = await this.decodeEntries(chunks, videoPath);
+
+    const duration = Date.now() - startTime;
     if (this.verbose) {
-      console.log(`[QRVideoStoreRetriever] Extracting and decoding ${chunks.length} frames...`);
+      console.log(`[QRVideoStoreRetriever] Retrieved ${results.length} results in ${duration}ms`);
     }
 
-    // Step 2: Extract frames and decode QR codes
-    for (const chunk of chunks) {
-      const cacheKey = `${videoPath}:${chunk.frameNumber}`;
-      
-      // Check cache first
-      let decodedText: string | null | undefined = this.frameCache.get(cacheKey);
-
-      if (!decodedText) {
-        // Extract frame
-        const frameBuffer = await this.extractFrameAsBuffer(
-          videoPath,
-          chunk.frameNumber
-        );
+    return results;
+  }
 
-        if (!frameBuffer) {
-          if (this.verbose) {
-            console.warn(`[QRVideoStoreRetriever] Failed to extract frame ${chunk.frameNumber}`);
-          }
-          continue;
-        }
+  /**
+   * Search for relevant content with semantic and keyword search, and decode it from video
+   *
+   * Like `search`, but ranks chunks with `retrieveChunksHybrid`.
+   *
+   * @param query Search query text
+   * @param videoPath Path to the QR video file
+   * @param matchCount Number of results to return (default: 5)
+   * @param options Fusion method, weights and filter for this query
+   * @returns Search results with the fused score as `similarity`
+   *
+   * @example
+   * ```typescript
+   * const results = await retriever.hybridSearch('invoice INV-2024-0042', './docs.mp4', 3);
+   * ```
+   */
+  public async hybridSearch(
+    query: string,
+    videoPath: string,
+    matchCount: number = 5,
+    options: HybridSearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const chunks = await this.retrieveChunksHybrid(query, matchCount, options);
+    return this.decodeEntries(chunks, videoPath);
+  }
 
-        // Decode QR code
-        decodedText = await this.decodeQrCodeFromBuffer(frameBuffer);
+  /**
+   * Decode the chunks of index entries that all live in one video
+   *
+   * Every QR code is extracted in a single FFmpeg pass per video. Entries
+   * whose QR codes fail to decode or belong to another document are left out.
+   *
+   * @param entries Index entries, e.g. from `retrieveChunks`
+   * @param videoPath Path to the video holding the entries, or the output path of a sharded store
+   * @returns Search results in the order of the entries
+   */
+  public async decodeEntries(
+    entries: QRVideoStoreIndexEntry[],
+    videoPath: string
+  ): Promise<SearchResult[]> {
+    if (this.verbose) {
+      console.log(`[QRVideoStoreRetriever] Extracting and decoding ${entries.length} frames...`);
+    }
 
-        if (!decodedText) {
-          if (this.verbose) {
-            console.warn(`[QRVideoStoreRetriever] Failed to decode QR from frame ${chunk.frameNumber}`);
-          }
-          continue;
-        }
+    const texts = await this.decodeEntryTexts(entries, videoPath);
 
-        // Cache the result
-        this.addToCache(cacheKey, decodedText);
+    const results: SearchResult[] = [];
+    entries.forEach((entry, i) => {
+      const decodedText = texts[i];
+      if (decodedText === null) {
+        return;
       }
 
       results.push({
         text: decodedText,
-        similarity: chunk.similarity || 0,
-        frameNumber: chunk.frameNumber,
-        documentId: chunk.documentId,
-        metadata: chunk.metadata,
+        similarity: entry.similarity || 0,
+        frameNumber: entry.frameNumber,
+        tileIndex: entry.tileIndex,
+        channel: entry.channel,
+        frameCount: entry.frameCount,
+        documentId: entry.documentId,
+        metadata: entry.metadata,
       });
-    }
+    });
 
-    const duration = Date.now() - startTime;
-    if (this.verbose) {
-      console.log(`[QRVideoStoreRetriever] Retrieved ${results.length} results in ${duration}ms`);
+    return results;
+  }
+
+  /**
+   * Decode the chunk text of each entry, or null where it does not read back
+   *
+   * Entries of a sharded store are decoded from the shard holding their
+   * frame, at the frame number within that shard.
+   */
+  private async decodeEntryTexts(
+    entries: QRVideoStoreIndexEntry[],
+    videoPath: string
+  ): Promise<Array<string | null>> {
+    const shardLayout = await this.getShardLayout(videoPath);
+    if (shardLayout) {
+      const texts: Array<string | null> = entries.map(() => null);
+      const byShard = new Map<VideoShard, number[]>();
+      entries.forEach((entry, i) => {
+        const shard = findShard(shardLayout, entry.frameNumber);
+        if (shard) {
+          byShard.set(shard, [...(byShard.get(shard) ?? []), i]);
+        }
+      });
+      for (const [shard, indices] of byShard) {
+        const shardEntries = indices.map(i => ({
+          ...entries[i],
+          frameNumber: entries[i].frameNumber - shard.startFrame,
+        }));
+        const shardTexts = await this.decodeEntryTexts(
+          shardEntries,
+          resolveShardPath(videoPath, shard)
+        );
+        indices.forEach((entryIndex, i) => (texts[entryIndex] = shardTexts[i]));
+      }
+      return texts;
     }
 
-    return results;
+    const layout = await this.getVideoLayout(videoPath);
+    const payloads = await this.decodeFramePayloads(
+      videoPath,
+      entries.flatMap(entry => getEntrySlots(entry, layout)),
+      layout
+    );
+
+    return entries.map(entry =>
+      this.decodeChunkText(payloads, getEntrySlots(entry, layout), layout, {
+        documentId: entry.documentId,
+      })
+    );
   }
 
   /**
    * Search across multiple video files
-   * 
+   *
+   * Every database hit is looked up in every video. Hits from other videos
+   * are only left out when the frame header at their position names another
+   * document, so videos written without frame headers return wrong text.
+   *
+   * @deprecated Use `QRVideoCollection`, which routes each hit to the video holding its document
    * @param query Search query text
    * @param videoPaths Array of video file paths
    * @param matchCountPerVideo Number of results per video
    * @returns Aggregated and sorted results from all videos
-   * 
+   *
    * @example
    * ```typescript
    * const results = await retriever.searchMultiple(
@@ -312,7 +904,7 @@ export class QRVideoStoreRetriever {
     const allResults: SearchResult[] = [];
 
     for (const videoPath of videoPaths) {
-      if (!fs.existsSync(videoPath)) {
+      if (!(await this.videoExists(videoPath))) {
         if (this.verbose) {
           console.warn(`[QRVideoStoreRetriever] Video not found: ${videoPath}`);
         }
@@ -331,36 +923,24 @@ export class QRVideoStoreRetriever {
 
   /**
    * Retrieve a specific frame by document ID and frame number
-   * 
+   *
+   * If the frame is part of a multi-frame chunk, the whole chunk is decoded.
+   *
    * @param videoPath Path to the video file
    * @param documentId Document identifier
    * @param frameNumber Frame number
+   * @param tileIndex Tile within the frame when the video is tiled (default: 0)
+   * @param channel Color plane within the tile when the video is color-multiplexed (default: 0)
    * @returns Decoded text or null
    */
   public async getFrameByNumber(
     videoPath: string,
-    frameNumber: number
+    frameNumber: number,
+    tileIndex: number = 0,
+    channel: number = 0
   ): Promise<string | null> {
-    const cacheKey = `${videoPath}:${frameNumber}`;
-    
-    // Check cache
-    const cached = this.frameCache.get(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    // Extract and decode
-    const frameBuffer = await this.extractFrameAsBuffer(videoPath, frameNumber);
-    if (!frameBuffer) {
-      return null;
-    }
-
-    const decodedText = await this.decodeQrCodeFromBuffer(frameBuffer);
-    if (decodedText) {
-      this.addToCache(cacheKey, decodedText);
-    }
-
-    return decodedText;
+    const results = await this.batchDecodeFrames(videoPath, [frameNumber], tileIndex, channel);
+    return results.get(frameNumber) ?? null;
   }
 
   /**
@@ -368,6 +948,15 @@ export class QRVideoStoreRetriever {
    */
   public clearCache(): void {
     this.frameCache.clear();
+    this.videoInfoCache.clear();
+    this.dataStartCache.clear();
+    this.shardLayoutCache.clear();
+    this.videoRevisions.clear();
+    this.localCopies.clear();
+    if (this.localCopyDir) {
+      fs.rmSync(this.localCopyDir, { recursive: true, force: true });
+      this.localCopyDir = null;
+    }
     if (this.verbose) {
       console.log('[QRVideoStoreRetriever] Cache cleared');
     }
@@ -386,7 +975,7 @@ export class QRVideoStoreRetriever {
   /**
    * Add item to cache with LRU eviction
    */
-  private addToCache(key: string, value: string): void {
+  private addToCache(key: string, value: Buffer): void {
     // Simple LRU: if cache is full, remove oldest entry
     if (this.frameCache.size >= this.maxCacheSize) {
       const firstKey = this.frameCache.keys().next().value;
@@ -400,29 +989,345 @@ export class QRVideoStoreRetriever {
 
   /**
    * Batch decode multiple frames from a video
-   * 
-   * @param videoPath Path to video file
+   *
+   * Frame numbers of a sharded store are routed to the shard holding them.
+   *
+   * @param videoPath Path to video file, or the output path of a sharded store
    * @param frameNumbers Array of frame numbers to decode
-   * @returns Map of frame number to decoded text
+   * @param tileIndex Tile to decode in each frame when the video is tiled (default: 0)
+   * @param channel Color plane to decode when the video is color-multiplexed (default: 0)
+   * @returns Map of frame number to decoded text of the chunk holding that frame
    */
   public async batchDecodeFrames(
     videoPath: string,
-    frameNumbers: number[]
+    frameNumbers: number[],
+    tileIndex: number = 0,
+    channel: number = 0
   ): Promise<Map<number, string>> {
-    const results = new Map<number, string>();
-
     if (this.verbose) {
       console.log(`[QRVideoStoreRetriever] Batch decoding ${frameNumbers.length} frames`);
     }
 
+    const tilesPerFrame = getTilesPerFrame(this.layout.tileGrid);
+    if (!Number.isInteger(tileIndex) || tileIndex < 0 || tileIndex >= tilesPerFrame) {
+      throw new Error(`Tile ${tileIndex} is out of range for ${tilesPerFrame} tiles per frame`);
+    }
+    const channels = getChannelCount(this.layout.colorMode);
+    if (!Number.isInteger(channel) || channel < 0 || channel >= channels) {
+      throw new Error(`Channel ${channel} is out of range for ${channels} color planes`);
+    }
+
+    const shardLayout = await this.getShardLayout(videoPath);
+    if (shardLayout) {
+      return this.batchDecodeShardFrames(videoPath, shardLayout, frameNumbers, tileIndex, channel);
+    }
+
+    // Unlike search hits, explicitly requested frames must exist
+    if (!(await this.videoExists(videoPath))) {
+      throw new Error(`Video file not found: ${videoPath}`);
+    }
+    const info = await this.getVideoInfo(videoPath);
+    for (const frameNumber of frameNumbers) {
+      assertFrameInRange(info, frameNumber, videoPath);
+    }
+
+    const layout = await this.getVideoLayout(videoPath);
+    const toSlot = (frameNumber: number) => getQrSlot({ frameNumber, tileIndex, channel }, layout);
+    const payloads = await this.decodeFramePayloads(videoPath, frameNumbers.map(toSlot), layout);
+
+    // Fetch the remaining QR codes of multi-frame chunks in a second pass
+    const chunkSlots = new Map<number, number[]>();
     for (const frameNumber of frameNumbers) {
-      const text = await this.getFrameByNumber(videoPath, frameNumber);
-      if (text) {
+      const payload = payloads.get(toSlot(frameNumber));
+      if (payload) {
+        chunkSlots.set(frameNumber, this.getChunkSlotsOf(toSlot(frameNumber), payload));
+      }
+    }
+    const missing = Array.from(chunkSlots.values())
+      .flat()
+      .filter(slot => !payloads.has(slot));
+    if (missing.length > 0) {
+      for (const [slot, payload] of await this.decodeFramePayloads(videoPath, missing, layout)) {
+        payloads.set(slot, payload);
+      }
+    }
+
+    const results = new Map<number, string>();
+    for (const [frameNumber, slots] of chunkSlots) {
+      const text = this.decodeChunkText(payloads, slots, layout);
+      if (text !== null) {
         results.set(frameNumber, text);
       }
     }
 
     return results;
   }
+
+  /**
+   * Batch decode frames of a sharded store, one shard at a time
+   */
+  private async batchDecodeShardFrames(
+    storePath: string,
+    shardLayout: ShardLayout,
+    frameNumbers: number[],
+    tileIndex: number,
+    channel: number
+  ): Promise<Map<number, string>> {
+    const byShard = new Map<VideoShard, number[]>();
+    for (const frameNumber of frameNumbers) {
+      const shard = findShard(shardLayout, frameNumber);
+      if (!shard) {
+        const frameCount = shardLayout.shards.reduce((sum, { frameCount }) => sum + frameCount, 0);
+        throw new Error(
+          `Frame ${frameNumber} is out of range for ${storePath} (store has ${frameCount} frames)`
+        );
+      }
+      byShard.set(shard, [...(byShard.get(shard) ?? []), frameNumber]);
+    }
+
+    const results = new Map<number, string>();
+    for (const [shard, shardFrames] of byShard) {
+      const texts = await this.batchDecodeFrames(
+        resolveShardPath(storePath, shard),
+        shardFrames.map(frameNumber => frameNumber - shard.startFrame),
+        tileIndex,
+        channel
+      );
+      for (const [frameNumber, text] of texts) {
+        results.set(shard.startFrame + frameNumber, text);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Decode QR payloads through the cache, extracting all misses in a single FFmpeg pass
+   *
+   * QR codes are addressed by slot (see `getQrSlot`), so the QR codes of a
+   * chunk always occupy consecutive slots. Only the requested tiles of each
+   * frame are cropped and split into color planes. With parity, QR codes
+   * that are unreadable or fail validation are rebuilt from the rest of
+   * their parity group (see `recoverFromParity`).
+   *
+   * @param videoPath Path to video file
+   * @param slots Slots to decode
+   * @param layout Tile grid, color mode and parity of the frames (default: the retriever's layout)
+   * @returns Map of slot to raw QR payload (QR codes that fail to decode are omitted)
+   */
+  private async decodeFramePayloads(
+    videoPath: string,
+    slots: number[],
+    layout: FrameLayout = this.layout
+  ): Promise<Map<number, Buffer>> {
+    const results = new Map<number, Buffer>();
+    const misses: number[] = [];
+
+    await this.checkVideoRevision(videoPath);
+    for (const slot of new Set(slots)) {
+      const cached = this.frameCache.get(getCacheKey(videoPath, layout, slot));
+      if (cached) {
+        results.set(slot, cached);
+      } else {
+        misses.push(slot);
+      }
+    }
+
+    if (misses.length === 0) {
+      return results;
+    }
+
+    if (!(await this.videoExists(videoPath))) {
+      throw new Error(`Video file not found: ${videoPath}`);
+    }
+
+    // Slots past the end of the video (such as hits for another video in a
+    // shared database) cannot decode, so they are left out of the results
+    const info = await this.getVideoInfo(videoPath);
+    const inRange = misses.filter(slot => {
+      const { frameNumber } = getQrPosition(slot, layout);
+      return frameNumber >= 0 && frameNumber < info.frameCount;
+    });
+    if (inRange.length === 0) {
+      return results;
+    }
+
+    const positions = inRange.map(slot => getQrPosition(slot, layout));
+    await this.decodeQrPositions(videoPath, info, positions, layout, (position, payload) => {
+      results.set(getQrSlot(position, layout), payload);
+    });
+
+    if (layout.parity) {
+      await this.recoverFromParity(videoPath, info, inRange, results, layout);
+    }
+
+    for (const slot of inRange) {
+      const payload = results.get(slot);
+      if (payload) {
+        this.addToCache(getCacheKey(videoPath, layout, slot), payload);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Decode the QR codes at the given positions in a single FFmpeg pass
+   *
+   * QR codes that do not read are skipped.
+   *
+   * @param onPayload Called with each QR code that decodes
+   * @throws VideoDecodeError if FFmpeg fails to decode the video
+   */
+  private async decodeQrPositions(
+    videoPath: string,
+    info: VideoStreamInfo,
+    positions: QrPosition[],
+    layout: FrameLayout,
+    onPayload: (position: Required<QrPosition>, payload: Buffer) => void
+  ): Promise<void> {
+    const { tileGrid, colorMode } = layout;
+    // Frame number -> tile index -> requested channels
+    const requested = new Map<number, Map<number, number[]>>();
+    for (const { frameNumber, tileIndex = 0, channel = 0 } of positions) {
+      const tiles = requested.get(frameNumber) ?? new Map<number, number[]>();
+      tiles.set(tileIndex, [...(tiles.get(tileIndex) ?? []), channel]);
+      requested.set(frameNumber, tiles);
+    }
+
+    const frameNumbers = Array.from(requested.keys());
+    const localPath = await this.getLocalPath(videoPath);
+    try {
+      await decodeRawFrames(localPath, info, frameNumbers, (frameNumber, pixels) => {
+        for (const [tileIndex, channels] of requested.get(frameNumber) ?? []) {
+          const tile = cropTile(pixels, info.width, info.height, tileGrid, tileIndex);
+          const planes = demultiplexPixels(tile.pixels, colorMode);
+          for (const channel of channels) {
+            const payload = this.decodeQrBytesFromPixels(planes[channel], tile.width, tile.height);
+            if (payload) {
+              onPayload({ frameNumber, tileIndex, channel }, payload);
+            }
+          }
+        }
+      });
+    } catch (error) {
+      throw new VideoDecodeError(
+        videoPath,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Rebuild unreadable QR codes from the other data frames and the parity frames of their group
+   *
+   * The QR codes at the same tile and color plane of every frame in the
+   * group are decoded in one more FFmpeg pass, then missing payloads are
+   * solved for. Rebuilt payloads are added to `results`.
+   *
+   * @param slots Slots that were requested
+   * @param results Payloads decoded so far, keyed by slot
+   */
+  private async recoverFromParity(
+    videoPath: string,
+    info: VideoStreamInfo,
+    slots: number[],
+    results: Map<number, Buffer>,
+    layout: FrameLayout
+  ): Promise<void> {
+    const parity = layout.parity;
+    const damaged = slots.filter(slot => !isValidFrame(results.get(slot)));
+    if (!parity || damaged.length === 0) {
+      return;
+    }
+
+    // One group per first frame, tile and color plane of a damaged QR code
+    const keyOf = (position: QrPosition) =>
+      `${position.frameNumber}:${position.tileIndex ?? 0}:${position.channel ?? 0}`;
+    const groups = new Map<string, QrPosition & { frames: number[]; parityFrames: number[] }>();
+    for (const slot of damaged) {
+      const position = getQrPosition(slot, layout);
+      const group = getParityGroup(position.frameNumber, { ...layout, parity }, info.frameCount);
+      groups.set(keyOf({ ...position, frameNumber: group.parityFrames[0] }), {
+        ...position,
+        frames: group.dataFrames,
+        parityFrames: group.parityFrames,
+      });
+    }
+
+    const payloads = new Map<string, Buffer>();
+    const pending: QrPosition[] = [];
+    for (const group of groups.values()) {
+      for (const frameNumber of [...group.frames, ...group.parityFrames]) {
+        const position = { frameNumber, tileIndex: group.tileIndex, channel: group.channel };
+        const known = group.frames.includes(frameNumber)
+          ? results.get(getQrSlot(position, layout))
+          : undefined;
+        if (isValidFrame(known)) {
+          payloads.set(keyOf(position), known!);
+        } else if (frameNumber < info.frameCount) {
+          pending.push(position);
+        }
+      }
+    }
+
+    await this.decodeQrPositions(videoPath, info, pending, layout, (position, payload) => {
+      payloads.set(keyOf(position), payload);
+    });
+
+    for (const group of groups.values()) {
+      const at = (frameNumber: number) =>
+        payloads.get(keyOf({ frameNumber, tileIndex: group.tileIndex, channel: group.channel }));
+      const data = group.frames.map(frameNumber => {
+        const payload = at(frameNumber);
+        return isValidFrame(payload) ? payload : undefined;
+      });
+      const recovered = recoverDataPayloads(data, group.parityFrames.map(at), parity);
+
+      if (!recovered) {
+        if (this.verbose) {
+          console.warn(
+            `[QRVideoStoreRetriever] Too many unreadable QR codes to recover ${formatQrPosition(group)} from parity`
+          );
+        }
+        continue;
+      }
+
+      recovered.forEach((payload, i) => {
+        const position = { ...group, frameNumber: group.frames[i] };
+        const slot = getQrSlot(position, layout);
+        if (payload && !isValidFrame(results.get(slot))) {
+          results.set(slot, Buffer.from(payload));
+          if (this.verbose) {
+            console.log(
+              `[QRVideoStoreRetriever] Recovered ${formatQrPosition(position)} from parity`
+            );
+          }
+        }
+      });
+    }
+  }
 }
 
+/**
+ * Cache key of a decoded QR code
+ */
+function getCacheKey(videoPath: string, layout: FrameLayout, slot: number): string {
+  const { tileGrid, colorMode } = layout;
+  return `${videoPath}:${tileGrid.columns}x${tileGrid.rows}:${colorMode}:${slot}`;
+}
+
+/**
+ * Slots (see `getQrSlot`) holding an index entry, in order
+ */
+function getEntrySlots(
+  entry: Pick<QRVideoStoreIndexEntry, 'frameNumber' | 'tileIndex' | 'channel' | 'frameCount'>,
+  layout: FrameLayout
+): number[] {
+  const first = getQrSlot(entry, layout);
+  const slots: number[] = [];
+  for (let i = 0; i < (entry.frameCount ?? 1); i++) {
+    slots.push(first + i);
+  }
+  return slots;
+}
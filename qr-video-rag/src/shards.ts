@@ -0,0 +1,122 @@
+/**
+ * QR Video RAG - Shards
+ *
+ * Layout file and naming of stores split across several videos
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ShardLayout, ShardOptions, VideoShard, VideoStorageBackend } from './types';
+import { writeFileAtomic } from './files';
+
+/**
+ * On-disk format of a shard layout
+ */
+interface ShardLayoutFile extends ShardLayout {
+  version: number;
+}
+
+const SHARD_LAYOUT_VERSION = 1;
+
+/**
+ * Path of the layout file listing the shards of a store
+ *
+ * @param storePath Output path the store was written to, e.g. `./videos/kb.mp4`
+ */
+export function getShardLayoutPath(storePath: string): string {
+  return `${storePath}.shards.json`;
+}
+
+/**
+ * Path of the shard with the given number, next to the store path
+ *
+ * Shards are numbered from 0 in the order they were written, e.g.
+ * `kb.shard-0000.mp4`, `kb.shard-0001.mp4` for the store `kb.mp4`.
+ */
+export function getShardPath(storePath: string, index: number): string {
+  const { dir, name, ext } = path.parse(storePath);
+  return path.join(dir, `${name}.shard-${String(index).padStart(4, '0')}${ext}`);
+}
+
+/**
+ * Resolve the file of a shard listed in a store's layout
+ */
+export function resolveShardPath(storePath: string, shard: VideoShard): string {
+  return path.join(path.dirname(storePath), shard.path);
+}
+
+/**
+ * Shard holding a frame of a store
+ *
+ * @returns The shard, or undefined if the frame is past the end of the store
+ */
+export function findShard(layout: ShardLayout, frameNumber: number): VideoShard | undefined {
+  return layout.shards.find(
+    shard => frameNumber >= shard.startFrame && frameNumber < shard.startFrame + shard.frameCount
+  );
+}
+
+/**
+ * Check that shard limits are positive and at least one is set
+ */
+export function assertValidShardOptions(options: ShardOptions): void {
+  const { maxFrames, maxBytes } = options;
+  if (maxFrames === undefined && maxBytes === undefined) {
+    throw new Error('Shard options need maxFrames or maxBytes');
+  }
+  if (maxFrames !== undefined && (!Number.isInteger(maxFrames) || maxFrames < 1)) {
+    throw new Error(`Invalid shard maxFrames ${maxFrames}, expected a positive integer`);
+  }
+  if (maxBytes !== undefined && !(maxBytes > 0)) {
+    throw new Error(`Invalid shard maxBytes ${maxBytes}, expected a positive number`);
+  }
+}
+
+/**
+ * Read the shard layout of a store
+ *
+ * @param storePath Output path the store was written to
+ * @param storage Backend the store is kept in (default: the local file system)
+ * @returns The layout, or null if the store is not sharded
+ */
+export async function readShardLayout(
+  storePath: string,
+  storage?: VideoStorageBackend
+): Promise<ShardLayout | null> {
+  const layoutPath = getShardLayoutPath(storePath);
+  let raw: string;
+  try {
+    if (storage) {
+      if (!(await storage.exists(layoutPath))) {
+        return null;
+      }
+      raw = (await storage.load(layoutPath)).toString('utf8');
+    } else {
+      raw = await fs.promises.readFile(layoutPath, 'utf8');
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as ShardLayoutFile;
+  if (!parsed || !Array.isArray(parsed.shards)) {
+    throw new Error(`Invalid shard layout: ${layoutPath}`);
+  }
+  if (parsed.version > SHARD_LAYOUT_VERSION) {
+    throw new Error(`Unsupported shard layout version ${parsed.version}: ${layoutPath}`);
+  }
+
+  return { shards: parsed.shards };
+}
+
+/**
+ * Write the shard layout of a store atomically
+ */
+export async function writeShardLayout(storePath: string, layout: ShardLayout): Promise<void> {
+  const layoutPath = getShardLayoutPath(storePath);
+  const data: ShardLayoutFile = { version: SHARD_LAYOUT_VERSION, shards: layout.shards };
+  await writeFileAtomic(layoutPath, JSON.stringify(data, null, 2));
+}
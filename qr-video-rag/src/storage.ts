@@ -0,0 +1,141 @@
+/**
+ * QR Video RAG - Storage
+ *
+ * Local working copies of videos kept in a storage backend
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VideoStorageBackend } from './types';
+import { probeVideo } from './video';
+import { getShardLayoutPath, readShardLayout, resolveShardPath, writeShardLayout } from './shards';
+
+/** Bytes fetched per ranged read when downloading a video */
+const DOWNLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * What a local working copy is used for
+ *
+ * - `read`: the video, or the layout and every shard of a sharded store, is downloaded
+ * - `write`: only the shard layout is downloaded, so new shards continue it
+ * - `update`: the video is downloaded and saved back
+ */
+export type LocalCopyAccess = 'read' | 'write' | 'update';
+
+/**
+ * Download a video from a storage backend to a local file
+ *
+ * Backends with `loadRange` and `size` are read in 8 MB parts, so the
+ * whole video is never held in memory.
+ *
+ * @throws If the video is not in the backend
+ */
+export async function downloadVideo(
+  storage: VideoStorageBackend,
+  videoPath: string,
+  localPath: string
+): Promise<void> {
+  if (!(await storage.exists(videoPath))) {
+    throw new Error(`Video file not found: ${videoPath}`);
+  }
+
+  await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+  if (!storage.loadRange || !storage.size) {
+    await fs.promises.writeFile(localPath, await storage.load(videoPath));
+    return;
+  }
+
+  const size = await storage.size(videoPath);
+  const file = await fs.promises.open(localPath, 'w');
+  try {
+    for (let start = 0; start < size; start += DOWNLOAD_PART_SIZE) {
+      await file.write(
+        await storage.loadRange(videoPath, start, Math.min(size, start + DOWNLOAD_PART_SIZE))
+      );
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Run an operation on a local working copy of a video kept in a storage backend
+ *
+ * The copy lives in a fresh temporary directory that is removed afterwards.
+ * After `write` and `update` operations succeed, every file left in the
+ * directory is saved next to `videoPath` in the backend, shard layouts
+ * last so readers never see a layout listing missing shards.
+ *
+ * @param storage Backend holding the video
+ * @param videoPath Path or key of the video, or of a sharded store
+ * @param access What is downloaded and whether the result is saved back
+ * @param operation Called with the path of the local copy
+ * @returns Result of the operation
+ */
+export async function withLocalCopy<T>(
+  storage: VideoStorageBackend,
+  videoPath: string,
+  access: LocalCopyAccess,
+  operation: (localPath: string) => Promise<T>
+): Promise<T> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'qr-video-rag-'));
+  const localPath = path.join(dir, path.basename(videoPath));
+
+  try {
+    const layout = await readShardLayout(videoPath, storage);
+    if (layout) {
+      await writeShardLayout(localPath, layout);
+      if (access === 'read') {
+        for (const shard of layout.shards) {
+          await downloadVideo(
+            storage,
+            resolveShardPath(videoPath, shard),
+            resolveShardPath(localPath, shard)
+          );
+        }
+      }
+    } else if (access !== 'write') {
+      await downloadVideo(storage, videoPath, localPath);
+    }
+
+    const result = await operation(localPath);
+
+    if (access !== 'read') {
+      const layoutName = path.basename(getShardLayoutPath(localPath));
+      const files = (await fs.promises.readdir(dir)).sort(
+        (a, b) => Number(a === layoutName) - Number(b === layoutName)
+      );
+      for (const file of files) {
+        const data = await fs.promises.readFile(path.join(dir, file));
+        await storage.save(path.join(path.dirname(videoPath), file), data);
+      }
+    }
+
+    return result;
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Number of frames in a video, or in all shards of a sharded store
+ *
+ * @param storePath Path of the video or sharded store
+ * @param storage Backend the video is kept in (default: the local file system)
+ */
+export async function getStoreFrameCount(
+  storePath: string,
+  storage?: VideoStorageBackend
+): Promise<number> {
+  const layout = await readShardLayout(storePath, storage);
+  if (layout) {
+    return layout.shards.reduce((sum, shard) => sum + shard.frameCount, 0);
+  }
+  if (!storage) {
+    return (await probeVideo(storePath)).frameCount;
+  }
+  return withLocalCopy(storage, storePath, 'read', async localPath => {
+    return (await probeVideo(localPath)).frameCount;
+  });
+}
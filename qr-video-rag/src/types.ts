@@ -4,6 +4,66 @@
  * High-density knowledge storage for RAG systems using QR-encoded video
  */
 
+/**
+ * Compression applied to chunk bytes before QR encoding
+ */
+export type PayloadCodec = 'none' | 'deflate' | 'brotli';
+
+/**
+ * Reason a QR frame payload failed validation
+ *
+ * - `TRUNCATED`: the frame is shorter than its header or declared payload length
+ * - `UNSUPPORTED_VERSION`: the frame was written by a newer format version
+ * - `CHECKSUM_MISMATCH`: the CRC32 of the frame does not match its contents
+ * - `DOCUMENT_MISMATCH`: the frame belongs to a different document than the index entry
+ * - `CHUNK_MISMATCH`: the frame belongs to a different chunk or is out of order
+ * - `MISSING_PARTS`: some frames of a multi-frame chunk are missing
+ * - `DICTIONARY_MISMATCH`: the payload needs a missing or different shared dictionary
+ * - `CORRUPT_PAYLOAD`: the payload cannot be decompressed or mixes formats
+ */
+export type FrameDecodeErrorCode =
+  | 'TRUNCATED'
+  | 'UNSUPPORTED_VERSION'
+  | 'CHECKSUM_MISMATCH'
+  | 'DOCUMENT_MISMATCH'
+  | 'CHUNK_MISMATCH'
+  | 'MISSING_PARTS'
+  | 'DICTIONARY_MISMATCH'
+  | 'CORRUPT_PAYLOAD';
+
+/**
+ * Grid of QR code tiles packed into each data frame
+ */
+export interface TileGrid {
+  /** Tiles per row */
+  columns: number;
+  /** Tiles per column */
+  rows: number;
+}
+
+/**
+ * How QR symbols are stored in the color planes of a frame
+ *
+ * - `mono`: one black-and-white symbol per tile
+ * - `rgb`: three independent symbols per tile, in the red, green and blue planes
+ * - `yuv`: three independent symbols per tile, in the luma and both chroma planes
+ */
+export type ColorMode = 'mono' | 'rgb' | 'yuv';
+
+/**
+ * Reed-Solomon parity frames written after every group of data frames
+ *
+ * Each parity frame holds one parity QR code per tile and color plane, so
+ * up to `parityFrames` unreadable QR codes at the same position in a group
+ * can be rebuilt.
+ */
+export interface FrameParity {
+  /** Data frames per group (K) */
+  dataFrames: number;
+  /** Parity frames per group (M); K + M may not exceed 255 */
+  parityFrames: number;
+}
+
 /**
  * Configuration options for QR Video Store
  */
@@ -12,16 +72,79 @@ export interface QRVideoStoreConfig {
   chunkSize?: number;
   /** Overlap between chunks in characters (default: 50) */
   chunkOverlap?: number;
+  /** Strategy used to split documents into chunks (default: fixed-size character windows) */
+  chunker?: Chunker;
   /** Video frame rate (default: 1 FPS) */
   videoFps?: number;
   /** QR code error correction level (default: 'M') */
   qrErrorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+  /** Largest QR version (1-40) a frame may use; longer chunks span several frames (default: 40) */
+  qrMaxVersion?: number;
+  /** Compress chunk bytes before QR binary-mode encoding (default: 'none') */
+  payloadCodec?: PayloadCodec;
+  /** Shared deflate dictionary, e.g. from `trainPayloadDictionary()` (default: none) */
+  payloadDictionary?: Buffer;
   /** Video resolution (default: 256x256) */
   videoResolution?: { width: number; height: number };
+  /** Pack a grid of QR codes into each data frame (default: 1x1, one QR code per frame) */
+  tileGrid?: TileGrid;
+  /** Store three QR symbols per tile in separate color planes (default: 'mono') */
+  colorMode?: ColorMode;
+  /** Add Reed-Solomon parity frames after every group of data frames (default: none) */
+  parity?: FrameParity;
+  /** Codec, preset and container of the videos written (default: libx264/yuv420p in MP4) */
+  videoOptions?: Partial<Omit<VideoBuildOptions, 'outputPath'>>;
+  /**
+   * Read the video back before indexing it, retrying with safer settings on failure
+   * (default: 'full' with the `compact` preset, else 'none')
+   */
+  verify?: VerifyMode;
+  /**
+   * Split the output into several videos once a shard reaches a size limit (default: one video)
+   *
+   * `outputVideoPath` then names a store whose shards are listed in
+   * `<outputVideoPath>.shards.json`; adding a document writes new shards after the existing ones.
+   */
+  shard?: ShardOptions;
+  /**
+   * Backend finished videos are saved to (default: the local file system)
+   *
+   * Videos are encoded in a temporary directory and saved once complete.
+   */
+  storage?: VideoStorageBackend;
+  /** Write the chunk index into leading manifest frames of the video (default: false) */
+  embedIndex?: boolean;
+  /** Include chunk embeddings in the embedded index (default: false) */
+  embedIndexEmbeddings?: boolean;
   /** Enable verbose logging (default: false) */
   verbose?: boolean;
 }
 
+/**
+ * Options for QR Video Store Retriever
+ */
+export interface QRVideoStoreRetrieverOptions {
+  /** Enable verbose logging (default: false) */
+  verbose?: boolean;
+  /** Maximum number of decoded frames to cache (default: 50) */
+  maxCacheSize?: number;
+  /** Shared dictionary the video's payloads were compressed with */
+  payloadDictionary?: Buffer;
+  /** Tile grid the video was encoded with (`fromVideo()` reads it from the embedded index) */
+  tileGrid?: TileGrid;
+  /** Color mode the video was encoded with (`fromVideo()` reads it from the embedded index) */
+  colorMode?: ColorMode;
+  /** Parity frames the video was encoded with (`fromVideo()` reads them from the embedded index) */
+  parity?: FrameParity;
+  /**
+   * Backend the videos are loaded from (default: the local file system)
+   *
+   * Videos are downloaded to a temporary directory on first use and kept
+   * there until `clearCache()`.
+   */
+  storage?: VideoStorageBackend;
+}
+
 /**
  * Text chunk with metadata
  */
@@ -34,6 +157,37 @@ export interface Chunk {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Size limits passed to a chunker
+ */
+export interface ChunkerOptions {
+  /** Maximum chunk size in characters */
+  chunkSize: number;
+  /** Overlap between consecutive chunks in characters */
+  chunkOverlap: number;
+}
+
+/**
+ * Strategy for splitting a document into chunks
+ *
+ * Implementations must set `metadata.startPosition` and `metadata.endPosition`
+ * to the character offsets of each chunk in the source text.
+ */
+export interface Chunker {
+  /**
+   * Split text into chunks
+   * @param text Input text
+   * @param options Size limits
+   * @returns Chunks in document order, indexed from 0
+   */
+  chunk(text: string, options: ChunkerOptions): Chunk[];
+
+  /**
+   * Optional: Identifier of the strategy
+   */
+  name?: string;
+}
+
 /**
  * Entry in the QR Video Store index
  */
@@ -44,20 +198,256 @@ export interface QRVideoStoreIndexEntry {
   embedding: number[];
   /** Frame number in the video (0-indexed) */
   frameNumber: number;
+  /** Tile within the frame when the video is tiled (default: 0) */
+  tileIndex?: number;
+  /** Color plane within the tile when the video is color-multiplexed (default: 0) */
+  channel?: number;
+  /**
+   * Number of consecutive QR codes holding the chunk, starting at frameNumber/tileIndex/channel
+   * (default: 1). Without tiling or multiplexing each QR code is a frame; otherwise the chunk
+   * continues in the next color plane, then the next tile, then the first tile of the next frame.
+   */
+  frameCount?: number;
   /** Document identifier */
   documentId: string;
+  /**
+   * Stable ID of the chunk, derived from the document ID, chunk index and text (see
+   * `getChunkId`). An upsert replaces stored entries with the same ID.
+   */
+  chunkId?: string;
   /** Optional similarity score from search */
   similarity?: number;
   /** Optional metadata */
   metadata?: Record<string, any>;
 }
 
+/**
+ * Value a metadata field is compared with in a search filter
+ */
+export type MetadataValue = string | number | boolean | null;
+
+/**
+ * Range condition on a metadata field
+ *
+ * Bounds are compared with `<` and `>`, so numbers match numeric bounds and
+ * strings match string bounds (e.g. ISO dates); other values never match.
+ */
+export interface MetadataRange {
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+}
+
+/**
+ * Condition on one metadata field
+ *
+ * A plain value matches by equality (`null` also matches a missing field),
+ * `{ $in: [...] }` matches any of the listed values and a `MetadataRange`
+ * matches values within every given bound.
+ */
+export type MetadataCondition = MetadataValue | { $in: MetadataValue[] } | MetadataRange;
+
+/**
+ * Filter narrowing a vector search
+ *
+ * Entries must match every given part. The filter is applied before ranking,
+ * so a search returns up to `limit` matching entries.
+ *
+ * @example
+ * ```typescript
+ * const filter: SearchFilter = {
+ *   documentId: ['handbook', 'faq'],
+ *   metadata: { author: 'alice', lang: { $in: ['en', 'de'] }, version: { $gte: 2 } },
+ * };
+ * ```
+ */
+export interface SearchFilter {
+  /** Only entries of this document, or of any of these documents */
+  documentId?: string | string[];
+  /** Conditions on `metadata` fields, keyed by field name */
+  metadata?: Record<string, MetadataCondition>;
+}
+
+/**
+ * BM25 inverted index over the chunk texts of index entries
+ *
+ * Created by `createBm25Index`. Entries are indexed by identity, so callers
+ * remove the same objects they added. Database adapters keep one next to
+ * their entries to implement `VectorDatabase.searchText`.
+ */
+export interface Bm25Index {
+  /** Index entries by their chunk text */
+  add(entries: QRVideoStoreIndexEntry[]): void;
+  /** Remove entries added before */
+  remove(entries: QRVideoStoreIndexEntry[]): void;
+  /** Remove every entry */
+  clear(): void;
+  /**
+   * Rank indexed entries by BM25 score for a query
+   *
+   * @returns Up to `limit` entries containing at least one query term, with
+   * the score as `similarity`, highest first
+   */
+  search(query: string, limit: number, filter?: SearchFilter): QRVideoStoreIndexEntry[];
+}
+
+/**
+ * Parameters of an HNSW (hierarchical navigable small world) vector index
+ *
+ * Larger values raise recall at the cost of memory and build or query time.
+ */
+export interface HnswOptions {
+  /** Neighbors kept per node on upper layers; layer 0 keeps twice as many (default: 16) */
+  M?: number;
+  /** Candidates considered when linking a new node (default: 200) */
+  efConstruction?: number;
+  /** Candidates considered per query, raised to the query limit if lower (default: 50) */
+  efSearch?: number;
+  /** Seed of the random layer assignment, for reproducible graphs (default: 1) */
+  seed?: number;
+}
+
+/**
+ * How a database adapter stores embeddings
+ *
+ * - `float64`: as given, 8 bytes per dimension
+ * - `float32`: 4 bytes per dimension
+ * - `int8`: scalar-quantized to -127..127 with one scale per embedding, 1 byte per dimension
+ * - `binary`: the sign of each dimension, 1 bit per dimension; similarity is estimated
+ *   from the number of matching signs
+ */
+export type EmbeddingQuantization = 'float64' | 'float32' | 'int8' | 'binary';
+
+/**
+ * Quantized embedding storage of a database adapter
+ */
+export interface QuantizationOptions {
+  /** Storage format of the embeddings */
+  type: EmbeddingQuantization;
+  /**
+   * Keep the full-precision embeddings as well and re-rank the best quantized
+   * matches with them (default: false). Restores exact ranking at the cost of
+   * the memory and disk space quantization saves.
+   */
+  rescore?: boolean;
+  /** Quantized matches re-ranked per requested result when `rescore` is set (default: 4) */
+  oversample?: number;
+}
+
+/**
+ * Options of the bundled in-memory and file database adapters
+ */
+export interface DatabaseAdapterOptions {
+  /**
+   * Search an HNSW graph instead of comparing the query with every entry
+   * (default: exact search). Pass `{}` for the default parameters.
+   */
+  hnsw?: HnswOptions;
+  /**
+   * Store embeddings quantized (default: float64). Cannot be combined with
+   * `hnsw`, whose graph keeps full-precision vectors.
+   */
+  quantization?: QuantizationOptions;
+}
+
+/**
+ * Size of the embeddings held by a vector database
+ */
+export interface VectorDatabaseStats {
+  /** Number of stored entries */
+  entryCount: number;
+  /** Dimensions of the stored embeddings (0 when empty) */
+  dimensions: number;
+  /** Storage format of the embeddings */
+  quantization: EmbeddingQuantization;
+  /** Bytes of embedding data held in memory, including full-precision copies kept for re-scoring */
+  embeddingMemoryBytes: number;
+  /** Bytes the same embeddings take as float64 */
+  unquantizedBytes: number;
+  /** Size of the index file on disk, for file-backed databases */
+  diskBytes?: number;
+}
+
+/**
+ * HNSW graph serialized alongside the entries it indexes
+ *
+ * Nodes are listed in the order of the entries, so node `i` indexes entry `i`.
+ */
+export interface SerializedHnswGraph {
+  /** Parameters the graph was built with */
+  options: Required<HnswOptions>;
+  /** Node the search starts from, or -1 for an empty graph */
+  entryPoint: number;
+  /** Neighbor lists of each node, one per layer from layer 0 up to the node's level */
+  nodes: number[][][];
+}
+
+/**
+ * Approximate nearest-neighbour index over entry embeddings
+ *
+ * Created by `createHnswIndex`. Like `Bm25Index`, entries are indexed by
+ * identity and can be added and removed one at a time.
+ */
+export interface HnswIndex {
+  /** Number of indexed entries */
+  readonly size: number;
+  /** Link entries into the graph */
+  add(entries: QRVideoStoreIndexEntry[]): void;
+  /** Unlink entries added before, reconnecting their neighbors */
+  remove(entries: QRVideoStoreIndexEntry[]): void;
+  /** Remove every entry */
+  clear(): void;
+  /**
+   * Find the entries most similar to an embedding
+   *
+   * @returns Up to `limit` entries matching the filter, with cosine similarity
+   * as `similarity`, highest first
+   */
+  search(embedding: number[], limit: number, filter?: SearchFilter): QRVideoStoreIndexEntry[];
+  /**
+   * Serialize the graph for the given entries
+   *
+   * @param entries Every indexed entry, in the order they are stored
+   */
+  serialize(entries: QRVideoStoreIndexEntry[]): SerializedHnswGraph;
+}
+
+/**
+ * How hybrid search combines the vector and keyword rankings
+ *
+ * - `rrf`: reciprocal rank fusion, `weight / (rrfK + rank)` summed over both rankings
+ * - `weighted`: weighted sum of the scores, each min-max normalized to 0..1 within its ranking
+ */
+export type HybridFusion = 'rrf' | 'weighted';
+
+/**
+ * Per-query options of hybrid (vector + BM25) search
+ */
+export interface HybridSearchOptions {
+  /** How the rankings are combined (default: 'rrf') */
+  fusion?: HybridFusion;
+  /** Weight of the vector ranking (default: 1) */
+  vectorWeight?: number;
+  /** Weight of the keyword ranking (default: 1) */
+  lexicalWeight?: number;
+  /** Rank constant of reciprocal rank fusion (default: 60) */
+  rrfK?: number;
+  /** Hits taken from each ranking before fusion (default: 4 × matchCount) */
+  candidates?: number;
+  /** Optional filter applied to both rankings */
+  filter?: SearchFilter;
+}
+
 /**
  * Interface for vector database operations
  */
 export interface VectorDatabase {
   /**
    * Insert or update entries in the database
+   *
+   * Entries with a `chunkId` replace stored entries with the same ID, so
+   * upserting the same chunks again does not duplicate them.
    * @param entries Array of index entries to upsert
    */
   upsert(entries: QRVideoStoreIndexEntry[]): Promise<void>;
@@ -66,9 +456,29 @@ export interface VectorDatabase {
    * Search for similar entries
    * @param embedding Query embedding vector
    * @param limit Maximum number of results
+   * @param filter Optional filter the entries must match (see `matchesFilter`)
    * @returns Array of matching entries with similarity scores
    */
-  search(embedding: number[], limit: number): Promise<QRVideoStoreIndexEntry[]>;
+  search(
+    embedding: number[],
+    limit: number,
+    filter?: SearchFilter
+  ): Promise<QRVideoStoreIndexEntry[]>;
+
+  /**
+   * Optional: Rank entries by keyword relevance of their chunk text (BM25)
+   *
+   * Required by the retriever's hybrid search.
+   * @param query Search query text
+   * @param limit Maximum number of results
+   * @param filter Optional filter the entries must match
+   * @returns Entries containing query terms, with their keyword score as `similarity`
+   */
+  searchText?(
+    query: string,
+    limit: number,
+    filter?: SearchFilter
+  ): Promise<QRVideoStoreIndexEntry[]>;
 
   /**
    * Optional: Delete entries by document ID
@@ -80,6 +490,33 @@ export interface VectorDatabase {
    * Optional: Clear all entries
    */
   clear?(): Promise<void>;
+
+  /**
+   * Optional: List every stored entry
+   * @returns All entries, without similarity scores
+   */
+  list?(): Promise<QRVideoStoreIndexEntry[]>;
+
+  /**
+   * Optional: Replace every entry of a document in one atomic write
+   *
+   * Used when a document is encoded again, so searches never see a mix of
+   * its old and new entries.
+   */
+  replaceDocument?(documentId: string, entries: QRVideoStoreIndexEntry[]): Promise<void>;
+
+  /**
+   * Optional: Report how much memory and disk the stored embeddings take
+   */
+  getStats?(): Promise<VectorDatabaseStats>;
+
+  /**
+   * Optional: Replace every stored entry in one atomic write
+   *
+   * Readers see either the previous entries or the new ones, never a mix.
+   * @param entries Complete set of entries to store
+   */
+  replaceAll?(entries: QRVideoStoreIndexEntry[]): Promise<void>;
 }
 
 /**
@@ -97,6 +534,11 @@ export interface Embedder {
    * Optional: Get embedding dimension
    */
   dimension?(): number;
+
+  /**
+   * Optional: Identifier of the embedding model, recorded in embedded indexes
+   */
+  name?: string;
 }
 
 /**
@@ -128,6 +570,41 @@ export interface VideoStorageBackend {
    * @param videoPath Path or key for the video
    */
   delete?(videoPath: string): Promise<void>;
+
+  /**
+   * Optional: Load a byte range of a video file, so large videos can be
+   * fetched in pieces instead of one buffer
+   * @param videoPath Path or key for the video
+   * @param start Offset of the first byte
+   * @param end Offset after the last byte
+   */
+  loadRange?(videoPath: string, start: number, end: number): Promise<Buffer>;
+
+  /**
+   * Optional: Size of a video file in bytes
+   * @param videoPath Path or key for the video
+   */
+  size?(videoPath: string): Promise<number>;
+}
+
+/**
+ * Connection options of an S3-compatible storage backend
+ */
+export interface S3StorageOptions {
+  /** Service endpoint, e.g. `https://s3.amazonaws.com`, or `http://localhost:9000` for MinIO */
+  endpoint: string;
+  /** Bucket holding the videos */
+  bucket: string;
+  /** Region used to sign requests (default: 'us-east-1') */
+  region?: string;
+  /** Access key ID */
+  accessKeyId: string;
+  /** Secret access key */
+  secretAccessKey: string;
+  /** Session token of temporary credentials */
+  sessionToken?: string;
+  /** Key prefix prepended to every video path, e.g. `videos/` */
+  prefix?: string;
 }
 
 /**
@@ -138,12 +615,46 @@ export interface SearchResult {
   text: string;
   /** Similarity score (0-1) */
   similarity: number;
-  /** Frame number in video */
+  /** Frame number in video (first frame if the chunk spans several) */
   frameNumber: number;
+  /** Tile within the frame when the video is tiled */
+  tileIndex?: number;
+  /** Color plane within the tile when the video is color-multiplexed */
+  channel?: number;
+  /** Number of QR codes (frames, tiles or planes) the chunk spans (default: 1) */
+  frameCount?: number;
   /** Document ID */
   documentId: string;
   /** Optional metadata */
   metadata?: Record<string, any>;
+  /** Video the chunk was decoded from (set by `QRVideoCollection.search`) */
+  videoPath?: string;
+}
+
+/**
+ * Where a document of a `QRVideoCollection` is stored
+ */
+export interface VideoCatalogEntry {
+  /** Document ID */
+  documentId: string;
+  /** Video holding the document's frames */
+  videoPath: string;
+  /** First frame of the document */
+  startFrame: number;
+  /** Frame after the last frame of the document */
+  endFrame: number;
+}
+
+/**
+ * Options for a `QRVideoCollection`
+ */
+export interface QRVideoCollectionOptions {
+  /** JSON file the catalog is kept in (default: memory only) */
+  catalogPath?: string;
+  /** Encoder configuration shared by every video of the collection */
+  config?: QRVideoStoreConfig;
+  /** Maximum number of decoded frames to cache (default: 50) */
+  maxCacheSize?: number;
 }
 
 /**
@@ -154,7 +665,7 @@ export interface QRVideoStoreStats {
   totalChunks: number;
   /** Total number of frames in video */
   totalFrames: number;
-  /** Video file size in bytes */
+  /** Video file size in bytes, summed over the shards of a sharded store */
   videoSizeBytes: number;
   /** Original text size in bytes */
   originalSizeBytes: number;
@@ -162,22 +673,268 @@ export interface QRVideoStoreStats {
   compressionRatio: number;
   /** Video duration in seconds */
   durationSeconds: number;
+  /** Codec parameters of the video (of the first shard for sharded stores) */
+  codec?: VideoCodecInfo;
+  /** Number of videos in a sharded store */
+  shardCount?: number;
+  /** Embedding footprint of the whole database, when it implements `getStats` */
+  index?: VectorDatabaseStats;
 }
 
+/**
+ * Chunk record stored in an embedded video manifest
+ */
+export interface QRVideoStoreManifestChunk {
+  /** Document identifier */
+  documentId: string;
+  /** Index of the chunk in the document */
+  chunkIndex: number;
+  /** Stable chunk ID from `getChunkId` */
+  chunkId?: string;
+  /** Frame offset relative to the first data frame (after the manifest frames) */
+  frameOffset: number;
+  /** Tile within the frame when the video is tiled */
+  tileIndex?: number;
+  /** Color plane within the tile when the video is color-multiplexed */
+  channel?: number;
+  /** Number of consecutive QR codes holding the chunk (default: 1) */
+  frameCount?: number;
+  /** Start offset of the chunk in the document text */
+  startPosition?: number;
+  /** End offset of the chunk in the document text */
+  endPosition?: number;
+  /** Vector embedding (only when embeddings are embedded) */
+  embedding?: number[];
+  /** Optional metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Index manifest embedded in the leading frames of a self-contained video
+ */
+export interface QRVideoStoreManifest {
+  /** Manifest format version */
+  version: number;
+  /** Number of leading frames holding the manifest */
+  manifestFrames: number;
+  /** Embedder used to build the index */
+  embedder: {
+    name?: string;
+    dimension: number;
+  };
+  /** Payload codec of the data frames */
+  payloadCodec?: PayloadCodec;
+  /** Base64-encoded shared dictionary of the data frames */
+  payloadDictionary?: string;
+  /** Tile grid of the data frames (manifest frames always hold one QR code) */
+  tileGrid?: TileGrid;
+  /** Color mode of the data frames (manifest frames are always black and white) */
+  colorMode?: ColorMode;
+  /** Parity frames following each group of data frames */
+  parity?: FrameParity;
+  /** Chunk records in frame order */
+  chunks: QRVideoStoreManifestChunk[];
+}
+
+/**
+ * Options for rebuilding an index from a video
+ */
+export interface ReindexOptions {
+  /**
+   * Document ID for frames not described by an embedded manifest (default: video file name)
+   *
+   * In a video holding several documents, it names the document whose frame
+   * headers carry its hash; the others are indexed as `<documentId>#<hash>`.
+   */
+  documentId?: string;
+  /** Metadata to attach to rebuilt entries */
+  metadata?: Record<string, any>;
+  /** Shared dictionary the payloads were compressed with (default: the one in the embedded manifest) */
+  payloadDictionary?: Buffer;
+  /** Tile grid of the data frames (default: the one in the embedded manifest, else 1x1) */
+  tileGrid?: TileGrid;
+  /** Color mode of the data frames (default: the one in the embedded manifest, else 'mono') */
+  colorMode?: ColorMode;
+  /** Parity frames of the video (default: the ones in the embedded manifest, else none) */
+  parity?: FrameParity;
+  /** Enable verbose logging (default: false) */
+  verbose?: boolean;
+}
+
+/**
+ * Result of rebuilding an index from a video
+ */
+export interface ReindexReport {
+  /** Total number of frames in the video */
+  totalFrames: number;
+  /** Number of leading manifest frames skipped */
+  manifestFrames: number;
+  /** Number of entries upserted into the database */
+  indexedChunks: number;
+  /** Frame numbers whose QR code could not be decoded */
+  failedFrames: number[];
+  /** Data frames with a QR code that was unreadable but rebuilt from parity frames */
+  recoveredFrames: number[];
+}
+
+/**
+ * Size limits of the videos (shards) a store is split into
+ *
+ * A new shard starts before the chunk that would push the current one past
+ * a limit, so chunks never span two shards.
+ */
+export interface ShardOptions {
+  /** Maximum number of frames per shard, including parity frames */
+  maxFrames?: number;
+  /**
+   * Approximate maximum size of a shard in bytes, compared with what FFmpeg
+   * has written so far before each chunk
+   */
+  maxBytes?: number;
+}
+
+/**
+ * One video of a sharded store
+ */
+export interface VideoShard {
+  /** File name of the shard, in the directory of the store's layout file */
+  path: string;
+  /** Frame number of the shard's first frame within the store */
+  startFrame: number;
+  /** Number of frames in the shard */
+  frameCount: number;
+  /** Size of the shard in bytes */
+  sizeBytes: number;
+}
+
+/**
+ * Shards of a store in frame order, as recorded in `<store>.shards.json`
+ */
+export interface ShardLayout {
+  shards: VideoShard[];
+}
+
+/**
+ * Result of compacting a video
+ */
+export interface CompactionReport {
+  /** Path of the video */
+  videoPath: string;
+  /** Number of frames before compaction */
+  framesBefore: number;
+  /** Number of frames after compaction */
+  framesAfter: number;
+  /** Number of index entries whose position was remapped */
+  remappedEntries: number;
+  /** Size of the video before compaction, in bytes */
+  bytesBefore: number;
+  /** Size of the video after compaction, in bytes */
+  bytesAfter: number;
+  /** Bytes freed on disk (`bytesBefore - bytesAfter`) */
+  bytesReclaimed: number;
+}
+
+/**
+ * How much of a new video the encoder reads back before indexing it
+ *
+ * - `none`: index the video without reading it back
+ * - `sample`: decode up to 16 frames spread evenly over the video
+ * - `full`: decode every frame
+ */
+export type VerifyMode = 'none' | 'sample' | 'full';
+
+/**
+ * QR code that did not read back during encode-time verification
+ *
+ * - `unreadable`: no QR code was found, or its checksum failed
+ * - `mismatch`: the QR code decoded to different bytes than were encoded
+ * - `missing`: the video ended before the frame
+ */
+export interface VerificationFailure {
+  /** Frame number (0-indexed) */
+  frameNumber: number;
+  /** Tile within the frame (tiled videos only) */
+  tileIndex?: number;
+  /** Color plane within the tile (color-multiplexed videos only) */
+  channel?: number;
+  /** Why the QR code failed */
+  reason: 'unreadable' | 'mismatch' | 'missing';
+}
+
+/**
+ * One attempt at writing and verifying a video
+ */
+export interface VerificationAttempt {
+  /** QR error correction level the frames were rendered with */
+  qrErrorCorrectionLevel: 'L' | 'M' | 'Q' | 'H';
+  /** Codec, preset and container the video was written with */
+  videoOptions: Partial<Omit<VideoBuildOptions, 'outputPath'>>;
+  /** Number of frames decoded */
+  checkedFrames: number;
+  /** QR codes that did not read back */
+  failures: VerificationFailure[];
+}
+
+/**
+ * Outcome of encode-time verification, attached to `VideoVerificationError`
+ */
+export interface VerificationReport {
+  /** Path of the video */
+  videoPath: string;
+  /** Verification mode used */
+  mode: VerifyMode;
+  /** Every attempt, in order; the last one is the one that decided the outcome */
+  attempts: VerificationAttempt[];
+}
+
+/**
+ * Named codec settings for QR videos
+ *
+ * - `lossless`: no quantization at all (FFV1 in MKV, x264 RGB at QP 0 in MP4, lossless VP9/AV1 in WebM)
+ * - `seekable`: every frame is a keyframe, so any frame decodes without its predecessors
+ * - `compact`: a CRF tuned for QR codes, followed by a pass that decodes every frame back
+ */
+export type VideoPreset = 'lossless' | 'seekable' | 'compact';
+
+/**
+ * Container format of a video
+ */
+export type VideoContainer = 'mp4' | 'mkv' | 'webm';
+
 /**
  * Options for building video
  */
 export interface VideoBuildOptions {
   /** Output video path */
   outputPath: string;
-  /** Video codec (default: 'libx264') */
+  /** Video codec (default: 'libx264', 'libvpx-vp9' for WebM, or the preset's codec) */
   codec?: string;
-  /** Pixel format (default: 'yuv420p') */
+  /** Pixel format (default: 'yuv420p', or the preset's pixel format) */
   pixelFormat?: string;
+  /** Named codec settings applied before `ffmpegOptions` (default: none) */
+  preset?: VideoPreset;
+  /** Container format (default: from the output file extension, else 'mp4') */
+  container?: VideoContainer;
   /** Additional FFmpeg options */
   ffmpegOptions?: string[];
 }
 
+/**
+ * Codec parameters of an encoded video stream, as reported by ffprobe
+ */
+export interface VideoCodecInfo {
+  /** Codec name, e.g. 'h264', 'vp9', 'av1' or 'ffv1' */
+  codecName: string;
+  /** Codec profile, e.g. 'High 4:4:4 Predictive' */
+  profile?: string;
+  /** Pixel format, e.g. 'yuv420p' */
+  pixelFormat?: string;
+  /** Container format names, e.g. 'mov,mp4,m4a,3gp,3g2,mj2' */
+  container?: string;
+  /** Stream bit rate in bits per second */
+  bitRate?: number;
+}
+
 /**
  * Options for frame extraction
  */
@@ -190,3 +947,25 @@ export interface FrameExtractionOptions {
   format?: 'png' | 'jpg';
 }
 
+
+/**
+ * Stream information used to address frames in a video
+ */
+export interface VideoStreamInfo {
+  /** Frame width in pixels */
+  width: number;
+  /** Frame height in pixels */
+  height: number;
+  /** Frame rate in frames per second */
+  fps: number;
+  /** Duration of one timestamp tick in seconds */
+  timeBase: number;
+  /** Timestamp of the first frame in seconds */
+  startTime: number;
+  /** Total number of frames in the stream */
+  frameCount: number;
+  /** Stream duration in seconds */
+  durationSeconds: number;
+  /** Codec parameters of the stream */
+  codec?: VideoCodecInfo;
+}
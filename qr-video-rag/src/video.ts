@@ -0,0 +1,547 @@
+/**
+ * QR Video RAG - Video Utilities
+ *
+ * Frame addressing and FFmpeg piping helpers shared by the encoder and retriever
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegStatic from 'ffmpeg-static';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { VideoBuildOptions, VideoContainer, VideoPreset, VideoStreamInfo } from './types';
+
+if (ffmpegStatic) {
+  ffmpeg.setFfmpegPath(ffmpegStatic);
+}
+
+/**
+ * Parse an FFmpeg rational such as "30000/1001" or "1/1"
+ *
+ * @param rate Rational string reported by ffprobe
+ * @returns Numeric value, or 0 if the rate is missing or invalid
+ */
+export function parseRational(rate: string | number | undefined): number {
+  if (rate === undefined) {
+    return 0;
+  }
+  if (typeof rate === 'number') {
+    return Number.isFinite(rate) ? rate : 0;
+  }
+
+  const [numerator, denominator] = rate.split('/').map(Number);
+  if (denominator === undefined) {
+    return Number.isFinite(numerator) ? numerator : 0;
+  }
+  if (!Number.isFinite(numerator) || !Number.isFinite(denominator) || denominator === 0) {
+    return 0;
+  }
+  return numerator / denominator;
+}
+
+/**
+ * Probe the first video stream of a file
+ *
+ * @param videoPath Path to the video file
+ * @returns Frame rate, timebase and frame count of the video stream
+ *
+ * @example
+ * ```typescript
+ * const info = await probeVideo("./knowledge.mp4");
+ * console.log(`${info.frameCount} frames at ${info.fps} fps`);
+ * ```
+ */
+export async function probeVideo(videoPath: string): Promise<VideoStreamInfo> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(videoPath, (err, metadata) => {
+      if (err) {
+        reject(new Error(`FFprobe error: ${err.message}`));
+        return;
+      }
+
+      const stream = metadata.streams.find(s => s.codec_type === 'video');
+      if (!stream) {
+        reject(new Error(`No video stream found in ${videoPath}`));
+        return;
+      }
+
+      // r_frame_rate is the real base rate; avg_frame_rate can be skewed by the container
+      const fps = parseRational(stream.r_frame_rate) || parseRational(stream.avg_frame_rate);
+      if (fps <= 0) {
+        reject(new Error(`Unable to determine frame rate of ${videoPath}`));
+        return;
+      }
+
+      const durationSeconds =
+        parseFloat(String(stream.duration ?? '')) || metadata.format.duration || 0;
+      const nbFrames = parseInt(String(stream.nb_frames ?? ''), 10);
+      const frameCount =
+        Number.isFinite(nbFrames) && nbFrames > 0 ? nbFrames : Math.round(durationSeconds * fps);
+
+      const bitRate = parseInt(String(stream.bit_rate ?? metadata.format.bit_rate ?? ''), 10);
+
+      resolve({
+        width: stream.width ?? 0,
+        height: stream.height ?? 0,
+        fps,
+        timeBase: parseRational(stream.time_base) || 1 / fps,
+        startTime: parseFloat(String(stream.start_time ?? '')) || 0,
+        frameCount,
+        durationSeconds,
+        codec: {
+          codecName: stream.codec_name ?? 'unknown',
+          profile: stream.profile !== undefined ? String(stream.profile) : undefined,
+          pixelFormat: stream.pix_fmt,
+          container: metadata.format.format_name,
+          bitRate: Number.isFinite(bitRate) ? bitRate : undefined,
+        },
+      });
+    });
+  });
+}
+
+/**
+ * Check whether a frame number exists in the video
+ *
+ * @param info Probed stream information
+ * @param frameNumber Frame number (0-indexed)
+ */
+function isFrameInRange(info: VideoStreamInfo, frameNumber: number): boolean {
+  return Number.isInteger(frameNumber) && frameNumber >= 0 && frameNumber < info.frameCount;
+}
+
+/**
+ * Throw if a frame number does not exist in the video
+ *
+ * @param info Probed stream information
+ * @param frameNumber Frame number (0-indexed)
+ * @param videoPath Video path used in the error message
+ */
+export function assertFrameInRange(
+  info: VideoStreamInfo,
+  frameNumber: number,
+  videoPath: string
+): void {
+  if (!isFrameInRange(info, frameNumber)) {
+    throw new Error(
+      `Frame ${frameNumber} is out of range for ${videoPath} (video has ${info.frameCount} frames)`
+    );
+  }
+}
+
+/**
+ * Compute the input seek position that lands exactly on a frame
+ *
+ * FFmpeg's accurate seek drops every decoded frame whose timestamp is before
+ * the seek position. Seeking to the midpoint between the timestamps of frame
+ * N-1 and frame N (both rounded to the stream timebase, as the muxer stores
+ * them) makes frame N the first frame emitted regardless of rounding.
+ *
+ * @param info Probed stream information
+ * @param frameNumber Frame number (0-indexed)
+ * @returns Seek position in seconds, relative to the start of the file
+ */
+export function frameSeekTime(info: VideoStreamInfo, frameNumber: number): number {
+  if (frameNumber <= 0) {
+    return 0;
+  }
+
+  const ticksPerFrame = 1 / (info.fps * info.timeBase);
+  const previousPts = Math.round((frameNumber - 1) * ticksPerFrame);
+  const currentPts = Math.round(frameNumber * ticksPerFrame);
+  return ((previousPts + currentPts) / 2) * info.timeBase;
+}
+
+/**
+ * Extract a single frame as an encoded image
+ *
+ * @param videoPath Path to the video file
+ * @param info Probed stream information
+ * @param frameNumber Frame number (0-indexed)
+ * @param format Output image format
+ * @returns Image buffer, or null if FFmpeg produced no output
+ */
+export async function extractFrame(
+  videoPath: string,
+  info: VideoStreamInfo,
+  frameNumber: number,
+  format: 'png' | 'jpg' = 'png'
+): Promise<Buffer | null> {
+  assertFrameInRange(info, frameNumber, videoPath);
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(videoPath)
+      .inputOptions([`-ss ${frameSeekTime(info, frameNumber)}`])
+      .outputOptions([
+        '-frames:v 1',
+        '-f image2pipe',
+        `-c:v ${format === 'jpg' ? 'mjpeg' : 'png'}`,
+      ]);
+
+    const passThrough = new PassThrough();
+    const buffers: Buffer[] = [];
+
+    passThrough.on('data', (chunk: Buffer) => buffers.push(chunk));
+    passThrough.on('end', () => {
+      const buffer = Buffer.concat(buffers);
+      resolve(buffer.length > 0 ? buffer : null);
+    });
+    passThrough.on('error', reject);
+
+    command.on('error', err => reject(new Error(`FFmpeg error: ${err.message}`)));
+    command.pipe(passThrough, { end: true });
+  });
+}
+
+/**
+ * Build an FFmpeg `select` expression matching a sorted list of frame indices
+ *
+ * Consecutive runs collapse into `between()` terms to keep the expression short.
+ *
+ * @param frameIndices Sorted, de-duplicated frame indices relative to the seek point
+ * @returns Filter expression such as `eq(n\,3)+between(n\,7\,9)`
+ */
+export function buildFrameSelectExpression(frameIndices: number[]): string {
+  const terms: string[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i <= frameIndices.length; i++) {
+    if (i < frameIndices.length && frameIndices[i] === frameIndices[i - 1] + 1) {
+      continue;
+    }
+
+    const first = frameIndices[runStart];
+    const last = frameIndices[i - 1];
+    terms.push(first === last ? `eq(n\\,${first})` : `between(n\\,${first}\\,${last})`);
+    runStart = i;
+  }
+
+  return terms.join('+');
+}
+
+/**
+ * Decode many frames to raw RGBA pixels in a single FFmpeg pass
+ *
+ * The video is seeked to the first requested frame and a `select` filter
+ * passes only the requested frames through, which are streamed as raw
+ * video to the callback in ascending frame order. Frame numbers that do not
+ * exist in the video are skipped.
+ *
+ * @param videoPath Path to the video file
+ * @param info Probed stream information
+ * @param frameNumbers Frame numbers to decode (0-indexed), or undefined for every frame
+ * @param onFrame Called with each frame's number and RGBA pixel data
+ * @returns Promise that resolves once FFmpeg has exited, or rejects and stops
+ *   FFmpeg if `onFrame` throws
+ */
+export async function decodeRawFrames(
+  videoPath: string,
+  info: VideoStreamInfo,
+  frameNumbers: number[] | undefined,
+  onFrame: (frameNumber: number, pixels: Uint8ClampedArray) => void
+): Promise<void> {
+  const sorted = frameNumbers
+    ? Array.from(new Set(frameNumbers))
+        .filter(frameNumber => isFrameInRange(info, frameNumber))
+        .sort((a, b) => a - b)
+    : undefined;
+
+  if (sorted?.length === 0) {
+    return;
+  }
+
+  const firstFrame = sorted ? sorted[0] : 0;
+  const outputFrames = sorted ? sorted.length : info.frameCount;
+  const frameSize = info.width * info.height * 4;
+
+  const outputOptions = ['-f rawvideo', '-pix_fmt rgba', `-frames:v ${outputFrames}`];
+  if (sorted) {
+    const relative = sorted.map(frameNumber => frameNumber - firstFrame);
+    outputOptions.unshift(`-vf select=${buildFrameSelectExpression(relative)}`, '-vsync 0');
+  }
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(videoPath)
+      .inputOptions([`-ss ${frameSeekTime(info, firstFrame)}`])
+      .outputOptions(outputOptions);
+
+    const passThrough = new PassThrough();
+    let pending: Buffer = Buffer.alloc(0);
+    let emitted = 0;
+
+    passThrough.on('data', (chunk: Buffer) => {
+      pending = pending.length === 0 ? chunk : Buffer.concat([pending, chunk]);
+
+      try {
+        while (pending.length >= frameSize && emitted < outputFrames) {
+          const pixels = new Uint8ClampedArray(pending.subarray(0, frameSize));
+          pending = pending.subarray(frameSize);
+          onFrame(sorted ? sorted[emitted] : emitted, pixels);
+          emitted++;
+        }
+      } catch (error) {
+        // Thrown from an FFmpeg stream event, the error would otherwise go uncaught
+        passThrough.destroy();
+        command.kill('SIGKILL');
+        reject(error);
+      }
+    });
+    passThrough.on('end', () => resolve());
+    passThrough.on('error', reject);
+
+    command.on('error', err => reject(new Error(`FFmpeg error: ${err.message}`)));
+    command.pipe(passThrough, { end: true });
+  });
+}
+
+/** Codecs each container can hold */
+const CONTAINER_CODECS: Record<VideoContainer, string[]> = {
+  mp4: ['libx264', 'libx264rgb', 'libvpx-vp9', 'libaom-av1', 'libsvtav1'],
+  mkv: ['libx264', 'libx264rgb', 'libvpx-vp9', 'libaom-av1', 'libsvtav1', 'ffv1'],
+  webm: ['libvpx-vp9', 'libaom-av1', 'libsvtav1'],
+};
+
+/** FFmpeg muxer name of each container */
+const CONTAINER_MUXERS: Record<VideoContainer, string> = {
+  mp4: 'mp4',
+  mkv: 'matroska',
+  webm: 'webm',
+};
+
+/**
+ * Codec and options of each preset, per codec
+ *
+ * CRF values are tuned for black-and-white QR modules, which tolerate much
+ * coarser quantization than natural video.
+ */
+const PRESET_OPTIONS: Record<VideoPreset, Record<string, string[]>> = {
+  lossless: {
+    libx264: ['-qp 0'],
+    libx264rgb: ['-qp 0'],
+    'libvpx-vp9': ['-lossless 1', '-row-mt 1'],
+    'libaom-av1': ['-aom-params lossless=1', '-cpu-used 6'],
+    ffv1: ['-level 3', '-g 1'],
+  },
+  seekable: {
+    libx264: ['-g 1', '-crf 18', '-tune stillimage'],
+    libx264rgb: ['-g 1', '-qp 0'],
+    'libvpx-vp9': ['-g 1', '-crf 24', '-b:v 0', '-row-mt 1'],
+    'libaom-av1': ['-g 1', '-crf 24', '-b:v 0', '-cpu-used 6'],
+    libsvtav1: ['-g 1', '-crf 24'],
+    ffv1: ['-level 3', '-g 1'],
+  },
+  compact: {
+    libx264: ['-crf 30', '-preset slow', '-tune stillimage'],
+    'libvpx-vp9': ['-crf 40', '-b:v 0', '-row-mt 1'],
+    'libaom-av1': ['-crf 42', '-b:v 0', '-cpu-used 6'],
+    libsvtav1: ['-crf 42', '-preset 8'],
+  },
+};
+
+/**
+ * Codec, pixel format and output options for a video
+ *
+ * Resolves the container from `options.container` or the output file
+ * extension, then the codec and pixel format from explicit options, the
+ * preset, or the container default. `ffmpegOptions` come last so they can
+ * override any preset option.
+ *
+ * @param outputPath Path of the video to write
+ * @param input Format of the frames that will be written
+ * @param options Codec, preset and container options
+ * @returns FFmpeg output options, including `-c:v` and `-pix_fmt`
+ * @throws If the codec cannot be stored in the container or has no settings for the preset
+ */
+export function resolveVideoOptions(
+  outputPath: string,
+  input: FrameWriterInput,
+  options: Partial<Omit<VideoBuildOptions, 'outputPath'>> = {}
+): string[] {
+  const extension = path.extname(outputPath).slice(1).toLowerCase() as VideoContainer;
+  const container =
+    options.container ?? (Object.keys(CONTAINER_CODECS).includes(extension) ? extension : 'mp4');
+  const { preset } = options;
+
+  let codec = options.codec;
+  if (!codec) {
+    if (container === 'webm') {
+      codec = 'libvpx-vp9';
+    } else if (preset === 'lossless') {
+      codec = container === 'mkv' ? 'ffv1' : 'libx264rgb';
+    } else {
+      codec = 'libx264';
+    }
+  }
+
+  // Codecs not listed in any container are passed through to FFmpeg unchecked
+  const knownCodec = Object.values(CONTAINER_CODECS).some(codecs => codecs.includes(codec!));
+  if (knownCodec && !CONTAINER_CODECS[container].includes(codec)) {
+    throw new Error(`Codec ${codec} cannot be stored in a ${container} container`);
+  }
+
+  const presetOptions = preset ? PRESET_OPTIONS[preset][codec] : [];
+  if (!presetOptions) {
+    throw new Error(`Preset "${preset}" is not available for codec ${codec}`);
+  }
+
+  return [
+    `-c:v ${codec}`,
+    `-pix_fmt ${options.pixelFormat ?? getPixelFormat(codec, input, preset)}`,
+    ...presetOptions,
+    ...(options.container ? [`-f ${CONTAINER_MUXERS[container]}`] : []),
+    ...(options.ffmpegOptions ?? []),
+  ];
+}
+
+/**
+ * Default pixel format of a codec
+ *
+ * Lossless presets keep every color plane at full resolution so no module
+ * is blurred by chroma subsampling.
+ */
+function getPixelFormat(codec: string, input: FrameWriterInput, preset?: VideoPreset): string {
+  if (codec === 'libx264rgb') {
+    return 'rgb24';
+  }
+  if (codec === 'ffv1') {
+    return input === 'gray' ? 'gray' : 'bgr0';
+  }
+  if (preset === 'lossless') {
+    return input === 'gray' || codec === 'libx264' ? 'yuv444p' : 'gbrp';
+  }
+  return 'yuv420p';
+}
+
+/**
+ * Format of the frames written to a `FrameWriter`
+ *
+ * - `image`: encoded images (PNG/JPG), scaled and padded to the output resolution
+ * - `gray`: raw 8-bit grayscale frames of exactly the output resolution
+ * - `rgb`: raw packed RGB24 frames of exactly the output resolution
+ */
+export type FrameWriterInput = 'image' | 'gray' | 'rgb';
+
+/**
+ * Sink that pipes frames into an FFmpeg process as they are produced
+ */
+export interface FrameWriter {
+  /** Write one frame, waiting while FFmpeg's stdin is full */
+  write(frame: Buffer): Promise<void>;
+  /** Close the input and wait for FFmpeg to finish the video */
+  end(): Promise<void>;
+  /** Stop FFmpeg without finishing the video */
+  abort(): void;
+}
+
+/**
+ * Start an FFmpeg process that encodes frames piped to its stdin
+ *
+ * Nothing is written to disk except the output video, and at most one
+ * stream buffer of frames is held in memory.
+ *
+ * @param outputPath Path of the video to write
+ * @param input Format of the frames that will be written
+ * @param output Resolution, frame rate and codec options of the video (see `resolveVideoOptions`)
+ * @returns Writer for the frames
+ */
+export function createFrameWriter(
+  outputPath: string,
+  input: FrameWriterInput,
+  output: {
+    width: number;
+    height: number;
+    fps: number;
+  } & Partial<Omit<VideoBuildOptions, 'outputPath'>>
+): FrameWriter {
+  const { width, height, fps } = output;
+  const stream = new PassThrough();
+  let failure: Error | null = null;
+
+  const rawPixelFormat = input === 'gray' ? 'gray' : 'rgb24';
+  const inputOptions =
+    input === 'image'
+      ? ['-f image2pipe']
+      : ['-f rawvideo', `-pix_fmt ${rawPixelFormat}`, `-s ${width}x${height}`];
+  const outputOptions = [`-r ${fps}`];
+  if (input === 'image') {
+    outputOptions.push(
+      `-vf scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`
+    );
+  }
+
+  const command = ffmpeg()
+    .input(stream)
+    .inputOptions([...inputOptions, `-framerate ${fps}`])
+    .outputOptions([...outputOptions, ...resolveVideoOptions(outputPath, input, output)])
+    .output(outputPath);
+
+  const done = new Promise<void>((resolve, reject) => {
+    command
+      .on('end', () => resolve())
+      .on('error', err => {
+        failure = new Error(`FFmpeg error: ${err.message}`);
+        stream.destroy();
+        reject(failure);
+      });
+  });
+  // Failures surface through write() and end(); avoid an unhandled rejection in between
+  done.catch(() => undefined);
+  command.run();
+
+  return {
+    async write(frame: Buffer): Promise<void> {
+      if (failure) {
+        throw failure;
+      }
+      if (!stream.write(frame)) {
+        await Promise.race([
+          new Promise<void>(resolve => stream.once('drain', () => resolve())),
+          done.then(() => {
+            throw new Error('FFmpeg exited before all frames were written');
+          }),
+        ]);
+      }
+    },
+
+    async end(): Promise<void> {
+      stream.end();
+      return done;
+    },
+
+    abort(): void {
+      if (!failure) {
+        failure = new Error('Video encoding aborted');
+      }
+      stream.destroy();
+      command.kill('SIGKILL');
+    },
+  };
+}
+
+/**
+ * Join videos end to end without re-encoding them
+ *
+ * Uses FFmpeg's concat demuxer with stream copy, so every frame of the
+ * inputs is written to the output unchanged. The inputs must share codec,
+ * resolution, pixel format and frame rate. The file list is piped to
+ * FFmpeg's stdin; nothing else is written to disk.
+ *
+ * @param inputPaths Videos to join, in order
+ * @param outputPath Path of the joined video
+ * @returns Promise that resolves once FFmpeg has exited
+ */
+export async function concatVideos(inputPaths: string[], outputPath: string): Promise<void> {
+  const list = inputPaths
+    .map(inputPath => `file '${path.resolve(inputPath).replace(/'/g, "'\\''")}'\n`)
+    .join('');
+
+  return new Promise((resolve, reject) => {
+    ffmpeg()
+      .input(Readable.from([list]))
+      .inputOptions(['-f concat', '-safe 0', '-protocol_whitelist file,pipe'])
+      .outputOptions(['-c copy', '-map 0:v'])
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', err => reject(new Error(`FFmpeg error: ${err.message}`)))
+      .run();
+  });
+}
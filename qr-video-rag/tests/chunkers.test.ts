@@ -0,0 +1,166 @@
+/**
+ * Tests for chunking strategies
+ */
+
+import {
+  createFixedSizeChunker,
+  createSentenceChunker,
+  createParagraphChunker,
+  createRecursiveChunker,
+  createMarkdownChunker,
+  streamChunks,
+  getChunkId,
+} from '../src/chunkers';
+import { Chunk, Chunker } from '../src/types';
+
+const prose = [
+  'QR Video RAG stores text in video frames. Each frame holds one QR code!',
+  'Retrieval runs a vector search first. Matching frames are then decoded?',
+  'The index lives in a vector database. It maps chunks to frame numbers.',
+].join(' ');
+
+function expectValidOffsets(text: string, chunks: Chunk[], chunkSize: number): void {
+  chunks.forEach((chunk, i) => {
+    expect(chunk.index).toBe(i);
+    expect(chunk.text.length).toBeLessThanOrEqual(chunkSize);
+    expect(text.substring(chunk.metadata!.startPosition, chunk.metadata!.endPosition)).toBe(
+      chunk.text
+    );
+  });
+}
+
+describe('chunkers', () => {
+  it('should keep the fixed-size window behaviour', () => {
+    const chunks = createFixedSizeChunker().chunk('abcdefghij', { chunkSize: 4, chunkOverlap: 1 });
+    expect(chunks.map(c => c.text)).toEqual(['abcd', 'defg', 'ghij', 'j']);
+    expectValidOffsets('abcdefghij', chunks, 4);
+  });
+
+  it('should pack whole sentences with overlap', () => {
+    const chunks = createSentenceChunker().chunk(prose, { chunkSize: 120, chunkOverlap: 40 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expectValidOffsets(prose, chunks, 120);
+    for (const chunk of chunks) {
+      expect(chunk.text).toMatch(/[.!?]$/);
+    }
+    // The last sentence of one chunk opens the next
+    const firstSentences = chunks[0].text.split(/(?<=[.!?])\s+/);
+    expect(chunks[1].text.startsWith(firstSentences[firstSentences.length - 1])).toBe(true);
+  });
+
+  it('should split sentences longer than the chunk size on words', () => {
+    const text = 'word '.repeat(60).trim() + '.';
+    const chunks = createSentenceChunker().chunk(text, { chunkSize: 50, chunkOverlap: 0 });
+    expectValidOffsets(text, chunks, 50);
+    for (const chunk of chunks) {
+      expect(chunk.text).toMatch(/^word/);
+    }
+  });
+
+  it('should pack paragraphs', () => {
+    const text = 'First paragraph line.\n\nSecond paragraph.\n\nThird paragraph here.';
+    const chunks = createParagraphChunker().chunk(text, { chunkSize: 40, chunkOverlap: 0 });
+    expect(chunks.map(c => c.text)).toEqual([
+      'First paragraph line.\n\nSecond paragraph.',
+      'Third paragraph here.',
+    ]);
+    expectValidOffsets(text, chunks, 40);
+  });
+
+  it('should fall back to finer separators recursively', () => {
+    const text = 'alpha beta gamma\ndelta epsilon\n\n' + 'x'.repeat(30);
+    const chunks = createRecursiveChunker().chunk(text, { chunkSize: 20, chunkOverlap: 0 });
+    expect(chunks.map(c => c.text)).toEqual([
+      'alpha beta gamma',
+      'delta epsilon',
+      'x'.repeat(20),
+      'x'.repeat(10),
+    ]);
+    expectValidOffsets(text, chunks, 20);
+  });
+
+  it('should split Markdown on headings and keep code blocks whole', () => {
+    const text = [
+      '# Guide',
+      'Intro text.',
+      '',
+      '## Install',
+      '```bash',
+      'npm install qr-video-rag',
+      '',
+      'npm run build',
+      '```',
+      '',
+      '## Usage',
+      'Call addDocument.',
+    ].join('\n');
+    const chunks = createMarkdownChunker().chunk(text, { chunkSize: 80, chunkOverlap: 0 });
+
+    expect(chunks.map(c => c.metadata!.headings)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Usage'],
+    ]);
+    expect(chunks[1].text).toBe(
+      '## Install\n```bash\nnpm install qr-video-rag\n\nnpm run build\n```'
+    );
+    expectValidOffsets(text, chunks, 80);
+  });
+
+  it('should satisfy the Chunker contract for every built-in strategy', () => {
+    const strategies: Chunker[] = [
+      createFixedSizeChunker(),
+      createSentenceChunker(),
+      createParagraphChunker(),
+      createRecursiveChunker(),
+      createMarkdownChunker(),
+    ];
+    for (const chunker of strategies) {
+      expectValidOffsets(prose, chunker.chunk(prose, { chunkSize: 64, chunkOverlap: 16 }), 64);
+    }
+  });
+
+  it('should stream text pieces into the same chunks as whole-text chunking', async () => {
+    const chunker = createFixedSizeChunker();
+    const options = { chunkSize: 40, chunkOverlap: 8 };
+    const text = prose.repeat(4);
+    const pieces = text.match(/.{1,17}/gs) ?? [];
+
+    const streamed: Chunk[] = [];
+    for await (const chunk of streamChunks(pieces, chunker, options)) {
+      streamed.push(chunk);
+    }
+
+    expect(streamed).toEqual(chunker.chunk(text, options));
+  });
+
+  it('should pass ready-made chunks through a stream and renumber them', async () => {
+    const source = ['Some text. ', { text: 'Prepared chunk', index: 42 }, 'More text.'];
+
+    const streamed: Chunk[] = [];
+    for await (const chunk of streamChunks(source, createSentenceChunker(), {
+      chunkSize: 100,
+      chunkOverlap: 0,
+    })) {
+      streamed.push(chunk);
+    }
+
+    expect(streamed.map(chunk => [chunk.index, chunk.text])).toEqual([
+      [0, 'Some text.'],
+      [1, 'Prepared chunk'],
+      [2, 'More text.'],
+    ]);
+    expect(streamed[2].metadata).toMatchObject({ startPosition: 11, endPosition: 21 });
+  });
+
+  it('should derive stable chunk IDs from document, index and text', () => {
+    const id = getChunkId('guide', 3, 'test');
+
+    expect(id).toBe('guide:3:9f86d081884c7d65');
+    expect(getChunkId('guide', 3, 'test')).toBe(id);
+    expect(getChunkId('guide', 3, 'test!')).not.toBe(id);
+    expect(getChunkId('guide', 4, 'test')).not.toBe(id);
+    expect(getChunkId('faq', 3, 'test')).not.toBe(id);
+  });
+});
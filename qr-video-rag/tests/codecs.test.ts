@@ -0,0 +1,48 @@
+/**
+ * Tests for payload compression codecs
+ */
+
+import { compressPayload, decompressPayload, trainPayloadDictionary } from '../src/codecs';
+import { FrameDecodeError } from '../src/errors';
+
+const TEXT =
+  'The retriever decodes the QR frames of each matching chunk. '.repeat(20) +
+  'Chunks that exceed the QR capacity span several consecutive frames.';
+
+describe('Payload codecs', () => {
+  it.each(['deflate', 'brotli'] as const)('should round trip text with %s', codec => {
+    const compressed = compressPayload(Buffer.from(TEXT, 'utf8'), { codec });
+
+    expect(compressed.length).toBeLessThan(Buffer.byteLength(TEXT, 'utf8') / 4);
+    expect(decompressPayload(compressed, codec).toString('utf8')).toBe(TEXT);
+  });
+
+  it('should report corrupt data as a structured error', () => {
+    const decode = () => decompressPayload(Buffer.from('not deflate data'), 'brotli');
+
+    expect(decode).toThrow(FrameDecodeError);
+    expect(decode).toThrow(expect.objectContaining({ code: 'CORRUPT_PAYLOAD' }));
+  });
+
+  it('should compress better with a trained dictionary', () => {
+    const samples = Array.from({ length: 30 }, (_, i) => `Section ${i}: ${TEXT.slice(i, i + 300)}`);
+    const dictionary = trainPayloadDictionary(samples, 4096);
+    const data = Buffer.from(`Section 99: ${TEXT.slice(0, 200)}`, 'utf8');
+
+    expect(dictionary.length).toBeGreaterThan(0);
+    expect(dictionary.length).toBeLessThanOrEqual(4096);
+
+    const plain = compressPayload(data, { codec: 'deflate' });
+    const trained = compressPayload(data, { codec: 'deflate', dictionary });
+
+    expect(trained.length).toBeLessThan(plain.length);
+    expect(decompressPayload(trained, 'deflate', dictionary)).toEqual(data);
+  });
+
+  it('should leave out phrases the dictionary already holds', () => {
+    const samples = Array.from({ length: 5 }, (_, i) => `alpha beta gamma delta ${i} `);
+    const dictionary = trainPayloadDictionary(samples).toString('utf8');
+
+    expect(dictionary).toBe('alpha beta gamma delta ');
+  });
+});
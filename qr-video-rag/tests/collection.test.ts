@@ -0,0 +1,170 @@
+/**
+ * Tests for multi-video collections
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { QRVideoCollection } from '../src/collection';
+import { QRVideoStoreEncoder } from '../src/encoder';
+import { createInMemoryAdapter, createSimpleEmbedder } from '../src/adapters';
+import { probeVideo } from '../src/video';
+import { getStoreFrameCount } from '../src/storage';
+import { QRVideoStoreConfig } from '../src/types';
+import { mockVideoFiles } from './helpers';
+
+jest.mock('../src/video');
+
+const config: QRVideoStoreConfig = { chunkSize: 40, chunkOverlap: 0, qrMaxVersion: 5 };
+
+const texts = {
+  handbook: 'The employee handbook explains holidays and leave. '.repeat(3),
+  faq: 'Frequently asked questions about refunds and returns. '.repeat(3),
+  legal: 'Terms of service and the privacy policy of the shop. '.repeat(3),
+};
+
+describe('QRVideoCollection', () => {
+  let tempDir: string;
+  let catalogPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    catalogPath = path.join(tempDir, 'kb.catalog.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockVideoFiles();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should decode every hit from the video holding its document', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const collection = new QRVideoCollection(database, embedder, { catalogPath, config });
+    const kbPath = path.join(tempDir, 'kb.mp4');
+    const legalPath = path.join(tempDir, 'legal.mp4');
+
+    await collection.addDocument('handbook', texts.handbook, kbPath);
+    await collection.appendDocument(kbPath, 'faq', texts.faq);
+    await collection.addDocument('legal', texts.legal, legalPath);
+
+    const results = await collection.search(texts.faq, 100);
+    const chunkTexts = (text: string) =>
+      new QRVideoStoreEncoder(database, embedder, config).chunkText(text).map(chunk => chunk.text);
+    const allChunks = Object.values(texts).flatMap(chunkTexts);
+    expect(results).toHaveLength(allChunks.length);
+    for (const result of results) {
+      const expectedPath = result.documentId === 'legal' ? legalPath : kbPath;
+      expect(result.videoPath).toBe(expectedPath);
+      expect(chunkTexts(texts[result.documentId as keyof typeof texts])).toContain(result.text);
+    }
+    const similarities = results.map(result => result.similarity);
+    expect(similarities).toEqual([...similarities].sort((a, b) => b - a));
+
+    // The catalog survives for another process
+    const reopened = new QRVideoCollection(database, embedder, { catalogPath, config });
+    const handbookFrames = (await reopened.getDocument('faq'))!.startFrame;
+    expect(await reopened.listDocuments(kbPath)).toEqual([
+      { documentId: 'handbook', videoPath: kbPath, startFrame: 0, endFrame: handbookFrames },
+      {
+        documentId: 'faq',
+        videoPath: kbPath,
+        startFrame: handbookFrames,
+        endFrame: (await probeVideo(kbPath)).frameCount,
+      },
+    ]);
+    await expect(reopened.addDocument('faq', texts.faq, legalPath)).rejects.toThrow(
+      /already in the collection/
+    );
+    await expect(reopened.addDocument('other', texts.faq, legalPath)).rejects.toThrow(
+      /appendDocument/
+    );
+  });
+
+  it('should skip hits of documents missing from the catalog', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const collection = new QRVideoCollection(database, embedder, { config });
+    const encoder = new QRVideoStoreEncoder(database, embedder, config);
+
+    await collection.addDocument('handbook', texts.handbook, path.join(tempDir, 'kb.mp4'));
+    await encoder.addDocument('faq', texts.faq, path.join(tempDir, 'faq.mp4'));
+
+    const results = await collection.search(texts.faq, 100);
+    expect(new Set(results.map(result => result.documentId))).toEqual(new Set(['handbook']));
+  });
+
+  it('should only decode hits matching the search filter', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const collection = new QRVideoCollection(database, embedder, { config });
+    const kbPath = path.join(tempDir, 'kb.mp4');
+
+    await collection.addDocument('handbook', texts.handbook, kbPath, { audience: 'staff' });
+    await collection.appendDocument(kbPath, 'faq', texts.faq, { audience: 'customers' });
+    await collection.addDocument('legal', texts.legal, path.join(tempDir, 'legal.mp4'), {
+      audience: 'customers',
+    });
+
+    const results = await collection.search(texts.faq, 100, {
+      documentId: ['handbook', 'faq'],
+      metadata: { audience: 'customers' },
+    });
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every(result => result.documentId === 'faq')).toBe(true);
+  });
+
+  it('should update frame ranges after compaction and delete emptied videos', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const collection = new QRVideoCollection(database, embedder, { catalogPath, config });
+    const kbPath = path.join(tempDir, 'kb.mp4');
+    const legalPath = path.join(tempDir, 'legal.mp4');
+
+    await collection.addDocument('handbook', texts.handbook, kbPath);
+    await collection.appendDocument(kbPath, 'faq', texts.faq);
+    await collection.addDocument('legal', texts.legal, legalPath);
+    const faqFrames = (await collection.getDocument('faq'))!;
+
+    expect(await collection.removeDocument('handbook')).toBeUndefined();
+    const report = await collection.compactVideo(kbPath);
+
+    expect(report.framesAfter).toBe(faqFrames.endFrame - faqFrames.startFrame);
+    expect(await collection.getDocument('faq')).toEqual({
+      ...faqFrames,
+      startFrame: 0,
+      endFrame: report.framesAfter,
+    });
+    const results = await collection.search(texts.faq, 100);
+    expect(new Set(results.map(result => result.documentId))).toEqual(new Set(['faq', 'legal']));
+
+    const removed = await collection.removeDocument('legal', { compact: true });
+    expect(removed).toMatchObject({ videoPath: legalPath, framesAfter: 0, bytesAfter: 0 });
+    expect(fs.existsSync(legalPath)).toBe(false);
+    await expect(collection.compactVideo(legalPath)).rejects.toThrow(/no documents/);
+  });
+
+  it('should add documents to a sharded store after its existing shards', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const collection = new QRVideoCollection(database, embedder, {
+      catalogPath,
+      config: { ...config, shard: { maxFrames: 2 } },
+    });
+    const storePath = path.join(tempDir, 'kb.mp4');
+
+    await collection.addDocument('handbook', texts.handbook, storePath);
+    await collection.addDocument('faq', texts.faq, storePath);
+
+    const handbook = (await collection.getDocument('handbook'))!;
+    const faq = (await collection.getDocument('faq'))!;
+    expect(faq.startFrame).toBe(handbook.endFrame);
+    expect(faq.endFrame).toBe(await getStoreFrameCount(storePath));
+    const results = await collection.search(texts.faq, 100);
+    expect(new Set(results.map(result => result.documentId))).toEqual(new Set(['handbook', 'faq']));
+    expect(results.every(result => result.videoPath === storePath)).toBe(true);
+    await expect(collection.removeDocument('faq', { compact: true })).rejects.toThrow(/sharded/);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for database adapters
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileAdapter, createInMemoryAdapter } from '../src/adapters';
+import { QRVideoStoreIndexEntry } from '../src/types';
+
+function entry(documentId: string, frameNumber: number, embedding: number[]): QRVideoStoreIndexEntry {
+  return { chunkText: `${documentId}-${frameNumber}`, embedding, frameNumber, documentId };
+}
+
+function chunk(documentId: string, index: number, frameNumber: number): QRVideoStoreIndexEntry {
+  return { ...entry(documentId, frameNumber, [1, index]), chunkId: `${documentId}:${index}` };
+}
+
+describe('createInMemoryAdapter', () => {
+  it('should replace entries with the same chunk ID on upsert', async () => {
+    const db = createInMemoryAdapter([chunk('a', 0, 0), chunk('a', 1, 1), entry('b', 0, [0, 1])]);
+
+    await db.upsert([chunk('a', 1, 5), chunk('a', 2, 6), chunk('a', 2, 7)]);
+    await db.upsert([entry('b', 0, [0, 1])]);
+
+    const entries = await db.list!();
+    expect(entries.map(e => [e.chunkId, e.frameNumber])).toEqual([
+      ['a:0', 0],
+      [undefined, 0],
+      ['a:1', 5],
+      ['a:2', 7],
+      [undefined, 0],
+    ]);
+    expect(await db.searchText!('6', 10)).toEqual([]);
+    expect((await db.search([1, 2], 1))[0].frameNumber).toBe(7);
+  });
+
+  it('should replace every entry of a document at once', async () => {
+    const db = createInMemoryAdapter([chunk('a', 0, 0), chunk('a', 1, 1), chunk('b', 0, 2)]);
+
+    await db.replaceDocument!('a', [chunk('a', 0, 10)]);
+
+    const entries = await db.list!();
+    expect(entries.map(e => [e.chunkId, e.frameNumber])).toEqual([
+      ['b:0', 2],
+      ['a:0', 10],
+    ]);
+  });
+});
+
+describe('createFileAdapter', () => {
+  let tempDir: string;
+  let indexPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    indexPath = path.join(tempDir, 'nested', 'index.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the index file does not exist', async () => {
+    const db = createFileAdapter(indexPath);
+    expect(await db.search([1, 0], 5)).toEqual([]);
+    expect(fs.existsSync(indexPath)).toBe(false);
+  });
+
+  it('should persist entries for a later process', async () => {
+    await createFileAdapter(indexPath).upsert([
+      entry('a', 0, [1, 0]),
+      entry('b', 0, [0, 1]),
+    ]);
+
+    const results = await createFileAdapter(indexPath).search([0, 1], 1);
+    expect(results).toHaveLength(1);
+    expect(results[0].documentId).toBe('b');
+    expect(results[0].similarity).toBeCloseTo(1);
+    expect(fs.readdirSync(path.dirname(indexPath))).toEqual(['index.json']);
+  });
+
+  it('should delete and clear entries on disk', async () => {
+    const db = createFileAdapter(indexPath);
+    await db.upsert([entry('a', 0, [1, 0]), entry('a', 1, [1, 1]), entry('b', 0, [0, 1])]);
+
+    await db.delete!('a');
+    const afterDelete = await createFileAdapter(indexPath).search([1, 0], 10);
+    expect(afterDelete.map(e => e.documentId)).toEqual(['b']);
+
+    await db.clear!();
+    expect(await createFileAdapter(indexPath).search([1, 0], 10)).toEqual([]);
+  });
+
+  it('should list entries and replace them in one write', async () => {
+    const db = createFileAdapter(indexPath);
+    await db.upsert([entry('a', 0, [1, 0]), entry('b', 3, [0, 1])]);
+    expect((await db.list!()).map(e => e.chunkText)).toEqual(['a-0', 'b-3']);
+
+    await db.replaceAll!([{ ...entry('b', 3, [0, 1]), frameNumber: 0 }]);
+    const entries = await createFileAdapter(indexPath).list!();
+    expect(entries.map(e => [e.documentId, e.frameNumber])).toEqual([['b', 0]]);
+    expect(fs.readdirSync(path.dirname(indexPath))).toEqual(['index.json']);
+  });
+
+  it('should replace chunks and documents on disk', async () => {
+    const db = createFileAdapter(indexPath);
+    await db.upsert([chunk('a', 0, 0), chunk('a', 1, 1), chunk('b', 0, 2)]);
+    await db.upsert([chunk('a', 1, 4)]);
+    await db.replaceDocument!('b', [chunk('b', 1, 3)]);
+
+    const entries = await createFileAdapter(indexPath).list!();
+    expect(entries.map(e => [e.chunkId, e.frameNumber])).toEqual([
+      ['a:0', 0],
+      ['a:1', 4],
+      ['b:1', 3],
+    ]);
+  });
+});
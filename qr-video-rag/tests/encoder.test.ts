@@ -0,0 +1,1188 @@
+/**
+ * Tests for encoding raw frames: streaming, tiling and color multiplexing
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import jsQR from 'jsqr';
+import { QRVideoStoreEncoder } from '../src/encoder';
+import { QRVideoStoreRetriever } from '../src/retriever';
+import { reindexVideo } from '../src/reindex';
+import { createInMemoryAdapter, createSimpleEmbedder } from '../src/adapters';
+import {
+  assertFrameInRange,
+  createFrameWriter,
+  decodeRawFrames,
+  probeVideo,
+  concatVideos,
+  FrameWriter,
+} from '../src/video';
+import { decodeChunkFrames } from '../src/frames';
+import { VideoDecodeError, VideoVerificationError } from '../src/errors';
+import { QRVideoStoreIndexEntry } from '../src/types';
+import { readShardLayout } from '../src/shards';
+import { rawToRgba, mockVideoFiles } from './helpers';
+
+jest.mock('../src/video');
+
+const SIZE = 256;
+
+/**
+ * Make the mocked FFmpeg writer collect frames, optionally failing after some frames
+ */
+function mockFrameWriter(failAfter?: number): { frames: Buffer[]; writer: FrameWriter } {
+  const frames: Buffer[] = [];
+  const writer: FrameWriter = {
+    write: jest.fn(async (frame: Buffer) => {
+      if (failAfter !== undefined && frames.length >= failAfter) {
+        throw new Error('FFmpeg error: broken pipe');
+      }
+      frames.push(frame);
+    }),
+    end: jest.fn(async () => undefined),
+    abort: jest.fn(),
+  };
+  jest.mocked(createFrameWriter).mockReturnValue(writer);
+  return { frames, writer };
+}
+
+/**
+ * Make the mocked video module serve frames written by the mocked FFmpeg writer
+ */
+function mockVideoFrames(frames: Buffer[]): void {
+  jest.mocked(probeVideo).mockResolvedValue({
+    width: SIZE,
+    height: SIZE,
+    fps: 1,
+    timeBase: 1 / 16384,
+    startTime: 0,
+    frameCount: frames.length,
+    durationSeconds: frames.length,
+  });
+  jest.mocked(decodeRawFrames).mockImplementation(async (_path, _info, frameNumbers, onFrame) => {
+    const requested = frameNumbers ?? frames.map((_, i) => i);
+    for (const frameNumber of [...new Set(requested)].sort((a, b) => a - b)) {
+      onFrame(frameNumber, rawToRgba(frames[frameNumber]));
+    }
+  });
+}
+
+/**
+ * Decode the QR payload of a raw grayscale frame
+ */
+function decodeGrayFrame(frame: Buffer): Uint8Array {
+  const qrCode = jsQR(rawToRgba(frame), SIZE, SIZE);
+  expect(qrCode).not.toBeNull();
+  return Uint8Array.from(qrCode!.binaryData);
+}
+
+async function* lines(text: string): AsyncGenerator<string> {
+  for (const line of text.split(/(?<=\n)/)) {
+    yield line;
+  }
+}
+
+describe('QRVideoStoreEncoder raw frame encoding', () => {
+  let tempDir: string;
+  let cwdBefore: string[];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    cwdBefore = fs.readdirSync(process.cwd());
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should pipe raw frames for streamed text and index every chunk', async () => {
+    const { frames } = mockFrameWriter();
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 100,
+      chunkOverlap: 10,
+      qrMaxVersion: 5,
+    });
+    const text = Array.from({ length: 30 }, (_, i) => `Line ${i} of the streamed corpus.\n`).join(
+      ''
+    );
+    const outputPath = path.join(tempDir, 'out', 'corpus.mp4');
+
+    await encoder.addDocumentStream('corpus', lines(text), outputPath);
+
+    expect(createFrameWriter).toHaveBeenCalledWith(outputPath, 'gray', {
+      width: SIZE,
+      height: SIZE,
+      fps: 1,
+    });
+    expect(frames.every(frame => frame.length === SIZE * SIZE)).toBe(true);
+    expect(fs.readdirSync(process.cwd())).toEqual(cwdBefore);
+
+    const expected = encoder.chunkText(text);
+    const entries = await database.search(await embedder.embed(expected[3].text), expected.length);
+    expect(entries).toHaveLength(expected.length);
+
+    for (const entry of entries) {
+      const payloads = frames
+        .slice(entry.frameNumber, entry.frameNumber + (entry.frameCount ?? 1))
+        .map(decodeGrayFrame);
+      expect(decodeChunkFrames(payloads, { documentId: 'corpus' })).toBe(entry.chunkText);
+    }
+    expect(entries.map(entry => entry.chunkText).sort()).toEqual(
+      expected.map(chunk => chunk.text).sort()
+    );
+  });
+
+  it('should replace the entries of a document encoded again', async () => {
+    mockFrameWriter();
+    const database = createInMemoryAdapter();
+    const encoder = new QRVideoStoreEncoder(database, createSimpleEmbedder(16), {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+    });
+    const text = 'Unchanged opening chunk of the guide. '.repeat(3);
+    const outputPath = path.join(tempDir, 'guide.mp4');
+    await database.upsert([
+      { chunkText: 'Other', embedding: new Array(16).fill(1), frameNumber: 0, documentId: 'faq' },
+    ]);
+
+    await encoder.addDocument('guide', text, outputPath);
+    const first = await database.list!();
+    await encoder.addDocument('guide', text, outputPath);
+    expect(await database.list!()).toHaveLength(first.length);
+
+    // Edited chunks replace their old entries; unchanged chunks keep their IDs
+    const edited = text.slice(0, 80) + 'Edited.';
+    await encoder.addDocument('guide', edited, outputPath);
+    const entries = (await database.list!()).filter(entry => entry.documentId === 'guide');
+    expect(entries.map(entry => entry.chunkText)).toEqual(
+      encoder.chunkText(edited).map(chunk => chunk.text)
+    );
+    const firstIds = first.map(entry => entry.chunkId);
+    expect(firstIds.slice(1, 3)).toEqual([entries[0].chunkId, entries[1].chunkId]);
+    expect(firstIds).not.toContain(entries[2].chunkId);
+    expect((await database.list!()).filter(entry => entry.documentId === 'faq')).toHaveLength(1);
+  });
+
+  it('should skip search hits past the end of the video', async () => {
+    const { frames } = mockFrameWriter();
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, { qrMaxVersion: 5 });
+    const outputPath = path.join(tempDir, 'guide.mp4');
+    await encoder.addDocument('guide', 'A short guide to frame ranges.', outputPath);
+    fs.writeFileSync(outputPath, '');
+    mockVideoFrames(frames);
+
+    // Another video's entry in the shared database, past the end of this one
+    const query = 'A short guide to frame ranges.';
+    await database.upsert([
+      {
+        chunkText: query,
+        embedding: await embedder.embed(query),
+        frameNumber: frames.length + 5,
+        documentId: 'other',
+      },
+    ]);
+
+    const results = await new QRVideoStoreRetriever(database, embedder).search(
+      query,
+      outputPath,
+      5
+    );
+    expect(results.map(result => result.documentId)).toEqual(['guide']);
+    jest
+      .mocked(assertFrameInRange)
+      .mockImplementation(jest.requireActual('../src/video').assertFrameInRange);
+    await expect(
+      new QRVideoStoreRetriever(database, embedder).getFrameByNumber(outputPath, frames.length + 5)
+    ).rejects.toThrow(/out of range/);
+  });
+
+  it('should skip unreadable frames but fail when the video cannot be decoded', async () => {
+    const { frames } = mockFrameWriter();
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 30,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+    });
+    const text = 'Each chunk of this guide is stored in its own frame. '.repeat(2);
+    const outputPath = path.join(tempDir, 'guide.mp4');
+    await encoder.addDocument('guide', text, outputPath);
+    fs.writeFileSync(outputPath, '');
+    const chunks = encoder.chunkText(text);
+    frames[1] = Buffer.alloc(SIZE * SIZE, 255);
+    mockVideoFrames(frames);
+
+    const results = await new QRVideoStoreRetriever(database, embedder).search(
+      text,
+      outputPath,
+      chunks.length
+    );
+    expect(results.map(result => result.text).sort()).toEqual(
+      chunks
+        .filter((_, i) => i !== 1)
+        .map(chunk => chunk.text)
+        .sort()
+    );
+
+    jest
+      .mocked(decodeRawFrames)
+      .mockRejectedValueOnce(new Error('FFmpeg error: moov atom not found'));
+    const search = new QRVideoStoreRetriever(database, embedder).search(text, outputPath);
+    await expect(search).rejects.toThrow(VideoDecodeError);
+    await expect(search).rejects.toThrow(/guide\.mp4: FFmpeg error: moov atom not found/);
+  });
+
+  it('should replace the entries of a streamed document once its video is complete', async () => {
+    mockFrameWriter();
+    const database = createInMemoryAdapter();
+    const encoder = new QRVideoStoreEncoder(database, createSimpleEmbedder(16), {
+      chunkSize: 10,
+      chunkOverlap: 0,
+    });
+    const outputPath = path.join(tempDir, 'stream.mp4');
+
+    await encoder.addDocumentStream('stream', ['abcdefghij'.repeat(5)], outputPath);
+    await encoder.addDocumentStream('stream', ['klmnopqrst'.repeat(2)], outputPath);
+    expect((await database.list!()).map(entry => entry.chunkText)).toEqual([
+      'klmnopqrst',
+      'klmnopqrst',
+    ]);
+  });
+
+  it('should remove partial output and keep previous index entries when encoding fails', async () => {
+    mockFrameWriter();
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, { chunkSize: 10, chunkOverlap: 0 });
+    const outputPath = path.join(tempDir, 'broken.mp4');
+    await encoder.addDocumentStream('broken', ['abcdefghij'.repeat(3)], outputPath);
+    const previous = await database.list!();
+
+    const { writer } = mockFrameWriter(150);
+    fs.writeFileSync(outputPath, 'partial');
+    await expect(
+      encoder.addDocumentStream('broken', ['klmnopqrst'.repeat(200)], outputPath)
+    ).rejects.toThrow('broken pipe');
+
+    expect(writer.abort).toHaveBeenCalled();
+    expect(fs.existsSync(outputPath)).toBe(false);
+    expect(await database.list!()).toEqual(previous);
+  });
+
+  it('should refuse to stream when the index must be embedded', async () => {
+    const encoder = new QRVideoStoreEncoder(createInMemoryAdapter(), createSimpleEmbedder(16), {
+      embedIndex: true,
+    });
+
+    await expect(
+      encoder.addDocumentStream('doc', ['text'], path.join(tempDir, 'doc.mp4'))
+    ).rejects.toThrow(/embedIndex/);
+  });
+
+  it('should pack chunks into tiles that the retriever and reindex can address', async () => {
+    const { frames } = mockFrameWriter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(createInMemoryAdapter(), embedder, {
+      chunkSize: 30,
+      chunkOverlap: 0,
+      qrMaxVersion: 3,
+      tileGrid: { columns: 2, rows: 2 },
+      embedIndex: true,
+    });
+    const text = 'Tiles hold several QR codes in a single video frame. '.repeat(6);
+    const videoPath = path.join(tempDir, 'tiled.mp4');
+
+    await encoder.addDocument('tiled', text, videoPath);
+    fs.writeFileSync(videoPath, '');
+    mockVideoFrames(frames);
+
+    const retriever = await QRVideoStoreRetriever.fromVideo(videoPath, embedder);
+    const manifest = await retriever.readManifest(videoPath);
+    const chunks = encoder.chunkText(text);
+    const totalQrCodes = chunks.length * 2;
+
+    // Chunks span two QR codes and data frames hold four
+    expect(manifest!.tileGrid).toEqual({ columns: 2, rows: 2 });
+    expect(manifest!.chunks[1]).toMatchObject({ frameOffset: 0, tileIndex: 2, frameCount: 2 });
+    expect(frames).toHaveLength(manifest!.manifestFrames + Math.ceil(totalQrCodes / 4));
+
+    const results = await retriever.search(chunks[3].text, videoPath, chunks.length);
+    expect(results.map(result => result.text).sort()).toEqual(
+      chunks.map(chunk => chunk.text).sort()
+    );
+    expect(results.find(result => result.text === chunks[3].text)).toMatchObject({
+      frameNumber: manifest!.manifestFrames + 1,
+      tileIndex: 2,
+    });
+    expect(await retriever.getFrameByNumber(videoPath, manifest!.manifestFrames, 2)).toBe(
+      chunks[1].text
+    );
+
+    const database = createInMemoryAdapter();
+    const report = await reindexVideo(videoPath, embedder, database);
+    expect(report).toMatchObject({ indexedChunks: chunks.length, failedFrames: [] });
+  });
+
+  it('should load embedded embeddings with the encoder chunk IDs and texts', async () => {
+    const { frames } = mockFrameWriter();
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      embedIndex: true,
+      embedIndexEmbeddings: true,
+    });
+    const text = 'Invoices are sent monthly. Refunds take five days. Servers restart nightly.';
+    const videoPath = path.join(tempDir, 'embedded.mp4');
+
+    await encoder.addDocument('faq', text, videoPath);
+    fs.writeFileSync(videoPath, '');
+    mockVideoFrames(frames);
+    const embed = jest.spyOn(embedder, 'embed');
+
+    const retriever = await QRVideoStoreRetriever.fromVideo(videoPath, embedder);
+    expect(embed).not.toHaveBeenCalled();
+    const manifest = await retriever.readManifest(videoPath);
+    const encoded = await database.list!();
+    expect(manifest!.chunks.map(chunk => chunk.chunkId)).toEqual(
+      encoded.map(entry => entry.chunkId)
+    );
+
+    const hits = await retriever.retrieveChunksHybrid('servers', 1, { vectorWeight: 0 });
+    expect(hits[0]).toMatchObject({ chunkId: encoded[1].chunkId, chunkText: encoded[1].chunkText });
+  });
+
+  it('should size manifest frames by QR capacity rather than chunk size', async () => {
+    const { frames } = mockFrameWriter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(createInMemoryAdapter(), embedder, {
+      chunkSize: 4,
+      chunkOverlap: 0,
+      embedIndex: true,
+    });
+    const chunks = encoder.chunkText('Tiny chunks, one manifest frame.');
+    const videoPath = path.join(tempDir, 'tiny.mp4');
+
+    await encoder.addDocument('tiny', chunks.map(chunk => chunk.text).join(''), videoPath);
+    fs.writeFileSync(videoPath, '');
+    mockVideoFrames(frames);
+
+    const retriever = await QRVideoStoreRetriever.fromVideo(videoPath, embedder);
+    const manifest = await retriever.readManifest(videoPath);
+    expect(manifest!.manifestFrames).toBe(1);
+    expect(frames).toHaveLength(1 + chunks.length);
+    const results = await retriever.search(chunks[0].text, videoPath, chunks.length);
+    expect(results.map(result => result.text).sort()).toEqual(
+      chunks.map(chunk => chunk.text).sort()
+    );
+  });
+
+  it.each(['rgb', 'yuv'] as const)(
+    'should multiplex three QR codes per frame in %s mode',
+    async colorMode => {
+      const { frames } = mockFrameWriter();
+      const embedder = createSimpleEmbedder(16);
+      const encoder = new QRVideoStoreEncoder(createInMemoryAdapter(), embedder, {
+        chunkSize: 40,
+        chunkOverlap: 0,
+        qrMaxVersion: 5,
+        colorMode,
+        embedIndex: true,
+      });
+      const text = 'Each color plane carries its own QR symbol. '.repeat(5);
+      const videoPath = path.join(tempDir, `${colorMode}.mp4`);
+
+      await encoder.addDocument('multiplexed', text, videoPath);
+      fs.writeFileSync(videoPath, '');
+      mockVideoFrames(frames);
+
+      expect(createFrameWriter).toHaveBeenCalledWith(videoPath, 'rgb', {
+        width: SIZE,
+        height: SIZE,
+        fps: 1,
+      });
+      expect(frames.every(frame => frame.length === SIZE * SIZE * 3)).toBe(true);
+
+      const retriever = await QRVideoStoreRetriever.fromVideo(videoPath, embedder);
+      const manifest = await retriever.readManifest(videoPath);
+      const chunks = encoder.chunkText(text);
+
+      expect(manifest!.colorMode).toBe(colorMode);
+      expect(frames).toHaveLength(manifest!.manifestFrames + Math.ceil(chunks.length / 3));
+      expect(manifest!.chunks[4]).toMatchObject({ frameOffset: 1, channel: 1 });
+
+      const results = await retriever.search(chunks[4].text, videoPath, chunks.length);
+      expect(results.map(result => result.text).sort()).toEqual(
+        chunks.map(chunk => chunk.text).sort()
+      );
+      expect(await retriever.getFrameByNumber(videoPath, manifest!.manifestFrames + 1, 0, 1)).toBe(
+        chunks[4].text
+      );
+
+      const report = await reindexVideo(videoPath, embedder, createInMemoryAdapter());
+      expect(report).toMatchObject({ indexedChunks: chunks.length, failedFrames: [] });
+    }
+  );
+});
+
+describe('QRVideoStoreEncoder parity frames', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    ['mono', { columns: 1, rows: 1 }],
+    ['rgb', { columns: 1, rows: 1 }],
+  ] as const)(
+    'should rebuild damaged %s frames from parity frames',
+    async (colorMode, tileGrid) => {
+      const { frames } = mockFrameWriter();
+      const embedder = createSimpleEmbedder(4);
+      const encoder = new QRVideoStoreEncoder(createInMemoryAdapter(), embedder, {
+        chunkSize: 80,
+        chunkOverlap: 0,
+        qrMaxVersion: 10,
+        colorMode,
+        tileGrid,
+        parity: { dataFrames: 2, parityFrames: 1 },
+        embedIndex: true,
+      });
+      const qrCodesPerFrame = colorMode === 'mono' ? 1 : 3;
+      const chunks = encoder.chunkText(
+        'Parity frames let a reader rebuild a frame that no longer decodes. '.repeat(
+          3 * qrCodesPerFrame
+        )
+      );
+      const videoPath = path.join(tempDir, `${colorMode}.mp4`);
+
+      await encoder.addDocument('parity', chunks.map(chunk => chunk.text).join(''), videoPath);
+      fs.writeFileSync(videoPath, '');
+      mockVideoFrames(frames);
+
+      const retriever = await QRVideoStoreRetriever.fromVideo(videoPath, embedder);
+      const manifest = await retriever.readManifest(videoPath);
+      const dataStart = manifest!.manifestFrames;
+      const dataFrames = Math.ceil(chunks.length / qrCodesPerFrame);
+
+      // Groups of two data frames, each followed by its parity frame; a blank
+      // frame fills the last group
+      expect(manifest!.parity).toEqual({ dataFrames: 2, parityFrames: 1 });
+      expect(dataFrames).toBe(3);
+      expect(frames).toHaveLength(dataStart + 6);
+
+      // Wipe one data frame in the first group and the last data frame of the video
+      const damaged = [dataStart + 1, dataStart + 3];
+      for (const frameNumber of damaged) {
+        frames[frameNumber] = Buffer.alloc(frames[frameNumber].length, 255);
+      }
+      retriever.clearCache();
+
+      const results = await retriever.search(chunks[1].text, videoPath, chunks.length);
+      expect(results.map(result => result.text).sort()).toEqual(
+        chunks.map(chunk => chunk.text).sort()
+      );
+
+      const report = await reindexVideo(videoPath, embedder, createInMemoryAdapter());
+      expect(report).toMatchObject({
+        indexedChunks: chunks.length,
+        failedFrames: [],
+        recoveredFrames: damaged,
+      });
+
+      // A second loss in the same group is more than one parity frame can rebuild
+      frames[dataStart] = Buffer.alloc(frames[dataStart].length, 255);
+      retriever.clearCache();
+      const partial = await retriever.search(chunks[1].text, videoPath, chunks.length);
+      expect(partial).toHaveLength(chunks.length - 2 * qrCodesPerFrame);
+    },
+    // Every pass decodes each frame with jsQR, which is slow on multiplexed frames
+    20000
+  );
+});
+
+describe('QRVideoStoreEncoder video presets and verification', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Give every FFmpeg writer its own frames, served once `damage` has run on them
+   */
+  function mockFinishedVideos(
+    damage: (frames: Buffer[], attempt: number) => void = () => undefined
+  ): Buffer[][] {
+    const videos: Buffer[][] = [];
+    jest.mocked(createFrameWriter).mockImplementation(() => {
+      const frames: Buffer[] = [];
+      const attempt = videos.push(frames) - 1;
+      return {
+        write: jest.fn(async (frame: Buffer) => {
+          frames.push(frame);
+        }),
+        end: jest.fn(async () => {
+          damage(frames, attempt);
+          mockVideoFrames(frames);
+        }),
+        abort: jest.fn(),
+      };
+    });
+    return videos;
+  }
+
+  function wipe(frames: Buffer[], frameNumber: number): void {
+    frames[frameNumber] = Buffer.alloc(frames[frameNumber].length, 255);
+  }
+
+  it('should pass the preset to FFmpeg and verify compact videos', async () => {
+    const videos = mockFinishedVideos();
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+      tileGrid: { columns: 2, rows: 1 },
+      colorMode: 'rgb',
+      parity: { dataFrames: 2, parityFrames: 1 },
+      videoOptions: { preset: 'compact', container: 'webm' },
+      embedIndex: true,
+    });
+    const text = 'Compact videos are decoded once before they are indexed. '.repeat(8);
+    const videoPath = path.join(tempDir, 'compact.webm');
+
+    await encoder.addDocument('compact', text, videoPath);
+
+    expect(createFrameWriter).toHaveBeenCalledWith(videoPath, 'rgb', {
+      width: SIZE,
+      height: SIZE,
+      fps: 1,
+      preset: 'compact',
+      container: 'webm',
+    });
+    expect(decodeRawFrames).toHaveBeenLastCalledWith(
+      videoPath,
+      expect.anything(),
+      undefined,
+      expect.any(Function)
+    );
+    expect(videos).toHaveLength(1);
+    expect(videos[0].length).toBeGreaterThan(3);
+    expect(await database.search(await embedder.embed(text), 100)).toHaveLength(
+      encoder.chunkText(text).length
+    );
+
+    fs.writeFileSync(videoPath, '');
+    const codec = { codecName: 'vp9', profile: 'Profile 0', pixelFormat: 'yuv420p' };
+    jest.mocked(probeVideo).mockResolvedValue({
+      ...(await probeVideo(videoPath)),
+      codec: { ...codec, container: 'matroska,webm' },
+    });
+    const stats = await encoder.getStats(videoPath, text);
+    expect(stats.codec).toEqual({ ...codec, container: 'matroska,webm' });
+    expect(stats.index).toMatchObject({
+      entryCount: encoder.chunkText(text).length,
+      dimensions: 16,
+      quantization: 'float64',
+    });
+  });
+
+  it('should discard a compact video whose QR codes do not read back', async () => {
+    mockFinishedVideos(frames => wipe(frames, 2));
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+      videoOptions: { preset: 'compact' },
+    });
+    const videoPath = path.join(tempDir, 'blurred.mp4');
+    fs.writeFileSync(videoPath, 'encoded');
+
+    await expect(
+      encoder.addDocumentStream('blurred', ['Too coarse to read back. '.repeat(8)], videoPath)
+    ).rejects.toThrow(/after 1 attempt\(s\).*frames 2 did not read back/);
+
+    expect(fs.existsSync(videoPath)).toBe(false);
+    expect(await database.search(await embedder.embed('Too coarse'), 10)).toEqual([]);
+  });
+
+  it('should retry one ECC level higher when sampled frames do not read back', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const videos = mockFinishedVideos((frames, attempt) => attempt === 0 && wipe(frames, 0));
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 30,
+      chunkOverlap: 0,
+      qrMaxVersion: 3,
+      qrErrorCorrectionLevel: 'L',
+      verify: 'sample',
+    });
+    const text = 'Sampled frames are decoded and compared with their chunks. '.repeat(10);
+    const videoPath = path.join(tempDir, 'sampled.mp4');
+
+    await encoder.addDocument('sampled', text, videoPath);
+
+    expect(videos).toHaveLength(2);
+    expect(videos[1].length).toBeGreaterThan(16);
+    expect(jest.mocked(decodeRawFrames).mock.calls.at(-1)![2]).toHaveLength(16);
+    // Retries are only logged when verbose
+    expect(warn).not.toHaveBeenCalled();
+
+    // The index points into the video written by the second attempt
+    const chunks = encoder.chunkText(text);
+    const entries = await database.search(await embedder.embed(chunks[2].text), chunks.length);
+    expect(entries).toHaveLength(chunks.length);
+    for (const entry of entries) {
+      const payloads = videos[1]
+        .slice(entry.frameNumber, entry.frameNumber + (entry.frameCount ?? 1))
+        .map(decodeGrayFrame);
+      expect(decodeChunkFrames(payloads, { documentId: 'sampled' })).toBe(entry.chunkText);
+    }
+  });
+
+  it('should report every attempt when no settings read back', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const videos = mockFinishedVideos((frames, attempt) => {
+      if (attempt === 0) {
+        [frames[0], frames[1]] = [frames[1], frames[0]];
+      } else {
+        wipe(frames, 1);
+      }
+    });
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrErrorCorrectionLevel: 'Q',
+      videoOptions: { preset: 'seekable', ffmpegOptions: ['-crf 30'] },
+      verify: 'full',
+    });
+    const videoPath = path.join(tempDir, 'unreadable.mp4');
+
+    const error = await encoder
+      .addDocument('unreadable', 'Every attempt loses a frame of this text. '.repeat(3), videoPath)
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(VideoVerificationError);
+    expect(error.message).toMatch(/after 3 attempt\(s\) \(last with ECC level H and the lossless/);
+    const { report } = error as VideoVerificationError;
+    expect(report.mode).toBe('full');
+    expect(report.attempts.map(attempt => attempt.qrErrorCorrectionLevel)).toEqual(['Q', 'H', 'H']);
+    expect(report.attempts[2].videoOptions).toEqual({ container: undefined, preset: 'lossless' });
+    expect(report.attempts[0].failures).toEqual([
+      { frameNumber: 0, tileIndex: undefined, channel: undefined, reason: 'mismatch' },
+      { frameNumber: 1, tileIndex: undefined, channel: undefined, reason: 'mismatch' },
+    ]);
+    expect(report.attempts[2]).toMatchObject({
+      checkedFrames: videos[2].length,
+      failures: [{ frameNumber: 1, reason: 'unreadable' }],
+    });
+    expect(fs.existsSync(videoPath)).toBe(false);
+    expect(await database.search(await embedder.embed('Every attempt'), 10)).toEqual([]);
+  });
+});
+
+describe('QRVideoStoreEncoder appendDocument', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockVideoFiles();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should add frames after the existing ones and offset the new index entries', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+      tileGrid: { columns: 2, rows: 1 },
+    });
+    const handbook = 'The handbook was encoded into the original video. '.repeat(3);
+    const faq = 'Frequently asked questions arrive in a later append. '.repeat(3);
+    const videoPath = path.join(tempDir, 'kb.mp4');
+
+    await encoder.addDocument('handbook', handbook, videoPath);
+    const original = (await probeVideo(videoPath)).frameCount;
+    const originalEntries = await database.search(await embedder.embed(handbook), 100);
+
+    await encoder.appendDocument(videoPath, 'faq', faq);
+
+    expect(concatVideos).toHaveBeenCalledWith(
+      [videoPath, expect.stringMatching(/\.kb\.append-\d+\.mp4$/)],
+      expect.stringMatching(/\.kb\.joined-\d+\.mp4$/)
+    );
+    expect(fs.readdirSync(tempDir)).toEqual(['kb.mp4']);
+
+    const entries = await database.search(await embedder.embed(faq), 100);
+    const faqEntries = entries.filter(entry => entry.documentId === 'faq');
+    const faqChunks = encoder.chunkText(faq);
+    expect(faqEntries).toHaveLength(faqChunks.length);
+    expect(Math.min(...faqEntries.map(entry => entry.frameNumber))).toBe(original);
+    expect((await probeVideo(videoPath)).frameCount).toBe(
+      original + Math.ceil(faqChunks.length / 2)
+    );
+    const position = ({ chunkText, frameNumber, tileIndex }: QRVideoStoreIndexEntry) => ({
+      chunkText,
+      frameNumber,
+      tileIndex,
+    });
+    expect(entries.filter(entry => entry.documentId === 'handbook').map(position)).toEqual(
+      expect.arrayContaining(originalEntries.map(position))
+    );
+
+    const retriever = new QRVideoStoreRetriever(database, embedder, {
+      tileGrid: { columns: 2, rows: 1 },
+    });
+    const results = await retriever.search(faqChunks[1].text, videoPath, 100);
+    expect(results.map(result => result.text).sort()).toEqual(
+      [...encoder.chunkText(handbook), ...faqChunks].map(chunk => chunk.text).sort()
+    );
+  });
+
+  it('should find appended chunks with a retriever that already read the video', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+    });
+    const handbook = 'The handbook was encoded into the original video. '.repeat(2);
+    const faq = 'Frequently asked questions arrive in a later append. '.repeat(2);
+    const videoPath = path.join(tempDir, 'kb.mp4');
+    const retriever = new QRVideoStoreRetriever(database, embedder);
+
+    await encoder.addDocument('handbook', handbook, videoPath);
+    expect(await retriever.search(handbook, videoPath, 100)).toHaveLength(
+      encoder.chunkText(handbook).length
+    );
+
+    await encoder.appendDocument(videoPath, 'faq', faq);
+    const results = await retriever.search(faq, videoPath, 100, { documentId: 'faq' });
+    expect(results.map(result => result.text).sort()).toEqual(
+      encoder
+        .chunkText(faq)
+        .map(chunk => chunk.text)
+        .sort()
+    );
+  });
+
+  it('should append after the blank frames that fill the last parity group', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const parity = { dataFrames: 2, parityFrames: 1 };
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+      parity,
+    });
+    const videoPath = path.join(tempDir, 'kb.mp4');
+
+    // One chunk and a blank frame fill the group's data frames
+    await encoder.addDocument('short', 'A single chunk.', videoPath);
+    expect((await probeVideo(videoPath)).frameCount).toBe(3);
+
+    const text = 'Appended chunks get parity frames too.';
+    await encoder.appendDocument(videoPath, 'more', text);
+    expect(fs.readdirSync(tempDir)).toEqual(['kb.mp4']);
+    const [appended] = (await database.list!()).filter(entry => entry.documentId === 'more');
+    expect(appended.frameNumber).toBe(3);
+
+    const retriever = new QRVideoStoreRetriever(database, embedder, { parity });
+    const results = await retriever.search(text, videoPath, 1, { documentId: 'more' });
+    expect(results.map(result => result.text)).toEqual([text]);
+
+    const report = await reindexVideo(videoPath, embedder, createInMemoryAdapter(), { parity });
+    // Frames 0-2 hold the first group, 3-5 the appended chunk, a blank frame and their parity frame
+    expect(report).toMatchObject({
+      totalFrames: 6,
+      indexedChunks: 2,
+      failedFrames: [],
+      recoveredFrames: [],
+    });
+  });
+
+  it('should refuse to append to a video whose last parity group is incomplete', async () => {
+    const embedder = createSimpleEmbedder(16);
+    const config = { chunkSize: 40, chunkOverlap: 0, qrMaxVersion: 5 };
+    const writer = new QRVideoStoreEncoder(createInMemoryAdapter(), embedder, config);
+    const appender = new QRVideoStoreEncoder(createInMemoryAdapter(), embedder, {
+      ...config,
+      parity: { dataFrames: 2, parityFrames: 1 },
+    });
+    const videoPath = path.join(tempDir, 'kb.mp4');
+
+    // A video written without parity frames ends wherever its data does
+    await writer.addDocument('short', 'A single chunk.', videoPath);
+    await expect(appender.appendDocument(videoPath, 'more', 'More text.')).rejects.toThrow(
+      /last parity group/
+    );
+    expect(concatVideos).not.toHaveBeenCalledWith(
+      [videoPath, expect.anything()],
+      expect.anything()
+    );
+  });
+
+  it('should count parity groups from the end of an embedded manifest', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const parity = { dataFrames: 4, parityFrames: 1 };
+    const config = { chunkSize: 40, chunkOverlap: 0, qrMaxVersion: 5, parity };
+    const writer = new QRVideoStoreEncoder(database, embedder, { ...config, embedIndex: true });
+    const appender = new QRVideoStoreEncoder(database, embedder, config);
+    const completePath = path.join(tempDir, 'complete.mp4');
+
+    // Four chunks fill the only parity group, which starts after the manifest
+    const guide = 'Four chunks of text fill every data frame of one parity group.'.repeat(2);
+    expect(writer.chunkText(guide)).toHaveLength(4);
+    await writer.addDocument('guide', guide, completePath);
+    const manifestFrames = (await probeVideo(completePath)).frameCount - 5;
+    expect(manifestFrames % 5).not.toBe(0);
+
+    const text = 'Appended chunks get parity frames too.';
+    await appender.appendDocument(completePath, 'more', text);
+    const [appended] = (await database.list!()).filter(entry => entry.documentId === 'more');
+    expect(appended.frameNumber).toBe(manifestFrames + 5);
+    const retriever = new QRVideoStoreRetriever(database, embedder, { parity });
+    const results = await retriever.search(text, completePath, 1, { documentId: 'more' });
+    expect(results.map(result => result.text)).toEqual([text]);
+  });
+
+  it('should refuse to append when the index is embedded', async () => {
+    const encoder = new QRVideoStoreEncoder(createInMemoryAdapter(), createSimpleEmbedder(16), {
+      embedIndex: true,
+    });
+
+    await expect(
+      encoder.appendDocument(path.join(tempDir, 'kb.mp4'), 'doc', 'text')
+    ).rejects.toThrow(/embedIndex/);
+  });
+});
+
+describe('QRVideoStoreEncoder compactVideo', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockVideoFiles();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should drop the frames of deleted documents and remap the remaining entries', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const tileGrid = { columns: 2, rows: 1 };
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+      tileGrid,
+    });
+    const erased = 'Personal data that must be erased on request. '.repeat(4);
+    const kept = 'Product documentation that stays in the store. '.repeat(3);
+    const videoPath = path.join(tempDir, 'kb.mp4');
+    const otherPath = path.join(tempDir, 'other.mp4');
+
+    await encoder.addDocument('customer', erased, videoPath);
+    await encoder.appendDocument(videoPath, 'docs', kept);
+    // Entries of another video in the same database stay where they are
+    await encoder.addDocument('other', kept, otherPath);
+    const before = await probeVideo(videoPath);
+    const otherEntries = (await database.list!()).filter(entry => entry.documentId === 'other');
+
+    await database.delete!('customer');
+    const report = await encoder.compactVideo(videoPath);
+
+    const keptChunks = encoder.chunkText(kept);
+    expect(report).toMatchObject({
+      videoPath,
+      framesBefore: before.frameCount,
+      framesAfter: Math.ceil(keptChunks.length / 2),
+      remappedEntries: keptChunks.length,
+    });
+    expect(report.bytesReclaimed).toBe(report.bytesBefore - report.bytesAfter);
+    expect(report.bytesReclaimed).toBe((report.framesBefore - report.framesAfter) * 1024);
+    expect(fs.readdirSync(tempDir).sort()).toEqual(['kb.mp4', 'other.mp4']);
+
+    const entries = await database.list!();
+    expect(entries.filter(entry => entry.documentId === 'other')).toEqual(otherEntries);
+    const docsEntries = entries.filter(entry => entry.documentId === 'docs');
+    expect(docsEntries.map(({ frameNumber, tileIndex }) => ({ frameNumber, tileIndex }))).toEqual(
+      keptChunks.map((_, i) => ({ frameNumber: Math.floor(i / 2), tileIndex: i % 2 }))
+    );
+
+    const retriever = new QRVideoStoreRetriever(createInMemoryAdapter(docsEntries), embedder, {
+      tileGrid,
+    });
+    const results = await retriever.search(keptChunks[0].text, videoPath, 100);
+    expect(results.map(result => result.text).sort()).toEqual(
+      keptChunks.map(chunk => chunk.text).sort()
+    );
+
+    const rebuilt = createInMemoryAdapter();
+    await reindexVideo(videoPath, embedder, rebuilt, { tileGrid });
+    const texts = (await rebuilt.list!()).map(entry => entry.chunkText);
+    expect(texts.sort()).toEqual(keptChunks.map(chunk => chunk.text).sort());
+  });
+
+  it('should not serve frames cached before compaction', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+    });
+    const erased = 'Personal data that must be erased on request. '.repeat(2);
+    const kept = 'Product documentation that stays in the store. '.repeat(2);
+    const videoPath = path.join(tempDir, 'kb.mp4');
+    const retriever = new QRVideoStoreRetriever(database, embedder);
+
+    await encoder.addDocument('customer', erased, videoPath);
+    await encoder.appendDocument(videoPath, 'docs', kept);
+    const keptTexts = encoder
+      .chunkText(kept)
+      .map(chunk => chunk.text)
+      .sort();
+    // Cache every frame of the video, deleted ones included
+    expect(await retriever.search(kept, videoPath, 100)).toHaveLength(
+      encoder.chunkText(erased).length + keptTexts.length
+    );
+
+    await database.delete!('customer');
+    await encoder.compactVideo(videoPath);
+
+    const results = await retriever.search(kept, videoPath, 100);
+    expect(results.map(result => result.text).sort()).toEqual(keptTexts);
+    expect(results.map(result => result.documentId)).toEqual(keptTexts.map(() => 'docs'));
+  });
+
+  it('should keep the original video when the entries cannot be remapped', async () => {
+    const database = createInMemoryAdapter();
+    const encoder = new QRVideoStoreEncoder(database, createSimpleEmbedder(16), {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+    });
+    const videoPath = path.join(tempDir, 'kb.mp4');
+    await encoder.addDocument('customer', 'Personal data that must be erased.', videoPath);
+    await encoder.appendDocument(videoPath, 'docs', 'Product documentation that stays.');
+    await database.delete!('customer');
+    const entries = await database.list!();
+    const original = fs.readFileSync(videoPath, 'utf8');
+    jest.spyOn(database, 'replaceAll').mockRejectedValue(new Error('Index file is read-only'));
+
+    await expect(encoder.compactVideo(videoPath)).rejects.toThrow('Index file is read-only');
+
+    expect(fs.readFileSync(videoPath, 'utf8')).toBe(original);
+    expect(fs.readdirSync(tempDir)).toEqual(['kb.mp4']);
+    expect(await database.list!()).toEqual(entries);
+  });
+
+  it('should leave a video without deleted frames untouched', async () => {
+    const database = createInMemoryAdapter();
+    const encoder = new QRVideoStoreEncoder(database, createSimpleEmbedder(16), {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+    });
+    const videoPath = path.join(tempDir, 'kb.mp4');
+    await encoder.addDocument('docs', 'Nothing in this video was deleted. '.repeat(3), videoPath);
+    const entries = await database.list!();
+
+    const report = await encoder.compactVideo(videoPath);
+
+    expect(report.framesAfter).toBe(report.framesBefore);
+    expect(report).toMatchObject({ remappedEntries: 0, bytesReclaimed: 0 });
+    expect(createFrameWriter).not.toHaveBeenCalledWith(
+      expect.stringContaining(path.join(tempDir, '.kb.compact-')),
+      expect.anything(),
+      expect.anything()
+    );
+    expect(await database.list!()).toEqual(entries);
+  });
+
+  it('should refuse databases that cannot list or replace their entries', async () => {
+    const { list, replaceAll, ...database } = createInMemoryAdapter();
+    const encoder = new QRVideoStoreEncoder(database, createSimpleEmbedder(16));
+    expect(list && replaceAll).toBeDefined();
+
+    await expect(encoder.compactVideo(path.join(tempDir, 'kb.mp4'))).rejects.toThrow(
+      /list\(\) and replaceAll\(\)/
+    );
+  });
+});
+
+describe('QRVideoStoreEncoder shards', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockVideoFiles();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should split a store by frame count and search it as one video', async () => {
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const parity = { dataFrames: 2, parityFrames: 1 };
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+      parity,
+      shard: { maxFrames: 3 },
+    });
+    const handbook = 'The employee handbook explains holidays and leave. '.repeat(4);
+    const faq = 'Frequently asked questions about refunds and returns. '.repeat(2);
+    const storePath = path.join(tempDir, 'kb.mp4');
+
+    await encoder.addDocument('handbook', handbook, storePath);
+    await encoder.addDocument('faq', faq, storePath);
+
+    // Two data frames and their parity frame per shard, numbered after the existing shards
+    const chunkCount = encoder.chunkText(handbook).length + encoder.chunkText(faq).length;
+    const layout = await readShardLayout(storePath);
+    const frameCounts = layout!.shards.map(shard => shard.frameCount);
+    expect(layout!.shards.map(shard => shard.path)).toEqual(
+      frameCounts.map((_, i) => `kb.shard-${String(i).padStart(4, '0')}.mp4`)
+    );
+    expect(Math.max(...frameCounts)).toBe(3);
+    expect(layout!.shards.map(shard => shard.startFrame)).toEqual(
+      frameCounts.map((_, i) => frameCounts.slice(0, i).reduce((sum, count) => sum + count, 0))
+    );
+    expect(fs.existsSync(storePath)).toBe(false);
+
+    const entries = await database.list!();
+    expect(entries).toHaveLength(chunkCount);
+    const retriever = new QRVideoStoreRetriever(database, embedder, { parity });
+    const results = await retriever.search(faq, storePath, 100);
+    expect(results).toHaveLength(chunkCount);
+    for (const result of results) {
+      const entry = entries.find(({ chunkText }) => chunkText === result.text)!;
+      expect(result.frameNumber).toBe(entry.frameNumber);
+    }
+
+    const last = entries[entries.length - 1];
+    const frames = await retriever.batchDecodeFrames(storePath, [0, last.frameNumber]);
+    expect(frames.get(last.frameNumber)).toBe(last.chunkText);
+    await expect(retriever.getFrameByNumber(storePath, 1000)).rejects.toThrow(/out of range/);
+
+    const stats = await encoder.getStats(storePath, handbook + faq);
+    expect(stats).toMatchObject({
+      totalFrames: frameCounts.reduce((sum, count) => sum + count, 0),
+      videoSizeBytes: layout!.shards.reduce((sum, shard) => sum + shard.sizeBytes, 0),
+      shardCount: layout!.shards.length,
+    });
+
+    await expect(encoder.appendDocument(storePath, 'more', faq)).rejects.toThrow(/sharded/);
+    await expect(encoder.compactVideo(storePath)).rejects.toThrow(/sharded/);
+  });
+
+  it('should start a new shard once a shard reaches its byte limit', async () => {
+    const database = createInMemoryAdapter();
+    const encoder = new QRVideoStoreEncoder(database, createSimpleEmbedder(16), {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+      shard: { maxBytes: 2048 },
+    });
+    const storePath = path.join(tempDir, 'corpus.mp4');
+    const documents = ['handbook', 'faq', 'legal'].map(documentId => ({
+      documentId,
+      documentText: `The ${documentId} of the shop, for every customer. `.repeat(3),
+      outputVideoPath: storePath,
+    }));
+
+    await encoder.addDocumentsBatch(documents);
+
+    // The mocked FFmpeg writes one kilobyte per frame
+    const chunkCount = documents.flatMap(doc => encoder.chunkText(doc.documentText)).length;
+    const layout = await readShardLayout(storePath);
+    expect(layout!.shards.map(shard => shard.frameCount)).toEqual(
+      Array.from({ length: Math.ceil(chunkCount / 2) }, (_, i) => Math.min(2, chunkCount - i * 2))
+    );
+    const documentIds = new Set((await database.list!()).map(entry => entry.documentId));
+    expect(documentIds).toEqual(new Set(['handbook', 'faq', 'legal']));
+  });
+
+  it('should remove new shards when a chunk does not fit in a shard', async () => {
+    const database = createInMemoryAdapter();
+    const encoder = new QRVideoStoreEncoder(database, createSimpleEmbedder(16), {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      qrMaxVersion: 5,
+      parity: { dataFrames: 2, parityFrames: 1 },
+      shard: { maxFrames: 1 },
+    });
+
+    await expect(
+      encoder.addDocument(
+        'docs',
+        'Too large for one frame. '.repeat(3),
+        path.join(tempDir, 'kb.mp4')
+      )
+    ).rejects.toThrow(/does not fit in a shard of 1 frames/);
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+    expect(await database.list!()).toEqual([]);
+
+    expect(
+      () =>
+        new QRVideoStoreEncoder(database, createSimpleEmbedder(16), {
+          embedIndex: true,
+          shard: { maxFrames: 10 },
+        })
+    ).toThrow(/embedIndex/);
+    expect(
+      () => new QRVideoStoreEncoder(database, createSimpleEmbedder(16), { shard: {} })
+    ).toThrow(/maxFrames or maxBytes/);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for search filters
+ */
+
+import { createInMemoryAdapter, createSimpleEmbedder } from '../src/adapters';
+import { matchesFilter } from '../src/filter';
+import { QRVideoStoreRetriever } from '../src/retriever';
+import { QRVideoStoreIndexEntry, SearchFilter, VectorDatabase } from '../src/types';
+
+function entry(
+  documentId: string,
+  embedding: number[],
+  metadata?: Record<string, any>
+): QRVideoStoreIndexEntry {
+  return { chunkText: documentId, embedding, frameNumber: 0, documentId, metadata };
+}
+
+describe('matchesFilter', () => {
+  const guide = entry('guide', [1, 0], { author: 'alice', version: 3, date: '2024-05-01' });
+
+  it('should match equality, $in and ranges on metadata fields', () => {
+    expect(matchesFilter(guide)).toBe(true);
+    expect(matchesFilter(guide, {})).toBe(true);
+    expect(matchesFilter(guide, { metadata: { author: 'alice' } })).toBe(true);
+    expect(matchesFilter(guide, { metadata: { author: 'bob' } })).toBe(false);
+    expect(matchesFilter(guide, { metadata: { author: { $in: ['bob', 'alice'] } } })).toBe(true);
+    expect(matchesFilter(guide, { metadata: { version: { $gte: 3, $lt: 4 } } })).toBe(true);
+    expect(matchesFilter(guide, { metadata: { version: { $gt: 3 } } })).toBe(false);
+    expect(matchesFilter(guide, { metadata: { date: { $lte: '2024-12-31' } } })).toBe(true);
+    // Bounds only compare with values of the same type
+    expect(matchesFilter(guide, { metadata: { version: { $lt: '9' } } })).toBe(false);
+    expect(matchesFilter(guide, { metadata: { missing: null } })).toBe(true);
+    expect(matchesFilter(guide, { metadata: { missing: { $gte: 0 } } })).toBe(false);
+  });
+
+  it('should scope to one or several documents', () => {
+    expect(matchesFilter(guide, { documentId: 'guide' })).toBe(true);
+    expect(matchesFilter(guide, { documentId: ['faq', 'guide'] })).toBe(true);
+    expect(matchesFilter(guide, { documentId: [], metadata: { author: 'alice' } })).toBe(false);
+  });
+
+  it('should reject unsupported operators', () => {
+    const filters = [
+      { metadata: { author: { $ne: 'bob' } } },
+      { metadata: { author: {} } },
+      { metadata: { version: { $in: [3], $gt: 1 } } },
+    ] as unknown as SearchFilter[];
+
+    for (const filter of filters) {
+      expect(() => matchesFilter(guide, filter)).toThrow(/metadata field/);
+    }
+  });
+});
+
+describe('filtered search', () => {
+  const entries = [
+    entry('v1', [1, 0], { version: 1 }),
+    entry('v2', [0.9, 0.1], { version: 2 }),
+    entry('v3', [0, 1], { version: 3 }),
+  ];
+
+  it('should filter in the in-memory adapter before ranking', async () => {
+    const db = createInMemoryAdapter(entries);
+
+    const results = await db.search([1, 0], 1, { metadata: { version: { $gte: 2 } } });
+    expect(results.map(result => result.documentId)).toEqual(['v2']);
+    expect(await db.search([1, 0], 5, { documentId: 'v3' })).toHaveLength(1);
+  });
+
+  it('should pass the filter through the retriever', async () => {
+    const embedder = createSimpleEmbedder(2);
+    const db = createInMemoryAdapter(entries);
+    const search = jest.spyOn(db, 'search');
+    const retriever = new QRVideoStoreRetriever(db, embedder);
+    const filter: SearchFilter = { documentId: ['v1', 'v3'] };
+
+    const matches = await retriever.retrieveChunks('query', 5, filter);
+
+    expect(search).toHaveBeenCalledWith(expect.any(Array), 5, filter);
+    expect(matches.map(match => match.documentId).sort()).toEqual(['v1', 'v3']);
+  });
+
+  it('should drop entries a database without filter support lets through', async () => {
+    const legacy: VectorDatabase = {
+      upsert: async () => undefined,
+      search: async () => entries,
+    };
+    const retriever = new QRVideoStoreRetriever(legacy, createSimpleEmbedder(2));
+
+    const matches = await retriever.retrieveChunks('query', 5, { metadata: { version: 2 } });
+    expect(matches.map(match => match.documentId)).toEqual(['v2']);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for the versioned frame envelope
+ */
+
+import { encodeChunkFrames, decodeChunkFrames, readFrame, FRAME_VERSION } from '../src/frames';
+import { trainPayloadDictionary } from '../src/codecs';
+import { FrameDecodeError } from '../src/errors';
+import { FrameDecodeErrorCode } from '../src/types';
+import { qrRoundTrip } from './helpers';
+
+const TEXT = 'Frames carry a header with the document, chunk, codec and checksum. '.repeat(10);
+
+/**
+ * Capture the error code thrown by a decode call
+ */
+function decodeErrorCode(decode: () => unknown): FrameDecodeErrorCode | undefined {
+  try {
+    decode();
+  } catch (error) {
+    if (error instanceof FrameDecodeError) {
+      return error.code;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe('Frame envelope', () => {
+  it('should write identity and part numbers into every frame header', () => {
+    const frames = encodeChunkFrames(TEXT, 120, {
+      documentId: 'guide',
+      chunkIndex: 7,
+      codec: 'none',
+    });
+
+    expect(frames.length).toBeGreaterThan(1);
+    frames.forEach((frame, i) => {
+      expect(frame.length).toBeLessThanOrEqual(120);
+      expect(readFrame(frame).header).toMatchObject({
+        version: FRAME_VERSION,
+        codec: 'none',
+        chunkIndex: 7,
+        partIndex: i,
+        partCount: frames.length,
+      });
+    });
+    expect(decodeChunkFrames(frames, { documentId: 'guide', chunkIndex: 7 })).toBe(TEXT);
+  });
+
+  it.each(['deflate', 'brotli'] as const)(
+    'should round trip %s frames through a QR code',
+    codec => {
+      const frames = encodeChunkFrames(TEXT, 2331, { documentId: 'guide', chunkIndex: 0, codec });
+      const decoded = frames.map(frame => qrRoundTrip(frame)!);
+
+      expect(frames).toHaveLength(1);
+      expect(decodeChunkFrames(decoded)).toBe(TEXT);
+    }
+  );
+
+  it('should detect corrupted and truncated frames', () => {
+    const [frame] = encodeChunkFrames('short chunk', 2331, {
+      documentId: 'guide',
+      chunkIndex: 0,
+      codec: 'none',
+    });
+
+    const corrupted = Buffer.from(frame);
+    corrupted[corrupted.length - 1] ^= 0x01;
+    expect(decodeErrorCode(() => decodeChunkFrames([corrupted]))).toBe('CHECKSUM_MISMATCH');
+    expect(decodeErrorCode(() => decodeChunkFrames([frame.subarray(0, frame.length - 2)]))).toBe(
+      'TRUNCATED'
+    );
+
+    const newer = Buffer.from(frame);
+    newer[2] = FRAME_VERSION + 1;
+    expect(decodeErrorCode(() => decodeChunkFrames([newer]))).toBe('UNSUPPORTED_VERSION');
+  });
+
+  it('should reject frames from another document, chunk or an incomplete chunk', () => {
+    const frames = encodeChunkFrames(TEXT, 120, {
+      documentId: 'guide',
+      chunkIndex: 3,
+      codec: 'none',
+    });
+
+    expect(decodeErrorCode(() => decodeChunkFrames(frames, { documentId: 'other' }))).toBe(
+      'DOCUMENT_MISMATCH'
+    );
+    expect(decodeErrorCode(() => decodeChunkFrames(frames, { chunkIndex: 4 }))).toBe(
+      'CHUNK_MISMATCH'
+    );
+    expect(decodeErrorCode(() => decodeChunkFrames(frames.slice(0, -1)))).toBe('MISSING_PARTS');
+    expect(decodeErrorCode(() => decodeChunkFrames([frames[1], frames[0]]))).toBe('CHUNK_MISMATCH');
+  });
+
+  it('should require the dictionary a chunk was compressed with', () => {
+    const dictionary = trainPayloadDictionary([TEXT, TEXT]);
+    const frames = encodeChunkFrames(TEXT, 2331, {
+      documentId: 'guide',
+      chunkIndex: 0,
+      codec: 'deflate',
+      dictionary,
+    });
+
+    expect(decodeChunkFrames(frames, { dictionary })).toBe(TEXT);
+    expect(decodeErrorCode(() => decodeChunkFrames(frames))).toBe('DICTIONARY_MISMATCH');
+    expect(decodeErrorCode(() => decodeChunkFrames(frames, { dictionary: Buffer.from('x') }))).toBe(
+      'DICTIONARY_MISMATCH'
+    );
+  });
+
+  it('should read frames written before the envelope existed', () => {
+    expect(decodeChunkFrames([Buffer.from('legacy ', 'utf8'), Buffer.from('text', 'utf8')])).toBe(
+      'legacy text'
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Shared test helpers
+ */
+
+import * as fs from 'fs';
+import * as QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { createFrameWriter, decodeRawFrames, probeVideo, concatVideos } from '../src/video';
+
+/** Width and height of the frames written by the tests' encoders */
+const SIZE = 256;
+
+/**
+ * Render a byte-mode QR code to square RGBA pixels
+ */
+export function renderQrPixels(
+  data: Buffer | string,
+  scale: number = 4
+): { pixels: Uint8ClampedArray; size: number } {
+  const bytes = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+  const qr = QRCode.create([{ data: bytes, mode: 'byte' }], { errorCorrectionLevel: 'M' });
+  const margin = 4;
+  const size = (qr.modules.size + margin * 2) * scale;
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+
+  for (let y = 0; y < qr.modules.size; y++) {
+    for (let x = 0; x < qr.modules.size; x++) {
+      if (!qr.modules.get(x, y)) {
+        continue;
+      }
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const offset = (((y + margin) * scale + dy) * size + (x + margin) * scale + dx) * 4;
+          pixels[offset] = pixels[offset + 1] = pixels[offset + 2] = 0;
+        }
+      }
+    }
+  }
+
+  return { pixels, size };
+}
+
+/**
+ * Render QR segments to RGBA pixels and decode them again with jsQR
+ *
+ * Exercises the same byte path as a video frame without needing FFmpeg.
+ */
+export function qrRoundTrip(data: Buffer | string, scale: number = 4): Uint8Array | null {
+  const { pixels, size } = renderQrPixels(data, scale);
+  const decoded = jsQR(pixels, size, size);
+  return decoded ? Uint8Array.from(decoded.binaryData) : null;
+}
+
+/**
+ * Paste square RGBA pixels into the top-left corner of a white frame
+ */
+export function padPixels(
+  source: { pixels: Uint8ClampedArray; size: number },
+  frameSize: number
+): Uint8ClampedArray {
+  const frame = new Uint8ClampedArray(frameSize * frameSize * 4).fill(255);
+  for (let y = 0; y < source.size; y++) {
+    frame.set(
+      source.pixels.subarray(y * source.size * 4, (y + 1) * source.size * 4),
+      y * frameSize * 4
+    );
+  }
+  return frame;
+}
+
+/**
+ * Expand a raw grayscale or RGB24 frame to RGBA pixels
+ */
+export function rawToRgba(frame: Buffer): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(SIZE * SIZE * 4).fill(255);
+  const channels = frame.length / (SIZE * SIZE);
+  for (let i = 0; i < SIZE * SIZE; i++) {
+    for (let c = 0; c < 3; c++) {
+      rgba[i * 4 + c] = frame[i * channels + (channels === 3 ? c : 0)];
+    }
+  }
+  return rgba;
+}
+
+/**
+ * Back the mocked video module with files naming in-memory frame lists
+ *
+ * Written and concatenated videos survive renames, like real files, and
+ * their size grows by one kilobyte per frame as frames are written. The
+ * test file must call `jest.mock('../src/video')`.
+ */
+export function mockVideoFiles(): void {
+  const videos = new Map<string, Buffer[]>();
+  const framesOf = (videoPath: string) =>
+    videos.get(fs.readFileSync(videoPath, 'utf8').split('\n')[0])!;
+  const store = (videoPath: string, frames: Buffer[]) => {
+    const id = `video-${videos.size}`;
+    videos.set(id, frames);
+    fs.writeFileSync(videoPath, `${id}\n${' '.repeat(frames.length * 1024)}`);
+  };
+
+  jest.mocked(createFrameWriter).mockImplementation(outputPath => {
+    const frames: Buffer[] = [];
+    return {
+      write: jest.fn(async (frame: Buffer) => {
+        frames.push(frame);
+        fs.appendFileSync(outputPath, ' '.repeat(1024));
+      }),
+      end: jest.fn(async () => store(outputPath, frames)),
+      abort: jest.fn(),
+    };
+  });
+  jest
+    .mocked(concatVideos)
+    .mockImplementation(async (inputPaths, outputPath) =>
+      store(outputPath, inputPaths.flatMap(framesOf))
+    );
+  jest.mocked(probeVideo).mockImplementation(async videoPath => ({
+    width: SIZE,
+    height: SIZE,
+    fps: 1,
+    timeBase: 1 / 16384,
+    startTime: 0,
+    frameCount: framesOf(videoPath).length,
+    durationSeconds: framesOf(videoPath).length,
+  }));
+  jest
+    .mocked(decodeRawFrames)
+    .mockImplementation(async (videoPath, _info, frameNumbers, onFrame) => {
+      const frames = framesOf(videoPath);
+      const requested = frameNumbers ?? frames.map((_, i) => i);
+      for (const frameNumber of [...new Set(requested)].sort((a, b) => a - b)) {
+        onFrame(frameNumber, rawToRgba(frames[frameNumber]));
+      }
+    });
+}
@@ -0,0 +1,187 @@
+/**
+ * Tests for the HNSW vector index
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileAdapter, createInMemoryAdapter } from '../src/adapters';
+import { createHnswIndex } from '../src/hnsw';
+import { QRVideoStoreIndexEntry } from '../src/types';
+
+/**
+ * Reproducible random entries spread over a few documents
+ */
+function randomEntries(count: number, dimensions: number, seed: number): QRVideoStoreIndexEntry[] {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    chunkText: `chunk ${i}`,
+    embedding: Array.from({ length: dimensions }, () => random() * 2 - 1),
+    frameNumber: i,
+    documentId: `doc-${i % 5}`,
+    metadata: { part: i % 2 },
+  }));
+}
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+/**
+ * Share of the exact top `limit` frames that the approximate search found
+ */
+async function measureRecall(
+  approximate: (embedding: number[]) => Promise<QRVideoStoreIndexEntry[]>,
+  exact: (embedding: number[]) => Promise<QRVideoStoreIndexEntry[]>,
+  queries: number[][]
+): Promise<number> {
+  let found = 0;
+  let total = 0;
+  for (const query of queries) {
+    const expected = new Set((await exact(query)).map(entry => entry.frameNumber));
+    found += (await approximate(query)).filter(entry => expected.has(entry.frameNumber)).length;
+    total += expected.size;
+  }
+  return found / total;
+}
+
+describe('createHnswIndex', () => {
+  const entries = randomEntries(1000, 16, 7);
+  const queries = randomEntries(30, 16, 99).map(entry => entry.embedding);
+
+  it('should find nearly all of the exact nearest neighbours', async () => {
+    const exact = createInMemoryAdapter(entries);
+    const approximate = createInMemoryAdapter(entries, { hnsw: { M: 8, efConstruction: 64 } });
+
+    const recall = await measureRecall(
+      query => approximate.search(query, 10),
+      query => exact.search(query, 10),
+      queries
+    );
+    expect(recall).toBeGreaterThanOrEqual(0.95);
+
+    const [best] = await approximate.search(entries[42].embedding, 1);
+    expect(best.frameNumber).toBe(42);
+    expect(best.similarity).toBeCloseTo(1);
+  });
+
+  it('should keep recall after incremental inserts and deletes', async () => {
+    const exact = createInMemoryAdapter();
+    const approximate = createInMemoryAdapter([], { hnsw: { M: 8, efConstruction: 64 } });
+    for (let i = 0; i < entries.length; i += 100) {
+      await exact.upsert(entries.slice(i, i + 100));
+      await approximate.upsert(entries.slice(i, i + 100));
+    }
+    await exact.delete!('doc-3');
+    await approximate.delete!('doc-3');
+
+    const recall = await measureRecall(
+      query => approximate.search(query, 10),
+      query => exact.search(query, 10),
+      queries
+    );
+    expect(recall).toBeGreaterThanOrEqual(0.95);
+    for (const query of queries) {
+      const results = await approximate.search(query, 10);
+      expect(results.some(result => result.documentId === 'doc-3')).toBe(false);
+    }
+  });
+
+  it('should keep recall when the same chunks are upserted again', async () => {
+    const chunks = entries.map(entry => ({
+      ...entry,
+      chunkId: `${entry.documentId}:${entry.frameNumber}`,
+    }));
+    const exact = createInMemoryAdapter(chunks);
+    const approximate = createInMemoryAdapter(chunks, { hnsw: { M: 8, efConstruction: 64 } });
+    for (let i = 0; i < 3; i++) {
+      await approximate.upsert(chunks.filter(chunk => chunk.documentId === `doc-${i}`));
+    }
+
+    expect(await approximate.list!()).toHaveLength(chunks.length);
+    const recall = await measureRecall(
+      query => approximate.search(query, 10),
+      query => exact.search(query, 10),
+      queries
+    );
+    expect(recall).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('should return enough entries matching a filter', async () => {
+    const index = createHnswIndex({ M: 8, efSearch: 10 }, entries);
+
+    const results = index.search(queries[0], 20, { documentId: 'doc-1', metadata: { part: 1 } });
+    expect(results).toHaveLength(20);
+    expect(results.every(result => result.documentId === 'doc-1')).toBe(true);
+    expect(index.search(queries[0], 5, { documentId: 'missing' })).toEqual([]);
+  });
+
+  it('should restore a serialized graph without rebuilding it', () => {
+    const index = createHnswIndex({ M: 8 }, entries.slice(0, 200));
+    const graph = JSON.parse(JSON.stringify(index.serialize(entries.slice(0, 200))));
+
+    const restored = createHnswIndex({ M: 8 }, entries.slice(0, 200), graph);
+    expect(restored.serialize(entries.slice(0, 200))).toEqual(graph);
+    expect(restored.search(queries[0], 5)).toEqual(index.search(queries[0], 5));
+
+    // Later inserts link in as if the graph had been built in this process
+    index.add(entries.slice(200, 250));
+    restored.add(entries.slice(200, 250));
+    expect(restored.serialize(entries.slice(0, 250))).toEqual(
+      index.serialize(entries.slice(0, 250))
+    );
+
+    // Removals reconnect the same nodes in both graphs
+    index.remove(entries.slice(0, 50));
+    restored.remove(entries.slice(0, 50));
+    expect(restored.serialize(entries.slice(50, 250))).toEqual(
+      index.serialize(entries.slice(50, 250))
+    );
+  });
+
+  it('should reject invalid parameters and mixed dimensions', () => {
+    expect(() => createHnswIndex({ M: 1 })).toThrow(/M/);
+    expect(() => createHnswIndex({ efSearch: 0 })).toThrow(/efSearch/);
+    const index = createHnswIndex({}, entries.slice(0, 3));
+    expect(() => index.search([1, 0], 1)).toThrow(/same length/);
+  });
+});
+
+describe('createFileAdapter with HNSW', () => {
+  let tempDir: string;
+  let indexPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    indexPath = path.join(tempDir, 'index.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save the graph with the entries and load it in another process', async () => {
+    const subset = randomEntries(300, 8, 3);
+    const db = createFileAdapter(indexPath, { hnsw: { M: 6 } });
+    await db.upsert(subset);
+    await db.delete!('doc-0');
+    const expected = await db.search(subset[11].embedding, 5);
+
+    const saved = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+    expect(saved.hnsw.nodes).toHaveLength(saved.entries.length);
+    expect(saved.hnsw.options.M).toBe(6);
+
+    const reopened = createFileAdapter(indexPath, { hnsw: { M: 6 } });
+    expect(await reopened.search(subset[11].embedding, 5)).toEqual(expected);
+
+    // Other parameters rebuild the graph; exact search ignores it
+    const rebuilt = createFileAdapter(indexPath, { hnsw: { M: 4 } });
+    expect((await rebuilt.search(subset[11].embedding, 1))[0].frameNumber).toBe(11);
+    const exact = createFileAdapter(indexPath);
+    expect((await exact.search(subset[11].embedding, 1))[0].frameNumber).toBe(11);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for keyword and hybrid search
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileAdapter, createInMemoryAdapter, createSimpleEmbedder } from '../src/adapters';
+import { createBm25Index, tokenize } from '../src/bm25';
+import { fuseRankings } from '../src/fusion';
+import { QRVideoStoreRetriever } from '../src/retriever';
+import { QRVideoStoreIndexEntry } from '../src/types';
+
+function entry(documentId: string, frameNumber: number, chunkText: string): QRVideoStoreIndexEntry {
+  return { chunkText, embedding: [1, 0], frameNumber, documentId };
+}
+
+const chunks = [
+  entry('guide', 0, 'Restart the server after changing the configuration file.'),
+  entry('guide', 1, 'Error E_CONN_RESET means the database closed the connection.'),
+  entry('guide', 2, 'The configuration file lists every server and its port.'),
+  entry('faq', 0, 'Invoices are sent by email at the end of each month.'),
+];
+
+describe('createBm25Index', () => {
+  it('should split text into lowercase terms of letters and digits', () => {
+    expect(tokenize('Error E_CONN_RESET, port 8080; Größe!')).toEqual([
+      'error',
+      'e',
+      'conn',
+      'reset',
+      'port',
+      '8080',
+      'größe',
+    ]);
+  });
+
+  it('should rank entries by keyword relevance', () => {
+    const index = createBm25Index(chunks);
+
+    const results = index.search('conn reset', 10);
+    expect(results.map(result => result.chunkText)).toEqual([chunks[1].chunkText]);
+    expect(results[0].similarity).toBeGreaterThan(0);
+
+    // Rarer terms weigh more than common ones
+    const ranked = index.search('server invoices', 10);
+    expect(ranked[0].documentId).toBe('faq');
+    expect(ranked).toHaveLength(3);
+    expect(index.search('server', 10, { documentId: 'faq' })).toEqual([]);
+    expect(index.search('unknown words', 10)).toEqual([]);
+  });
+
+  it('should forget removed entries', () => {
+    const index = createBm25Index(chunks);
+
+    index.remove([chunks[1]]);
+    expect(index.search('reset', 10)).toEqual([]);
+    index.add([chunks[1]]);
+    expect(index.search('reset', 10)).toHaveLength(1);
+    index.clear();
+    expect(index.search('server', 10)).toEqual([]);
+  });
+});
+
+describe('fuseRankings', () => {
+  const [a, b, c] = chunks;
+
+  it('should add reciprocal ranks across both rankings', () => {
+    const fused = fuseRankings([a, b], [b, c], 3);
+
+    expect(fused.map(hit => hit.frameNumber)).toEqual([1, 0, 2]);
+    expect(fused[0].similarity).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fuseRankings([a, b], [b, c], 3, { vectorWeight: 0 })[0].frameNumber).toBe(1);
+    expect(fuseRankings([a, b], [c], 1, { lexicalWeight: 3 })[0].frameNumber).toBe(2);
+  });
+
+  it('should add normalized scores with weights', () => {
+    const vector = [
+      { ...a, similarity: 0.9 },
+      { ...b, similarity: 0.5 },
+    ];
+    const lexical = [
+      { ...b, similarity: 7 },
+      { ...c, similarity: 1 },
+    ];
+
+    const fused = fuseRankings(vector, lexical, 3, {
+      fusion: 'weighted',
+      vectorWeight: 0.4,
+      lexicalWeight: 0.6,
+    });
+    expect(fused.map(hit => [hit.frameNumber, hit.similarity])).toEqual([
+      [1, 0.6],
+      [0, 0.4],
+      [2, 0],
+    ]);
+  });
+});
+
+describe('hybrid search', () => {
+  it('should rank exact keyword matches first', async () => {
+    const embedder = createSimpleEmbedder(16);
+    const entries = await Promise.all(
+      chunks.map(async chunk => ({ ...chunk, embedding: await embedder.embed(chunk.chunkText) }))
+    );
+    const retriever = new QRVideoStoreRetriever(createInMemoryAdapter(entries), embedder);
+
+    const matches = await retriever.retrieveChunksHybrid('E_CONN_RESET', 1, {
+      vectorWeight: 0.2,
+      lexicalWeight: 0.8,
+    });
+    expect(matches.map(match => match.chunkText)).toEqual([chunks[1].chunkText]);
+
+    const filtered = await retriever.retrieveChunksHybrid('E_CONN_RESET', 4, {
+      filter: { documentId: 'faq' },
+    });
+    expect(filtered.map(match => match.documentId)).toEqual(['faq']);
+  });
+
+  it('should reject databases without keyword search and invalid weights', async () => {
+    const embedder = createSimpleEmbedder(2);
+    const legacy = new QRVideoStoreRetriever(
+      { upsert: async () => undefined, search: async () => [] },
+      embedder
+    );
+    const retriever = new QRVideoStoreRetriever(createInMemoryAdapter(chunks), embedder);
+
+    await expect(legacy.retrieveChunksHybrid('server')).rejects.toThrow(/searchText/);
+    await expect(
+      retriever.retrieveChunksHybrid('server', 5, { vectorWeight: 0, lexicalWeight: 0 })
+    ).rejects.toThrow(/positive/);
+    await expect(retriever.retrieveChunksHybrid('server', 5, { vectorWeight: -1 })).rejects.toThrow(
+      /vectorWeight/
+    );
+  });
+
+  it('should rebuild the keyword index of a file adapter after loading', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    const indexPath = path.join(tempDir, 'index.json');
+    try {
+      await createFileAdapter(indexPath).upsert(chunks);
+
+      const db = createFileAdapter(indexPath);
+      expect((await db.searchText!('invoices', 5)).map(hit => hit.documentId)).toEqual(['faq']);
+      await db.delete!('faq');
+      expect(await db.searchText!('invoices', 5)).toEqual([]);
+      await db.replaceAll!([chunks[3]]);
+      expect(await db.searchText!('server', 5)).toEqual([]);
+      expect(await db.searchText!('invoices', 5)).toHaveLength(1);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for the embedded index manifest
+ */
+
+import { qrRoundTrip } from './helpers';
+import { encodeManifestFrames, decodeManifestPart, assembleManifest } from '../src/manifest';
+
+const manifest = {
+  embedder: { name: 'simple-hash', dimension: 3 },
+  chunks: Array.from({ length: 40 }, (_, i) => ({
+    documentId: 'guide',
+    chunkIndex: i,
+    frameOffset: i,
+    startPosition: i * 450,
+    endPosition: i * 450 + 500,
+    embedding: [Math.sin(i), Math.cos(i), 0.5],
+  })),
+};
+
+describe('embedded manifest', () => {
+  it('should split and reassemble a manifest across frames', () => {
+    const frames = encodeManifestFrames(manifest, 200);
+    expect(frames.length).toBeGreaterThan(1);
+    expect(frames.every(frame => frame.length <= 200)).toBe(true);
+
+    const parts = frames.map(frame => decodeManifestPart(frame)!).reverse();
+    const decoded = assembleManifest(parts);
+
+    expect(decoded.manifestFrames).toBe(frames.length);
+    expect(decoded.embedder).toEqual(manifest.embedder);
+    expect(decoded.chunks).toEqual(manifest.chunks);
+  });
+
+  it('should ignore frames that are not manifest frames', () => {
+    expect(decodeManifestPart(Buffer.from('plain chunk text'))).toBeNull();
+  });
+
+  it('should report missing manifest frames', () => {
+    const parts = encodeManifestFrames(manifest, 200).map(frame => decodeManifestPart(frame)!);
+    expect(() => assembleManifest(parts.slice(1))).toThrow(/Missing manifest frames: 0/);
+  });
+
+  it('should survive a round trip through a QR code', () => {
+    const [frame] = encodeManifestFrames({ embedder: manifest.embedder, chunks: [] }, 500);
+    const part = decodeManifestPart(qrRoundTrip(frame)!);
+    expect(assembleManifest([part!]).embedder).toEqual(manifest.embedder);
+  });
+});
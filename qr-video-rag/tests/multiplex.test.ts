@@ -0,0 +1,166 @@
+/**
+ * Tests for color-channel multiplexed frames
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ffmpegStatic from 'ffmpeg-static';
+import jsQR from 'jsqr';
+import { renderQrCodes, demultiplexPixels, FrameLayout } from '../src/qr';
+import { createFrameWriter, decodeRawFrames } from '../src/video';
+import { ColorMode } from '../src/types';
+
+const SIZE = 256;
+
+const PAYLOADS = ['red or luma plane', 'green or blue-difference', 'blue or red-difference'].map(
+  text => Buffer.from(text, 'utf8')
+);
+
+function layoutOf(colorMode: ColorMode): FrameLayout {
+  return { tileGrid: { columns: 1, rows: 1 }, colorMode };
+}
+
+/**
+ * Decode every color plane of RGBA pixels
+ */
+function decodePlanes(pixels: Uint8ClampedArray, colorMode: ColorMode): Array<Buffer | null> {
+  return demultiplexPixels(pixels, colorMode).map(plane => {
+    const qrCode = jsQR(plane, SIZE, SIZE);
+    return qrCode ? Buffer.from(qrCode.binaryData) : null;
+  });
+}
+
+/**
+ * Imitate an H.264 yuv420p round trip in memory
+ *
+ * Converts RGB24 to limited-range BT.601 YUV, averages chroma over 2x2
+ * blocks, adds deterministic noise to every plane as a stand-in for lossy
+ * quantization and converts back to RGBA.
+ */
+function simulateYuv420p(rgb: Buffer, noise: number): Uint8ClampedArray {
+  let seed = 12345;
+  const jitter = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return ((seed / 0x7fffffff) * 2 - 1) * noise;
+  };
+
+  const yPlane = new Float64Array(SIZE * SIZE);
+  const uPlane = new Float64Array(SIZE * SIZE);
+  const vPlane = new Float64Array(SIZE * SIZE);
+  for (let i = 0; i < SIZE * SIZE; i++) {
+    const [r, g, b] = [rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]];
+    yPlane[i] = 16 + (65.481 * r + 128.553 * g + 24.966 * b) / 255;
+    uPlane[i] = 128 + (-37.797 * r - 74.203 * g + 112 * b) / 255;
+    vPlane[i] = 128 + (112 * r - 93.786 * g - 18.214 * b) / 255;
+  }
+
+  const pixels = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y += 2) {
+    for (let x = 0; x < SIZE; x += 2) {
+      const block = [y * SIZE + x, y * SIZE + x + 1, (y + 1) * SIZE + x, (y + 1) * SIZE + x + 1];
+      const u = block.reduce((sum, i) => sum + uPlane[i], 0) / 4 + jitter() - 128;
+      const v = block.reduce((sum, i) => sum + vPlane[i], 0) / 4 + jitter() - 128;
+      for (const i of block) {
+        const luma = 1.164 * (yPlane[i] + jitter() - 16);
+        pixels[i * 4] = luma + 1.596 * v;
+        pixels[i * 4 + 1] = luma - 0.392 * u - 0.813 * v;
+        pixels[i * 4 + 2] = luma + 2.017 * u;
+        pixels[i * 4 + 3] = 255;
+      }
+    }
+  }
+  return pixels;
+}
+
+describe('Color multiplexing', () => {
+  it.each(['rgb', 'yuv'] as const)('should store three symbols per frame in %s mode', mode => {
+    const frame = renderQrCodes(PAYLOADS, SIZE, SIZE, layoutOf(mode), 'M');
+    const pixels = new Uint8ClampedArray(SIZE * SIZE * 4);
+    for (let i = 0; i < SIZE * SIZE; i++) {
+      pixels.set(frame.subarray(i * 3, i * 3 + 3), i * 4);
+      pixels[i * 4 + 3] = 255;
+    }
+
+    expect(frame.length).toBe(SIZE * SIZE * 3);
+    expect(decodePlanes(pixels, mode)).toEqual(PAYLOADS);
+  });
+
+  it.each([
+    ['rgb', 0],
+    ['rgb', 12],
+    ['yuv', 0],
+    ['yuv', 12],
+    ['yuv', 24],
+  ] as const)('should survive yuv420p subsampling in %s mode with noise %d', (mode, noise) => {
+    const frame = renderQrCodes(PAYLOADS, SIZE, SIZE, layoutOf(mode), 'M');
+    expect(decodePlanes(simulateYuv420p(frame, noise), mode)).toEqual(PAYLOADS);
+  });
+
+  it('should leave unused planes blank', () => {
+    const frame = renderQrCodes(PAYLOADS.slice(0, 1), SIZE, SIZE, layoutOf('yuv'), 'M');
+    const pixels = simulateYuv420p(frame, 0);
+    const [, green, blue] = demultiplexPixels(pixels, 'yuv');
+
+    expect(green.every(value => value === 255)).toBe(true);
+    expect(blue.every(value => value === 255)).toBe(true);
+  });
+});
+
+// Encoding through FFmpeg needs the ffmpeg-static binary, which is not downloaded everywhere
+const describeWithFfmpeg = ffmpegStatic && fs.existsSync(ffmpegStatic) ? describe : describe.skip;
+
+describeWithFfmpeg('Color multiplexing through FFmpeg', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['rgb', 'libx264', 18],
+    ['rgb', 'libx264', 28],
+    ['yuv', 'libx264', 18],
+    ['yuv', 'libx264', 28],
+    ['yuv', 'libx264', 35],
+    ['yuv', 'libx265', 28],
+    ['yuv', 'libvpx-vp9', 35],
+  ] as const)(
+    'should decode %s frames encoded with %s at CRF %d',
+    async (mode, codec, crf) => {
+      const outputPath = path.join(tempDir, `${mode}-${codec}-${crf}.mkv`);
+      const writer = createFrameWriter(outputPath, 'rgb', {
+        width: SIZE,
+        height: SIZE,
+        fps: 1,
+        codec,
+        ffmpegOptions: [`-crf ${crf}`, ...(codec === 'libvpx-vp9' ? ['-b:v 0'] : [])],
+      });
+      const frame = renderQrCodes(PAYLOADS, SIZE, SIZE, layoutOf(mode), 'M');
+      await writer.write(frame);
+      await writer.write(frame);
+      await writer.end();
+
+      const decoded: Array<Array<Buffer | null>> = [];
+      const info = {
+        width: SIZE,
+        height: SIZE,
+        fps: 1,
+        timeBase: 1 / 1000,
+        startTime: 0,
+        frameCount: 2,
+        durationSeconds: 2,
+      };
+      await decodeRawFrames(outputPath, info, undefined, (_frameNumber, pixels) => {
+        decoded.push(decodePlanes(pixels, mode));
+      });
+
+      expect(decoded).toEqual([PAYLOADS, PAYLOADS]);
+    },
+    60000
+  );
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for Reed-Solomon parity frames
+ */
+
+import {
+  encodeParityPayloads,
+  readParityPayload,
+  recoverDataPayloads,
+  assertValidParity,
+  PARITY_HEADER_SIZE,
+} from '../src/parity';
+import {
+  getQrSlot,
+  getQrPosition,
+  getParityGroup,
+  isParityFrame,
+  getDataFrameCount,
+  FrameLayout,
+} from '../src/qr';
+import { encodeChunkFrames, readFrame } from '../src/frames';
+import { FrameDecodeError } from '../src/errors';
+import { FrameParity } from '../src/types';
+
+const PARITY: FrameParity = { dataFrames: 4, parityFrames: 2 };
+
+const DATA = ['first chunk', 'the second, longer chunk', 'third', 'fourth chunk'].map(
+  (text, chunkIndex) =>
+    encodeChunkFrames(text, 100, { documentId: 'doc', chunkIndex, codec: 'none' })[0]
+);
+
+describe('Frame parity', () => {
+  it('should prefix parity payloads with a checksummed header', () => {
+    const payloads = encodeParityPayloads(DATA, PARITY);
+    const longest = Math.max(...DATA.map(payload => payload.length));
+
+    expect(payloads).toHaveLength(2);
+    expect(payloads[1]).toHaveLength(PARITY_HEADER_SIZE + longest);
+    expect(readParityPayload(payloads[1])).toMatchObject({
+      groupSize: 4,
+      parityCount: 2,
+      parityIndex: 1,
+      dataCount: 4,
+    });
+
+    payloads[1][PARITY_HEADER_SIZE] ^= 0xff;
+    expect(() => readParityPayload(payloads[1])).toThrow(FrameDecodeError);
+  });
+
+  it.each([[[0]], [[3]], [[1, 2]], [[0, 3]]])(
+    'should rebuild data payloads %j from the rest of the group',
+    missing => {
+      const parity = encodeParityPayloads(DATA, PARITY);
+      const damaged = DATA.map((payload, i) => (missing.includes(i) ? undefined : payload));
+      const recovered = recoverDataPayloads(damaged, parity, PARITY);
+
+      expect(recovered).not.toBeNull();
+      recovered!.forEach((payload, i) => expect(readFrame(payload!)).toEqual(readFrame(DATA[i])));
+    }
+  );
+
+  it('should use whichever parity payloads survived', () => {
+    const parity = encodeParityPayloads(DATA, PARITY);
+    const recovered = recoverDataPayloads(
+      [DATA[0], undefined, DATA[2], DATA[3]],
+      [undefined, parity[1]],
+      PARITY
+    );
+
+    expect(readFrame(recovered![1]!)).toEqual(readFrame(DATA[1]));
+  });
+
+  it('should give up when more payloads are missing than there are parity payloads', () => {
+    const parity = encodeParityPayloads(DATA, PARITY);
+
+    expect(recoverDataPayloads([undefined, undefined, undefined, DATA[3]], parity, PARITY)).toBe(
+      null
+    );
+    expect(recoverDataPayloads([undefined, DATA[1], DATA[2], DATA[3]], [], PARITY)).toBe(null);
+  });
+
+  it('should cover partial groups', () => {
+    const parity = encodeParityPayloads(DATA.slice(0, 2), PARITY);
+    const recovered = recoverDataPayloads([undefined, DATA[1]], parity, PARITY);
+
+    expect(readParityPayload(parity[0]).dataCount).toBe(2);
+    expect(recovered).toHaveLength(2);
+    expect(readFrame(recovered![0]!)).toEqual(readFrame(DATA[0]));
+  });
+
+  it('should reject groups that do not fit GF(256)', () => {
+    expect(() => assertValidParity({ dataFrames: 250, parityFrames: 6 })).toThrow(/at most 255/);
+    expect(() => assertValidParity({ dataFrames: 4, parityFrames: 0 })).toThrow();
+    expect(() => assertValidParity(PARITY)).not.toThrow();
+  });
+});
+
+describe('Parity frame layout', () => {
+  const layout: FrameLayout & { parity: FrameParity } = {
+    tileGrid: { columns: 2, rows: 1 },
+    colorMode: 'mono',
+    parity: { dataFrames: 3, parityFrames: 2 },
+    dataStart: 2,
+  };
+
+  it('should number QR codes across parity frames', () => {
+    // Frames 0-1 hold the manifest, 2-4 data, 5-6 parity, 7-9 data, 10-11 parity
+    expect(getQrPosition(7, layout)).toEqual({ frameNumber: 3, tileIndex: 1, channel: undefined });
+    expect(getQrPosition(10, layout)).toEqual({ frameNumber: 7, tileIndex: 0, channel: undefined });
+    expect(getQrSlot({ frameNumber: 8, tileIndex: 1 }, layout)).toBe(13);
+    expect(() => getQrSlot({ frameNumber: 6 }, layout)).toThrow(/parity frame/);
+  });
+
+  it('should place the parity frames of the last group after its data frames', () => {
+    // 11 frames: manifest 0-1, data 2-4, parity 5-6, data 7-8, parity 9-10
+    expect(getParityGroup(3, layout, 13)).toEqual({ dataFrames: [2, 3, 4], parityFrames: [5, 6] });
+    expect(getParityGroup(8, layout, 11)).toEqual({ dataFrames: [7, 8], parityFrames: [9, 10] });
+    expect(isParityFrame(9, layout, 11)).toBe(true);
+    expect(isParityFrame(1, layout, 11)).toBe(false);
+    expect(getDataFrameCount(11, layout)).toBe(7);
+    expect(getDataFrameCount(7, layout)).toBe(5);
+  });
+});
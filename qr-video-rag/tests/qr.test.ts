@@ -0,0 +1,74 @@
+/**
+ * Tests for QR capacity helpers
+ */
+
+import jsQR from 'jsqr';
+import { getQrByteCapacity, renderQrTiles, cropTile } from '../src/qr';
+import { QRVideoStoreEncoder } from '../src/encoder';
+import { createInMemoryAdapter, createSimpleEmbedder } from '../src/adapters';
+
+describe('QR capacity', () => {
+  it('should look up byte capacity by error correction level and version limit', () => {
+    expect(getQrByteCapacity('L')).toBe(2953);
+    expect(getQrByteCapacity('M', 40)).toBe(2331);
+    expect(getQrByteCapacity('H', 10)).toBe(119);
+    expect(() => getQrByteCapacity('M', 41)).toThrow(/between 1 and 40/);
+  });
+
+  it('should derive frame capacity from encoder config', () => {
+    const encoder = new QRVideoStoreEncoder(createInMemoryAdapter(), createSimpleEmbedder(8), {
+      qrErrorCorrectionLevel: 'H',
+      qrMaxVersion: 20,
+    });
+    expect(encoder.getFrameCapacity()).toBe(382);
+  });
+
+  it('should limit frame capacity to the QR versions that fit a tile', () => {
+    // 32x32 pixel tiles hold version 3 (29 modules plus the quiet zone)
+    const grid = { columns: 8, rows: 8 };
+    const encoder = new QRVideoStoreEncoder(createInMemoryAdapter(), createSimpleEmbedder(8), {
+      tileGrid: grid,
+    });
+    expect(encoder.getFrameCapacity()).toBe(getQrByteCapacity('M', 3));
+
+    const payload = Buffer.alloc(encoder.getFrameCapacity(), 0x61);
+    expect(() => renderQrTiles([payload], 256, 256, grid, 'M')).not.toThrow();
+    expect(() => renderQrTiles([Buffer.concat([payload, payload])], 256, 256, grid, 'M')).toThrow(
+      /too small/
+    );
+
+    // Color planes need two pixels per module
+    const rgb = new QRVideoStoreEncoder(createInMemoryAdapter(), createSimpleEmbedder(8), {
+      tileGrid: { columns: 4, rows: 4 },
+      colorMode: 'rgb',
+    });
+    expect(rgb.getFrameCapacity()).toBe(getQrByteCapacity('M', 3));
+    const tooSmall = new QRVideoStoreEncoder(createInMemoryAdapter(), createSimpleEmbedder(8), {
+      tileGrid: { columns: 16, rows: 16 },
+    });
+    expect(() => tooSmall.getFrameCapacity()).toThrow(/too small/);
+  });
+
+  it('should render and crop each tile of a grid independently', () => {
+    const grid = { columns: 2, rows: 2 };
+    const payloads = ['north-west', 'north-east', 'south-west'].map(text => Buffer.from(text));
+    const gray = renderQrTiles(payloads, 256, 256, grid, 'M');
+    const rgba = new Uint8ClampedArray(256 * 256 * 4);
+    gray.forEach((value, i) => {
+      rgba.fill(value, i * 4, i * 4 + 3);
+      rgba[i * 4 + 3] = 255;
+    });
+
+    payloads.forEach((payload, tileIndex) => {
+      const tile = cropTile(rgba, 256, 256, grid, tileIndex);
+      expect(tile).toMatchObject({ width: 128, height: 128 });
+      expect(Buffer.from(jsQR(tile.pixels, tile.width, tile.height)!.binaryData)).toEqual(payload);
+    });
+
+    const empty = cropTile(rgba, 256, 256, grid, 3);
+    expect(empty.pixels.every(value => value === 255)).toBe(true);
+    expect(() => renderQrTiles(payloads, 64, 64, { columns: 4, rows: 4 }, 'M')).toThrow(
+      /too small/
+    );
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tests for quantized embedding storage
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileAdapter, createInMemoryAdapter } from '../src/adapters';
+import { createEmbeddingStore } from '../src/quantization';
+import { QRVideoStoreIndexEntry, VectorDatabase } from '../src/types';
+
+/**
+ * Reproducible random entries spread over a few documents
+ */
+function randomEntries(count: number, dimensions: number, seed: number): QRVideoStoreIndexEntry[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: count }, (_, i) => ({
+    chunkText: `chunk ${i}`,
+    embedding: Array.from({ length: dimensions }, () => random() * 2 - 1),
+    frameNumber: i,
+    documentId: `doc-${i % 5}`,
+  }));
+}
+
+/**
+ * Share of the exact top 10 frames that a database found
+ */
+async function measureRecall(db: VectorDatabase, exact: VectorDatabase, queries: number[][]) {
+  let found = 0;
+  for (const query of queries) {
+    const expected = new Set((await exact.search(query, 10)).map(entry => entry.frameNumber));
+    found += (await db.search(query, 10)).filter(entry => expected.has(entry.frameNumber)).length;
+  }
+  return found / (queries.length * 10);
+}
+
+describe('quantized in-memory adapter', () => {
+  const entries = randomEntries(500, 64, 11);
+  const queries = randomEntries(20, 64, 5).map(entry => entry.embedding);
+  const exact = createInMemoryAdapter(entries);
+
+  it('should keep the ranking close to exact search', async () => {
+    const float32 = createInMemoryAdapter(entries, { quantization: { type: 'float32' } });
+    const int8 = createInMemoryAdapter(entries, { quantization: { type: 'int8' } });
+    const binary = createInMemoryAdapter(entries, { quantization: { type: 'binary' } });
+
+    expect(await measureRecall(float32, exact, queries)).toBe(1);
+    expect(await measureRecall(int8, exact, queries)).toBeGreaterThanOrEqual(0.9);
+    expect(await measureRecall(binary, exact, queries)).toBeGreaterThanOrEqual(0.3);
+
+    const [best] = await binary.search(entries[42].embedding, 1);
+    expect(best.frameNumber).toBe(42);
+    expect(best.similarity).toBe(1);
+  });
+
+  it('should restore exact similarities when re-scoring', async () => {
+    const rescored = createInMemoryAdapter(entries, {
+      quantization: { type: 'int8', rescore: true },
+    });
+    expect(await measureRecall(rescored, exact, queries)).toBe(1);
+    expect(await rescored.search(queries[0], 3)).toEqual(await exact.search(queries[0], 3));
+
+    // More candidates recover more of the neighbours binary codes miss
+    const binary = createInMemoryAdapter(entries, { quantization: { type: 'binary' } });
+    const binaryRescored = createInMemoryAdapter(entries, {
+      quantization: { type: 'binary', rescore: true, oversample: 10 },
+    });
+    expect(await measureRecall(binaryRescored, exact, queries)).toBeGreaterThan(
+      (await measureRecall(binary, exact, queries)) + 0.3
+    );
+  });
+
+  it('should return dequantized embeddings and apply filters', async () => {
+    const int8 = createInMemoryAdapter([], { quantization: { type: 'int8' } });
+    await int8.upsert(entries.slice(0, 20));
+
+    const listed = await int8.list!();
+    expect(listed).toHaveLength(20);
+    listed[3].embedding.forEach((value, i) => {
+      expect(value).toBeCloseTo(entries[3].embedding[i], 1);
+    });
+
+    const results = await int8.search(queries[0], 5, { documentId: 'doc-2' });
+    expect(results).toHaveLength(4);
+    expect(results.every(result => result.documentId === 'doc-2')).toBe(true);
+    expect(results[0].embedding).toHaveLength(64);
+    await expect(int8.search([1, 0], 1)).rejects.toThrow(/same length/);
+  });
+
+  it('should report the memory taken by each format', async () => {
+    const sizes: Record<string, number> = {};
+    for (const type of ['float64', 'float32', 'int8', 'binary'] as const) {
+      const db = createInMemoryAdapter(entries, { quantization: { type } });
+      const stats = await db.getStats!();
+      expect(stats).toMatchObject({
+        entryCount: 500,
+        dimensions: 64,
+        quantization: type,
+        unquantizedBytes: 500 * 64 * 8,
+      });
+      sizes[type] = stats.embeddingMemoryBytes;
+    }
+
+    expect(sizes).toEqual({
+      float64: 500 * 64 * 8,
+      float32: 500 * 64 * 4,
+      int8: 500 * (64 + 4),
+      binary: 500 * (8 + 4),
+    });
+    const rescored = createInMemoryAdapter(entries, {
+      quantization: { type: 'int8', rescore: true },
+    });
+    expect((await rescored.getStats!()).embeddingMemoryBytes).toBe(500 * (64 + 4 + 64 * 8));
+  });
+
+  it('should reject HNSW with quantization and invalid options', () => {
+    expect(() => createInMemoryAdapter([], { hnsw: {}, quantization: { type: 'int8' } })).toThrow(
+      /HNSW/
+    );
+    expect(() => createEmbeddingStore({ type: 'int4' as 'int8' })).toThrow(/int4/);
+    expect(() => createEmbeddingStore({ type: 'int8', oversample: 0 })).toThrow(/oversample/);
+  });
+});
+
+describe('quantized file adapter', () => {
+  let tempDir: string;
+  let indexPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    indexPath = path.join(tempDir, 'index.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save codes and keep the format when reopened', async () => {
+    const entries = randomEntries(200, 32, 3);
+    const db = createFileAdapter(indexPath, { quantization: { type: 'int8' } });
+    await db.upsert(entries);
+    await db.delete!('doc-0');
+    const expected = await db.search(entries[11].embedding, 5);
+
+    const saved = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+    expect(saved.version).toBe(2);
+    expect(saved.quantization.type).toBe('int8');
+    expect(saved.embeddings).toHaveLength(160);
+    expect(saved.entries[0].embedding).toEqual([]);
+
+    const reopened = createFileAdapter(indexPath);
+    expect(await reopened.search(entries[11].embedding, 5)).toEqual(expected);
+    const stats = await reopened.getStats!();
+    expect(stats.quantization).toBe('int8');
+    expect(stats.diskBytes).toBe(fs.statSync(indexPath).size);
+
+    // Another format re-encodes the saved codes
+    const binary = createFileAdapter(indexPath, { quantization: { type: 'binary' } });
+    expect((await binary.search(entries[11].embedding, 1))[0].frameNumber).toBe(11);
+  });
+
+  it('should take less disk space than float64 embeddings', async () => {
+    const entries = randomEntries(100, 128, 4);
+    const float64Path = path.join(tempDir, 'float64.json');
+    await createFileAdapter(float64Path).upsert(entries);
+    await createFileAdapter(indexPath, { quantization: { type: 'binary' } }).upsert(entries);
+
+    const float64 = await createFileAdapter(float64Path).getStats!();
+    const binary = await createFileAdapter(indexPath).getStats!();
+    expect(JSON.parse(fs.readFileSync(float64Path, 'utf8')).version).toBe(1);
+    expect(binary.diskBytes! * 5).toBeLessThan(float64.diskBytes!);
+
+    // A float64 file is quantized on load when requested
+    const int8 = createFileAdapter(float64Path, { quantization: { type: 'int8' } });
+    expect((await int8.getStats!()).embeddingMemoryBytes).toBe(100 * (128 + 4));
+  });
+});
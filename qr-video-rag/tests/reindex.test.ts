@@ -0,0 +1,174 @@
+/**
+ * Tests for rebuilding an index from video frames
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { reindexVideo } from '../src/reindex';
+import { encodeManifestFrames } from '../src/manifest';
+import { encodeChunkFrames, hashDocumentId } from '../src/frames';
+import { createInMemoryAdapter, createSimpleEmbedder } from '../src/adapters';
+import { decodeRawFrames, probeVideo } from '../src/video';
+import { renderQrPixels, padPixels } from './helpers';
+
+jest.mock('../src/video');
+
+const FRAME_SIZE = 480;
+
+/**
+ * Make the mocked video module serve the given frame payloads (null = unreadable frame)
+ */
+function mockVideoFrames(frames: Array<Buffer | string | null>): void {
+  jest.mocked(probeVideo).mockResolvedValue({
+    width: FRAME_SIZE,
+    height: FRAME_SIZE,
+    fps: 1,
+    timeBase: 1 / 16384,
+    startTime: 0,
+    frameCount: frames.length,
+    durationSeconds: frames.length,
+  });
+  jest.mocked(decodeRawFrames).mockImplementation(async (_path, _info, _frames, onFrame) => {
+    frames.forEach((payload, frameNumber) => {
+      const pixels = payload
+        ? padPixels(renderQrPixels(payload), FRAME_SIZE)
+        : new Uint8ClampedArray(FRAME_SIZE * FRAME_SIZE * 4).fill(255);
+      onFrame(frameNumber, pixels);
+    });
+  });
+}
+
+describe('reindexVideo', () => {
+  let tempDir: string;
+  let videoPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+    videoPath = path.join(tempDir, 'guide.mp4');
+    fs.writeFileSync(videoPath, '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should rebuild entries with frame numbers and report unreadable frames', async () => {
+    mockVideoFrames(['first chunk', null, 'third chunk']);
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+
+    const report = await reindexVideo(videoPath, embedder, database);
+
+    expect(report).toEqual({
+      totalFrames: 3,
+      manifestFrames: 0,
+      indexedChunks: 2,
+      failedFrames: [1],
+      recoveredFrames: [],
+    });
+
+    const results = await database.search(await embedder.embed('third chunk'), 1);
+    expect(results[0]).toMatchObject({
+      chunkText: 'third chunk',
+      frameNumber: 2,
+      documentId: 'guide',
+    });
+  });
+
+  it('should restore document IDs from an embedded manifest', async () => {
+    const manifest = encodeManifestFrames(
+      {
+        embedder: { dimension: 16 },
+        chunks: [
+          { documentId: 'api', chunkIndex: 0, frameOffset: 0, metadata: { version: '2' } },
+          { documentId: 'api', chunkIndex: 1, frameOffset: 1, metadata: { version: '2' } },
+        ],
+      },
+      300
+    );
+    mockVideoFrames([...manifest, 'alpha', 'beta']);
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+
+    const report = await reindexVideo(videoPath, embedder, database);
+
+    expect(report.manifestFrames).toBe(manifest.length);
+    expect(report.indexedChunks).toBe(2);
+    const [match] = await database.search(await embedder.embed('beta'), 1);
+    expect(match).toMatchObject({
+      documentId: 'api',
+      frameNumber: manifest.length + 1,
+      metadata: { version: '2' },
+    });
+  });
+
+  it('should decompress frames with the dictionary from the embedded manifest', async () => {
+    const dictionary = Buffer.from('compressed payload dictionary ', 'utf8');
+    const manifest = encodeManifestFrames(
+      {
+        embedder: { dimension: 16 },
+        payloadCodec: 'deflate',
+        payloadDictionary: dictionary.toString('base64'),
+        chunks: [{ documentId: 'api', chunkIndex: 0, frameOffset: 0 }],
+      },
+      300
+    );
+    const frames = encodeChunkFrames('compressed payload dictionary text', 300, {
+      documentId: 'api',
+      chunkIndex: 0,
+      codec: 'deflate',
+      dictionary,
+    });
+    mockVideoFrames([...manifest, ...frames]);
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+
+    const report = await reindexVideo(videoPath, embedder, database);
+
+    expect(report.failedFrames).toEqual([]);
+    const [match] = await database.search(await embedder.embed('compressed'), 1);
+    expect(match.chunkText).toBe('compressed payload dictionary text');
+  });
+
+  it('should group multi-frame chunks by their frame headers without a manifest', async () => {
+    const text = 'A chunk long enough to need several frames. '.repeat(4);
+    const frames = encodeChunkFrames(text, 60, { documentId: 'guide', chunkIndex: 0, codec: 'none' });
+    mockVideoFrames([...frames, 'legacy chunk']);
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+
+    const report = await reindexVideo(videoPath, embedder, database);
+
+    expect(report.indexedChunks).toBe(2);
+    const [match] = await database.search(await embedder.embed(text), 1);
+    expect(match).toMatchObject({ chunkText: text, frameNumber: 0, frameCount: frames.length });
+  });
+
+  it('should keep the documents of a video without a manifest apart by header hash', async () => {
+    const frameOf = (documentId: string, chunkIndex: number, text: string) =>
+      encodeChunkFrames(text, 300, { documentId, chunkIndex, codec: 'none' })[0];
+    // Two appended documents whose first chunks share their index and text
+    mockVideoFrames([
+      frameOf('handbook', 0, 'Contents'),
+      frameOf('handbook', 1, 'Handbook chapter'),
+      frameOf('faq', 0, 'Contents'),
+    ]);
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+
+    const report = await reindexVideo(videoPath, embedder, database, { documentId: 'handbook' });
+
+    expect(report.indexedChunks).toBe(3);
+    const entries = await database.list!();
+    expect(entries).toHaveLength(3);
+    const faqId = `handbook#${hashDocumentId('faq').toString(16).padStart(8, '0')}`;
+    expect(entries.map(({ documentId, frameNumber }) => ({ documentId, frameNumber }))).toEqual(
+      expect.arrayContaining([
+        { documentId: 'handbook', frameNumber: 0 },
+        { documentId: 'handbook', frameNumber: 1 },
+        { documentId: faqId, frameNumber: 2 },
+      ])
+    );
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Tests for video storage backends
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import {
+  createInMemoryAdapter,
+  createInMemoryStorageBackend,
+  createLocalStorageBackend,
+  createS3StorageBackend,
+  createSimpleEmbedder,
+} from '../src/adapters';
+import { QRVideoStoreEncoder } from '../src/encoder';
+import { QRVideoStoreRetriever } from '../src/retriever';
+import { readShardLayout } from '../src/shards';
+import { S3StorageOptions, VideoStorageBackend } from '../src/types';
+import { mockVideoFiles } from './helpers';
+
+jest.mock('../src/video');
+
+/**
+ * Exercise every method of a backend with a video larger than one read
+ */
+async function expectRoundTrip(storage: VideoStorageBackend): Promise<void> {
+  const video = crypto.randomBytes(4096);
+
+  expect(await storage.exists('videos/kb.mp4')).toBe(false);
+  await storage.save('./videos/kb.mp4', video);
+  expect(await storage.exists('videos/kb.mp4')).toBe(true);
+  expect(await storage.load('videos/kb.mp4')).toEqual(video);
+  expect(await storage.loadRange!('videos/kb.mp4', 100, 1100)).toEqual(video.subarray(100, 1100));
+  expect(await storage.size!('videos/kb.mp4')).toBe(video.length);
+
+  await storage.delete!('videos/kb.mp4');
+  expect(await storage.exists('videos/kb.mp4')).toBe(false);
+  await expect(storage.load('videos/kb.mp4')).rejects.toThrow();
+}
+
+/**
+ * Check the Signature Version 4 of a request to the stand-in
+ *
+ * Rebuilds the canonical request, string to sign and signing key from the
+ * request as received and compares the result with the signature sent, as
+ * S3 does.
+ */
+function verifySignature(
+  req: http.IncomingMessage,
+  body: Buffer,
+  credentials: { accessKeyId: string; secretAccessKey: string }
+): boolean {
+  const match =
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([a-z0-9;-]+), Signature=([0-9a-f]{64})$/.exec(
+      req.headers.authorization ?? ''
+    );
+  if (!match) {
+    return false;
+  }
+  const [, accessKeyId, date, region, signedHeaders, signature] = match;
+  const amzDate = String(req.headers['x-amz-date'] ?? '');
+  const payloadHash = crypto.createHash('sha256').update(body).digest('hex');
+  if (
+    accessKeyId !== credentials.accessKeyId ||
+    !amzDate.startsWith(date) ||
+    req.headers['x-amz-content-sha256'] !== payloadHash
+  ) {
+    return false;
+  }
+
+  const names = signedHeaders.split(';');
+  const canonicalRequest = [
+    req.method,
+    req.url,
+    '',
+    ...names.map(name => `${name}:${String(req.headers[name] ?? '').trim()}`),
+    '',
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  const scope = `${date}/${region}/s3/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  let signingKey: Buffer | string = `AWS4${credentials.secretAccessKey}`;
+  for (const part of [date, region, 's3', 'aws4_request']) {
+    signingKey = crypto.createHmac('sha256', signingKey).update(part).digest();
+  }
+  const expected = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  return names.includes('host') && expected === signature;
+}
+
+/**
+ * Start a minimal S3-compatible server standing in for MinIO
+ *
+ * Objects are kept in memory and requests whose Signature Version 4 does
+ * not verify against the given credentials are rejected with 403.
+ */
+async function startS3StandIn(credentials: {
+  accessKeyId: string;
+  secretAccessKey: string;
+}): Promise<{ endpoint: string; objects: Map<string, Buffer>; close: () => Promise<void> }> {
+  const objects = new Map<string, Buffer>();
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      if (!verifySignature(req, body, credentials)) {
+        res.writeHead(403).end('SignatureDoesNotMatch');
+        return;
+      }
+
+      const key = decodeURIComponent(req.url!);
+      const object = objects.get(key);
+      if (req.method === 'PUT') {
+        objects.set(key, body);
+        res.writeHead(200).end();
+      } else if (!object) {
+        res.writeHead(404).end();
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else if (req.method === 'HEAD') {
+        res.writeHead(200, { 'content-length': object.length }).end();
+      } else {
+        const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '');
+        if (range) {
+          const bytes = object.subarray(Number(range[1]), Number(range[2]) + 1);
+          res.writeHead(206, { 'content-length': bytes.length }).end(bytes);
+        } else {
+          res.writeHead(200, { 'content-length': object.length }).end(object);
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+describe('storage backends', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qr-video-rag-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store videos under the root directory of the local backend', async () => {
+    await expectRoundTrip(createLocalStorageBackend(tempDir));
+
+    await createLocalStorageBackend(tempDir).save('a/b.mp4', Buffer.from('video'));
+    expect(fs.readFileSync(path.join(tempDir, 'a', 'b.mp4'), 'utf8')).toBe('video');
+    expect(fs.readdirSync(path.join(tempDir, 'a'))).toEqual(['b.mp4']);
+  });
+
+  it('should keep videos in memory', async () => {
+    await expectRoundTrip(createInMemoryStorageBackend());
+  });
+
+  it('should sign requests to an S3-compatible service', async () => {
+    // Set QR_VIDEO_RAG_S3_ENDPOINT etc. to run against a real MinIO instead of the stand-in
+    const env = process.env;
+    const standIn = env.QR_VIDEO_RAG_S3_ENDPOINT
+      ? null
+      : await startS3StandIn({ accessKeyId: 'minioadmin', secretAccessKey: 'minioadmin' });
+    const options: S3StorageOptions = {
+      endpoint: env.QR_VIDEO_RAG_S3_ENDPOINT ?? standIn!.endpoint,
+      bucket: env.QR_VIDEO_RAG_S3_BUCKET ?? 'knowledge',
+      accessKeyId: env.QR_VIDEO_RAG_S3_ACCESS_KEY_ID ?? 'minioadmin',
+      secretAccessKey: env.QR_VIDEO_RAG_S3_SECRET_ACCESS_KEY ?? 'minioadmin',
+      prefix: `test-${Date.now()}/`,
+    };
+
+    try {
+      await expectRoundTrip(createS3StorageBackend(options));
+
+      if (standIn) {
+        await createS3StorageBackend(options).save('videos/my kb.mp4', Buffer.from('video'));
+        expect(standIn.objects.get(`/knowledge/${options.prefix}videos/my kb.mp4`)).toEqual(
+          Buffer.from('video')
+        );
+        const wrongKey = createS3StorageBackend({ ...options, accessKeyId: 'someone-else' });
+        await expect(wrongKey.exists('videos/my kb.mp4')).rejects.toThrow(/403/);
+        const wrongSecret = createS3StorageBackend({ ...options, secretAccessKey: 'guessed' });
+        await expect(wrongSecret.exists('videos/my kb.mp4')).rejects.toThrow(/403/);
+      }
+    } finally {
+      await standIn?.close();
+    }
+  });
+});
+
+describe('encoding and searching through a storage backend', () => {
+  const config = { chunkSize: 40, chunkOverlap: 0, qrMaxVersion: 5 };
+  const text = 'Videos live in object storage instead of on local disk. '.repeat(3);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockVideoFiles();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should save finished videos to the backend and search them from it', async () => {
+    const storage = createInMemoryStorageBackend();
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, { ...config, storage });
+    const save = jest.spyOn(storage, 'save');
+
+    await encoder.addDocument('docs', text, 'videos/kb.mp4');
+    await encoder.appendDocument('videos/kb.mp4', 'more', text);
+
+    expect(save.mock.calls.map(([videoPath]) => videoPath)).toEqual([
+      path.join('videos', 'kb.mp4'),
+      path.join('videos', 'kb.mp4'),
+    ]);
+    expect(fs.existsSync('videos')).toBe(false);
+
+    const retriever = new QRVideoStoreRetriever(database, embedder, { storage });
+    const results = await retriever.search(text, 'videos/kb.mp4', 100);
+    const chunkTexts = encoder.chunkText(text).map(chunk => chunk.text);
+    expect(results).toHaveLength(chunkTexts.length * 2);
+    expect(new Set(results.map(result => result.text))).toEqual(new Set(chunkTexts));
+    retriever.clearCache();
+
+    const stats = await encoder.getStats('videos/kb.mp4', text);
+    expect(stats.videoSizeBytes).toBe(await storage.size!('videos/kb.mp4'));
+    await expect(retriever.search(text, 'videos/missing.mp4')).rejects.toThrow(/not found/);
+  });
+
+  it('should save the shards of a store before its layout', async () => {
+    const storage = createInMemoryStorageBackend();
+    const database = createInMemoryAdapter();
+    const embedder = createSimpleEmbedder(16);
+    const encoder = new QRVideoStoreEncoder(database, embedder, {
+      ...config,
+      storage,
+      shard: { maxFrames: 2 },
+    });
+    const save = jest.spyOn(storage, 'save');
+
+    await encoder.addDocument('docs', text, 'kb.mp4');
+    await encoder.addDocument('more', text, 'kb.mp4');
+
+    const layout = await readShardLayout('kb.mp4', storage);
+    const saved = save.mock.calls.map(([videoPath]) => videoPath);
+    expect(saved[saved.length - 1]).toBe('kb.mp4.shards.json');
+    for (const shard of layout!.shards) {
+      expect(await storage.exists(shard.path)).toBe(true);
+    }
+
+    const retriever = new QRVideoStoreRetriever(database, embedder, { storage });
+    const results = await retriever.search(text, 'kb.mp4', 100);
+    expect(results).toHaveLength((await database.list!()).length);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for frame addressing and video option helpers
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import { PassThrough } from 'stream';
+import {
+  parseRational,
+  frameSeekTime,
+  assertFrameInRange,
+  buildFrameSelectExpression,
+  decodeRawFrames,
+  resolveVideoOptions,
+} from '../src/video';
+import { VideoStreamInfo } from '../src/types';
+
+// FFmpeg commands that only record their calls; tests write the output themselves
+jest.mock('fluent-ffmpeg', () => {
+  const createCommand = jest.fn(() => {
+    const command: Record<string, jest.Mock> = { kill: jest.fn(), pipe: jest.fn() };
+    for (const method of ['inputOptions', 'outputOptions', 'on']) {
+      command[method] = jest.fn(() => command);
+    }
+    return command;
+  });
+  return Object.assign(createCommand, { setFfmpegPath: jest.fn() });
+});
+
+function streamInfo(overrides: Partial<VideoStreamInfo> = {}): VideoStreamInfo {
+  return {
+    width: 256,
+    height: 256,
+    fps: 1,
+    timeBase: 1 / 16384,
+    startTime: 0,
+    frameCount: 100,
+    durationSeconds: 100,
+    ...overrides,
+  };
+}
+
+describe('video frame addressing', () => {
+  it('should parse FFmpeg rationals', () => {
+    expect(parseRational('30000/1001')).toBeCloseTo(29.97, 2);
+    expect(parseRational('25/1')).toBe(25);
+    expect(parseRational('0/0')).toBe(0);
+    expect(parseRational(undefined)).toBe(0);
+  });
+
+  it('should seek between the previous and requested frame at any fps', () => {
+    for (const fps of [1, 2, 24, 30000 / 1001]) {
+      const info = streamInfo({ fps, timeBase: 1 / 90000 });
+      for (const frameNumber of [1, 7, 42, 99]) {
+        const seek = frameSeekTime(info, frameNumber);
+        expect(seek).toBeGreaterThan((frameNumber - 1) / fps);
+        expect(seek).toBeLessThan(frameNumber / fps);
+      }
+    }
+    expect(frameSeekTime(streamInfo(), 0)).toBe(0);
+  });
+
+  it('should stay between frames when the timebase equals the frame duration', () => {
+    const info = streamInfo({ fps: 5, timeBase: 1 / 5 });
+    expect(frameSeekTime(info, 3)).toBeCloseTo(0.5, 10);
+  });
+
+  it('should reject frames past the end of the video', () => {
+    const info = streamInfo({ frameCount: 10 });
+    expect(() => assertFrameInRange(info, 9, 'a.mp4')).not.toThrow();
+    expect(() => assertFrameInRange(info, 10, 'a.mp4')).toThrow(/out of range/);
+    expect(() => assertFrameInRange(info, -1, 'a.mp4')).toThrow(/out of range/);
+  });
+
+  it('should collapse consecutive frames in the select expression', () => {
+    expect(buildFrameSelectExpression([0])).toBe('eq(n\\,0)');
+    expect(buildFrameSelectExpression([0, 3, 4, 5, 9])).toBe(
+      'eq(n\\,0)+between(n\\,3\\,5)+eq(n\\,9)'
+    );
+  });
+});
+
+describe('video presets', () => {
+  it('should keep the default H.264 output without a preset', () => {
+    expect(resolveVideoOptions('out.mp4', 'gray')).toEqual(['-c:v libx264', '-pix_fmt yuv420p']);
+  });
+
+  it('should pick a lossless codec for the container', () => {
+    expect(resolveVideoOptions('out.mkv', 'gray', { preset: 'lossless' })).toEqual([
+      '-c:v ffv1',
+      '-pix_fmt gray',
+      '-level 3',
+      '-g 1',
+    ]);
+    expect(resolveVideoOptions('out.mp4', 'rgb', { preset: 'lossless' })).toEqual([
+      '-c:v libx264rgb',
+      '-pix_fmt rgb24',
+      '-qp 0',
+    ]);
+  });
+
+  it('should default to VP9 in WebM and honour an explicit container', () => {
+    expect(resolveVideoOptions('out.webm', 'gray', { preset: 'seekable' })).toEqual([
+      '-c:v libvpx-vp9',
+      '-pix_fmt yuv420p',
+      '-g 1',
+      '-crf 24',
+      '-b:v 0',
+      '-row-mt 1',
+    ]);
+    expect(
+      resolveVideoOptions('out.bin', 'rgb', { codec: 'libaom-av1', container: 'mkv' })
+    ).toEqual(['-c:v libaom-av1', '-pix_fmt yuv420p', '-f matroska']);
+  });
+
+  it('should let ffmpegOptions and pixelFormat override the preset', () => {
+    expect(
+      resolveVideoOptions('out.mp4', 'gray', {
+        preset: 'compact',
+        pixelFormat: 'yuv444p',
+        ffmpegOptions: ['-crf 26'],
+      })
+    ).toEqual([
+      '-c:v libx264',
+      '-pix_fmt yuv444p',
+      '-crf 30',
+      '-preset slow',
+      '-tune stillimage',
+      '-crf 26',
+    ]);
+  });
+
+  it('should reject codecs the container or preset cannot use', () => {
+    expect(() => resolveVideoOptions('out.mp4', 'gray', { codec: 'ffv1' })).toThrow(
+      /cannot be stored in a mp4 container/
+    );
+    expect(() =>
+      resolveVideoOptions('out.webm', 'gray', { codec: 'libx264', container: 'webm' })
+    ).toThrow(/webm/);
+    expect(() =>
+      resolveVideoOptions('out.mkv', 'gray', { codec: 'ffv1', preset: 'compact' })
+    ).toThrow(/not available for codec ffv1/);
+  });
+});
+
+describe('raw frame decoding', () => {
+  it('should stop FFmpeg and reject when a frame callback throws', async () => {
+    const info = streamInfo({ width: 2, height: 2, frameCount: 3 });
+    const onFrame = jest.fn(() => {
+      throw new Error('Unsupported manifest version 9');
+    });
+
+    const decoding = decodeRawFrames('a.mp4', info, undefined, onFrame);
+    const command = jest.mocked(ffmpeg).mock.results.at(-1)!.value;
+    const output: PassThrough = command.pipe.mock.calls[0][0];
+    output.write(Buffer.alloc(2 * 2 * 4 * 2));
+
+    await expect(decoding).rejects.toThrow('Unsupported manifest version 9');
+    expect(onFrame).toHaveBeenCalledTimes(1);
+    expect(command.kill).toHaveBeenCalledWith('SIGKILL');
+  });
+});